@@ -0,0 +1,55 @@
+import express from 'express';
+import cors from 'cors';
+import { optionalIdentity, requireIdentity } from './auth/middleware.js';
+import { loginAccount, rateLimit } from './rateLimit.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createChatRouter } from './routes/chat.js';
+import { createConversationsRouter } from './routes/conversations.js';
+import { createDirectionsRouter } from './routes/directions.js';
+import { createGeocodeRouter } from './routes/geocode.js';
+
+/**
+ * Build the MapGPT Express app. Shared by the local server (index.js) and the
+ * Vercel serverless handler (api/[...path].js).
+ *
+ * @param {object} deps
+ * @param {object} deps.llm - LLM provider (see llm/index.js)
+ * @param {object} deps.store - Conversation store (see store/index.js)
+ * @param {object} deps.routing - Routing provider (see routing/index.js)
+ * @param {object} deps.geocoder - Geocoder for searches and reverse lookups (see geocode/index.js)
+ * @param {object} [deps.autocompleteGeocoder] - Geocoder for type-ahead suggestions, `geocoder` when omitted
+ * @param {object} deps.authenticator - Verifies sign-in tokens (see auth/index.js)
+ * @param {object} [deps.directionsCache] - Cache for directions responses (see cache.js), a fresh one when omitted
+ * @param {object} [deps.geocodeCache] - Cache for geocoding responses (see geocode/cache.js), in memory when omitted
+ * @param {object} [deps.rateLimits] - Per-route request budgets (see rateLimit.js), unlimited when omitted
+ * @param {boolean|number|string} [deps.trustProxy] - Express "trust proxy" setting, so limits see the client IP
+ */
+export function createApp({ llm, store, routing, directionsCache, geocoder, autocompleteGeocoder, geocodeCache, authenticator, rateLimits = {}, trustProxy = false }) {
+  const app = express();
+
+  app.set('trust proxy', trustProxy);
+
+  app.use(cors({ exposedHeaders: ['Retry-After', 'X-Cache'] }));
+  app.use(express.json());
+
+  // Chats and their history belong to the signed-in user or the anonymous device
+  app.use(['/api/chat', '/api/conversations'], requireIdentity(authenticator));
+  app.use(['/api/directions', '/api/geocode'], optionalIdentity(authenticator));
+
+  app.use('/api/chat', rateLimit(rateLimits.chat, 'chat'));
+  app.use('/api/directions', rateLimit(rateLimits.directions, 'directions'));
+  app.use('/api/geocode', rateLimit(rateLimits.geocode, 'geocoding'));
+  app.use('/api/auth/login', rateLimit(rateLimits.login, 'sign-in', { userKey: loginAccount }));
+
+  app.use('/api', createAuthRouter({ authenticator }));
+  app.use('/api', createChatRouter({ llm, store }));
+  app.use('/api', createConversationsRouter({ store }));
+  app.use('/api', createDirectionsRouter({ routing, cache: directionsCache }));
+  app.use('/api', createGeocodeRouter({ geocoder, autocompleteGeocoder, cache: geocodeCache }));
+
+  app.get('/health', (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  return app;
+}
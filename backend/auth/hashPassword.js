@@ -0,0 +1,10 @@
+// Print a password hash for AUTH_LOCAL_USERS: node auth/hashPassword.js <password>
+import { hashPassword } from './localJwt.js';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: node auth/hashPassword.js <password>');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
@@ -0,0 +1,52 @@
+import { createClient } from '@supabase/supabase-js';
+import { createLocalAuthenticator, parseUsers } from './localJwt.js';
+import { createSupabaseAuthenticator } from './supabase.js';
+
+// An authenticator exposes:
+//   name
+//   publicConfig                  -> settings the frontend needs to sign in (GET /api/auth/config)
+//   authenticate(token)           -> Promise<{ id, email } | null>, null when the token is not valid
+//   login(email, password)        -> Promise<{ token, user } | null>, only for providers with password sign-in
+// Requests without a token are served anonymously, scoped to their X-Device-Id (see middleware.js).
+
+/**
+ * Create the authenticator selected by AUTH_PROVIDER (supabase, local or none).
+ * Defaults to supabase when SUPABASE_URL is set.
+ */
+export function createAuthenticator(env = process.env) {
+  const provider = env.AUTH_PROVIDER || (env.SUPABASE_URL ? 'supabase' : 'none');
+
+  switch (provider) {
+    case 'supabase':
+      return createSupabaseAuthenticator(createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY), {
+        url: env.SUPABASE_URL,
+        anonKey: env.SUPABASE_ANON_KEY,
+      });
+
+    case 'local':
+      return createLocalAuthenticator({
+        secret: env.AUTH_JWT_SECRET,
+        users: parseUsers(env.AUTH_LOCAL_USERS),
+        tokenTtlSeconds: env.AUTH_TOKEN_TTL_SECONDS ? Number(env.AUTH_TOKEN_TTL_SECONDS) : undefined,
+      });
+
+    case 'none':
+      return createAnonymousAuthenticator();
+
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER: ${provider}`);
+  }
+}
+
+// Accounts disabled: every request is anonymous
+export function createAnonymousAuthenticator() {
+  return {
+    name: 'none',
+    publicConfig: {},
+    async authenticate() {
+      return null;
+    },
+  };
+}
+
+export { createLocalAuthenticator, createSupabaseAuthenticator };
@@ -0,0 +1,89 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+// Self-hosted sign-in: users come from AUTH_LOCAL_USERS and sessions are HS256
+// JWTs signed with AUTH_JWT_SECRET, so no external auth service is needed.
+
+const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const sign = (data, secret) => createHmac('sha256', secret).update(data).digest('base64url');
+
+function safeEqual(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function signJwt(payload, secret) {
+  const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Return the payload of a valid, unexpired HS256 token, or null.
+ */
+export function verifyJwt(token, secret, now = Date.now()) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  if (!safeEqual(signature, sign(`${header}.${payload}`, secret))) return null;
+
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.exp === 'number' && claims.exp * 1000 <= now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// Stored as scrypt:<salt>:<hash>; generate with `npm run hash-password -- <password>`
+export function hashPassword(password, salt = randomBytes(16).toString('hex')) {
+  return `scrypt:${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+export function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  return safeEqual(scryptSync(password, salt, 32).toString('hex'), hash);
+}
+
+// "alice@example.com:scrypt:<salt>:<hash>,bob@example.com:scrypt:..." -> Map(email -> password hash)
+export function parseUsers(value = '') {
+  const users = new Map();
+  for (const entry of value.split(',')) {
+    const trimmed = entry.trim();
+    const separator = trimmed.indexOf(':');
+    if (separator <= 0) continue;
+    users.set(trimmed.slice(0, separator).toLowerCase(), trimmed.slice(separator + 1));
+  }
+  return users;
+}
+
+export function createLocalAuthenticator({ secret, users = new Map(), tokenTtlSeconds = DEFAULT_TOKEN_TTL_SECONDS }) {
+  if (!secret) throw new Error('AUTH_JWT_SECRET is required for the local auth provider');
+
+  return {
+    name: 'local',
+    publicConfig: {},
+
+    async authenticate(token) {
+      const claims = verifyJwt(token, secret);
+      if (!claims?.sub) return null;
+      return { id: claims.sub, email: claims.email ?? null };
+    },
+
+    async login(email, password) {
+      const normalized = String(email).trim().toLowerCase();
+      const stored = users.get(normalized);
+      if (!stored || !verifyPassword(String(password), stored)) return null;
+
+      const now = Math.floor(Date.now() / 1000);
+      const user = { id: normalized, email: normalized };
+      const token = signJwt({ sub: user.id, email: user.email, iat: now, exp: now + tokenTtlSeconds }, secret);
+      return { token, user };
+    },
+  };
+}
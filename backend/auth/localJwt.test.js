@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, parseUsers, signJwt, verifyJwt, verifyPassword } from './localJwt.js';
+
+describe('local JWTs', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const exp = now / 1000 + 60;
+
+  it('should verify a token it signed', () => {
+    const token = signJwt({ sub: 'traveller@example.com', exp }, 'secret');
+
+    expect(verifyJwt(token, 'secret', now)).toEqual({ sub: 'traveller@example.com', exp });
+  });
+
+  it('should reject a token signed with another secret', () => {
+    expect(verifyJwt(signJwt({ sub: 'a', exp }, 'other'), 'secret', now)).toBeNull();
+  });
+
+  it('should reject a tampered payload', () => {
+    const [header, , signature] = signJwt({ sub: 'a', exp }, 'secret').split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'admin', exp })).toString('base64url');
+
+    expect(verifyJwt(`${header}.${payload}.${signature}`, 'secret', now)).toBeNull();
+  });
+
+  it('should reject an expired token', () => {
+    expect(verifyJwt(signJwt({ sub: 'a', exp }, 'secret'), 'secret', now + 61_000)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyJwt('not-a-token', 'secret', now)).toBeNull();
+    expect(verifyJwt(undefined, 'secret', now)).toBeNull();
+  });
+});
+
+describe('local passwords', () => {
+  it('should verify a hashed password', () => {
+    const hash = hashPassword('hunter2');
+
+    expect(verifyPassword('hunter2', hash)).toBe(true);
+    expect(verifyPassword('hunter3', hash)).toBe(false);
+  });
+
+  it('should parse AUTH_LOCAL_USERS', () => {
+    const users = parseUsers(' Alice@Example.com:scrypt:aa:bb , bob@example.com:scrypt:cc:dd,broken');
+
+    expect([...users]).toEqual([
+      ['alice@example.com', 'scrypt:aa:bb'],
+      ['bob@example.com', 'scrypt:cc:dd'],
+    ]);
+  });
+});
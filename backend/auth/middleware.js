@@ -0,0 +1,43 @@
+// Resolves who a request belongs to and sets req.owner = { id, user }:
+//   Authorization: Bearer <token> -> id "user:<user id>", user { id, email }
+//   X-Device-Id: <random id>      -> id "device:<device id>", user null (anonymous session)
+// Conversations are stored with req.owner.id and only visible to that owner.
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+function identify(authenticator, { required }) {
+  return async (req, res, next) => {
+    try {
+      const authorization = req.get('authorization');
+      if (authorization?.startsWith('Bearer ')) {
+        const user = await authenticator.authenticate(authorization.slice('Bearer '.length).trim());
+        if (!user) {
+          return res.status(401).json({ error: 'Invalid or expired session' });
+        }
+        req.owner = { id: `user:${user.id}`, user };
+        return next();
+      }
+
+      const deviceId = req.get('x-device-id');
+      if (deviceId && DEVICE_ID_PATTERN.test(deviceId)) {
+        req.owner = { id: `device:${deviceId}`, user: null };
+        return next();
+      }
+
+      if (!required) return next();
+      res.status(401).json({ error: 'Authentication required' });
+    } catch (error) {
+      console.error('Authentication error:', error);
+      res.status(500).json({ error: 'Failed to authenticate request' });
+    }
+  };
+}
+
+export function requireIdentity(authenticator) {
+  return identify(authenticator, { required: true });
+}
+
+// Like requireIdentity, but lets requests without any identity through with no req.owner
+export function optionalIdentity(authenticator) {
+  return identify(authenticator, { required: false });
+}
@@ -0,0 +1,15 @@
+// Verifies Supabase Auth access tokens. The frontend signs in with
+// supabase-js using the URL and anon key from publicConfig.
+
+export function createSupabaseAuthenticator(client, { url, anonKey }) {
+  return {
+    name: 'supabase',
+    publicConfig: { supabaseUrl: url, supabaseAnonKey: anonKey },
+
+    async authenticate(token) {
+      const { data, error } = await client.auth.getUser(token);
+      if (error || !data?.user) return null;
+      return { id: data.user.id, email: data.user.email ?? null };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// In-memory LRU cache with a per-entry time to live. Map iteration order is
+// insertion order, so re-inserting on read keeps the least recently used
+// entry first in line for eviction.
+
+export function createLruCache({ maxEntries = 500, ttlSeconds = 3600, now = Date.now } = {}) {
+  const entries = new Map();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
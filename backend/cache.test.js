@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache } from './cache.js';
+
+describe('createLruCache', () => {
+  it('should evict the least recently used entry when full', () => {
+    const cache = createLruCache({ maxEntries: 2 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should expire entries after their time to live', () => {
+    let time = 0;
+    const cache = createLruCache({ ttlSeconds: 60, now: () => time });
+
+    cache.set('a', 1);
+    time = 59_999;
+    expect(cache.get('a')).toBe(1);
+
+    time = 60_000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,426 @@
+// Structured chat response: JSON schema sent to the model, validation and
+// normalization of what comes back, and incremental extraction of the
+// user-facing message text while the JSON is still streaming.
+
+import { ROUTE_PROFILES } from './routing/index.js';
+
+const nullable = (schema) => ({ anyOf: [schema, { type: 'null' }] });
+
+// Mirrors PlacesStop in frontend/src/types
+const PLACES_STOP_SCHEMA = {
+  type: 'object',
+  properties: {
+    options: { type: 'array', items: { type: 'string' } },
+    optional: { type: 'boolean' },
+    travelTime: { type: ['string', 'null'] },
+  },
+  required: ['options', 'optional', 'travelTime'],
+  additionalProperties: false,
+};
+
+export const PERIOD_KEYS = ['Morning', 'Afternoon', 'Evening', 'Accommodation'];
+
+// Mirrors PlacesDay in frontend/src/types
+const PLACES_DAY_SCHEMA = {
+  type: 'object',
+  properties: {
+    key: { type: 'string' },
+    periods: {
+      type: 'object',
+      properties: Object.fromEntries(
+        PERIOD_KEYS.map((period) => [period, nullable({ type: 'array', items: PLACES_STOP_SCHEMA })])
+      ),
+      required: PERIOD_KEYS,
+      additionalProperties: false,
+    },
+  },
+  required: ['key', 'periods'],
+  additionalProperties: false,
+};
+
+// Mirrors Places in frontend/src/types
+const PLACES_SCHEMA = {
+  type: 'object',
+  properties: {
+    days: nullable({ type: 'array', items: PLACES_DAY_SCHEMA }),
+    suggested: nullable({ type: 'array', items: { type: 'string' } }),
+  },
+  required: ['days', 'suggested'],
+  additionalProperties: false,
+};
+
+// Mirrors the 'directions' MapAction in frontend/src/types
+const DIRECTIONS_ACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: ['directions'] },
+    origin: { type: 'string' },
+    destination: { type: 'string' },
+  },
+  required: ['action', 'origin', 'destination'],
+  additionalProperties: false,
+};
+
+// Mirrors the 'isochrone' MapAction in frontend/src/types
+const ISOCHRONE_ACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: ['isochrone'] },
+    origin: { type: 'string' },
+    minutes: { type: 'integer' },
+    profile: { type: 'string', enum: ROUTE_PROFILES },
+  },
+  required: ['action', 'origin', 'minutes', 'profile'],
+  additionalProperties: false,
+};
+
+// The longest isochrone /api/directions/isochrones accepts
+const MAX_ISOCHRONE_MINUTES = 60;
+
+// "message" is listed first so it is generated (and streamed) first
+export const CHAT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    mapAction: { anyOf: [DIRECTIONS_ACTION_SCHEMA, ISOCHRONE_ACTION_SCHEMA, { type: 'null' }] },
+    places: nullable(PLACES_SCHEMA),
+    followUpSuggestions: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['message', 'mapAction', 'places', 'followUpSuggestions'],
+  additionalProperties: false,
+};
+
+export const CHAT_RESPONSE_FORMAT = {
+  type: 'json_schema',
+  name: 'mapgpt_chat_response',
+  schema: CHAT_RESPONSE_SCHEMA,
+  strict: true,
+};
+
+function typeOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Validate a value against the subset of JSON schema used above
+ * (type, enum, properties, required, additionalProperties, items, anyOf).
+ * Returns a list of error strings, empty when the value is valid.
+ */
+export function validateSchema(schema, value, path = '$') {
+  if (schema.anyOf) {
+    const valid = schema.anyOf.some((option) => validateSchema(option, value, path).length === 0);
+    return valid ? [] : [`${path}: does not match any allowed schema`];
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  if (schema.type && !types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+    return [`${path}: expected ${types.join(' or ')}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: must be one of ${schema.enum.join(', ')}`];
+  }
+
+  const errors = [];
+
+  if (actual === 'object' && schema.properties) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (schema.properties[key]) {
+        errors.push(...validateSchema(schema.properties[key], child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  if (actual === 'array' && schema.items) {
+    value.forEach((item, idx) => {
+      errors.push(...validateSchema(schema.items, item, `${path}[${idx}]`));
+    });
+  }
+
+  return errors;
+}
+
+// Drop the nulls the strict schema forces on the model so the payload matches
+// the optional fields of the frontend types
+function normalizePlaces(places) {
+  if (!places) return null;
+
+  const days = (places.days || [])
+    .map((day) => {
+      const periods = {};
+      for (const period of PERIOD_KEYS) {
+        const stops = (day.periods[period] || [])
+          .map((stop) => ({
+            options: stop.options.map((v) => v.trim()).filter(Boolean),
+            optional: stop.optional,
+            ...(stop.travelTime ? { travelTime: stop.travelTime } : {}),
+          }))
+          .filter((stop) => stop.options.length > 0);
+        if (stops.length > 0) periods[period] = stops;
+      }
+      return { key: day.key.trim(), periods };
+    })
+    .filter((day) => day.key);
+
+  if (days.length > 0) return { days };
+
+  const suggested = (places.suggested || []).map((v) => v.trim()).filter(Boolean);
+  if (suggested.length > 0) return { suggested };
+
+  return null;
+}
+
+/**
+ * Flatten Places into the per-day place lists and per-period labels the
+ * frontend uses for its day buttons and itinerary flowchart.
+ */
+export function indexPlaces(places) {
+  if (!places) return { placesByDay: null, placesByTimePeriod: null };
+
+  const placesByDay = {};
+  const placesByTimePeriod = {};
+
+  if (Array.isArray(places.days)) {
+    for (const day of places.days) {
+      const dayKey = day.key;
+      if (!placesByDay[dayKey]) placesByDay[dayKey] = [];
+      if (!placesByTimePeriod[dayKey]) placesByTimePeriod[dayKey] = {};
+
+      for (const period of PERIOD_KEYS) {
+        const stops = day.periods[period] || [];
+        if (stops.length === 0) continue;
+
+        placesByTimePeriod[dayKey][period] = stops.map((stop) => {
+          const joined = stop.options.join(' | ');
+          return stop.optional ? `Optional: ${joined}` : joined;
+        });
+        for (const stop of stops) placesByDay[dayKey].push(...stop.options);
+      }
+
+      placesByDay[dayKey] = Array.from(new Set(placesByDay[dayKey]));
+    }
+  } else if (Array.isArray(places.suggested)) {
+    placesByDay['Suggested'] = Array.from(new Set(places.suggested));
+  }
+
+  return { placesByDay, placesByTimePeriod };
+}
+
+/**
+ * Legacy [PLACES]/[FOLLOWUP] tag format. Only used for models that ignore the
+ * response format (e.g. self-hosted models without structured output support),
+ * and coerced into the structured shape so it goes through the same validation.
+ */
+export function parseTaggedResponse(text) {
+  let mapAction = null;
+  const jsonMatch = text.match(/\{[^{}]*"action"[^{}]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (parsed.action === 'directions' && typeof parsed.origin === 'string' && typeof parsed.destination === 'string') {
+        mapAction = { action: 'directions', origin: parsed.origin, destination: parsed.destination };
+      } else if (parsed.action === 'isochrone' && typeof parsed.origin === 'string' && Number.isInteger(parsed.minutes)) {
+        const profile = ROUTE_PROFILES.includes(parsed.profile) ? parsed.profile : 'foot-walking';
+        mapAction = { action: 'isochrone', origin: parsed.origin, minutes: parsed.minutes, profile };
+      }
+    } catch (e) {
+      console.error('No valid JSON action found');
+    }
+  }
+
+  let followUpSuggestions = [];
+  const followUpMatch = text.match(/\[FOLLOWUP\]([\s\S]*?)(\[\/FOLLOWUP\]|$)/);
+  if (followUpMatch) {
+    followUpSuggestions = followUpMatch[1]
+      .split('\n')
+      .map((line) => line.replace(/^[\-\*]\s*/, '').trim())
+      .filter((line) => line.length > 0 && !line.startsWith('['));
+  }
+
+  let places = null;
+  const placesMatch = text.match(/\[PLACES\]([\s\S]*?)(\[\/PLACES\]|$)/);
+  if (placesMatch) {
+    const withoutFences = placesMatch[1].replace(/```json|```/gi, '').trim();
+    const jsonStart = withoutFences.indexOf('{');
+    const jsonEnd = withoutFences.lastIndexOf('}');
+
+    if (jsonStart !== -1 && jsonEnd > jsonStart) {
+      try {
+        places = coerceTaggedPlaces(JSON.parse(withoutFences.slice(jsonStart, jsonEnd + 1)));
+      } catch (e) {
+        console.error('No valid JSON places found');
+      }
+    }
+  }
+
+  const message = text
+    .replace(/\[FOLLOWUP\][\s\S]*?(\[\/FOLLOWUP\]|$)/g, '')
+    .replace(/\[PLACES\][\s\S]*?(\[\/PLACES\]|$)/g, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/\{[^{}]*"action"[^{}]*\}/g, '')
+    .replace(/^---+$/gm, '')
+    .trim();
+
+  return { message, mapAction, places, followUpSuggestions };
+}
+
+function coerceTaggedPlaces(raw) {
+  const toStrings = (list) => (Array.isArray(list) ? list.map((v) => String(v)) : []);
+
+  if (Array.isArray(raw?.days)) {
+    const days = raw.days
+      .filter((day) => typeof day?.key === 'string')
+      .map((day) => ({
+        key: day.key,
+        periods: Object.fromEntries(PERIOD_KEYS.map((period) => {
+          const stops = day.periods?.[period];
+          if (!Array.isArray(stops)) return [period, null];
+          return [period, stops.map((stop) => ({
+            options: toStrings(stop?.options),
+            optional: Boolean(stop?.optional),
+            travelTime: typeof stop?.travelTime === 'string' ? stop.travelTime : null,
+          }))];
+        })),
+      }));
+    return { days, suggested: null };
+  }
+
+  if (Array.isArray(raw?.suggested)) {
+    return { days: null, suggested: toStrings(raw.suggested) };
+  }
+
+  return null;
+}
+
+// Keep isochrone limits within what the endpoint accepts
+function normalizeMapAction(mapAction) {
+  if (mapAction?.action !== 'isochrone') return mapAction;
+  return { ...mapAction, minutes: Math.min(Math.max(mapAction.minutes, 1), MAX_ISOCHRONE_MINUTES) };
+}
+
+// Models without structured output tend to wrap their JSON in a ```json fence
+function unwrapCodeFence(text) {
+  const match = /^```[a-z]*[ \t]*\n([\s\S]*?)\s*```$/i.exec(text);
+  return match && match[1].trimStart().startsWith('{') ? match[1].trim() : text;
+}
+
+/**
+ * Parse and validate the raw model output. Throws when the output does not
+ * match CHAT_RESPONSE_SCHEMA, so nothing invalid is stored or returned.
+ */
+export function parseChatResponse(text) {
+  const trimmed = unwrapCodeFence((text || '').trim());
+
+  let raw;
+  if (trimmed.startsWith('{')) {
+    try {
+      raw = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Chat response is not valid JSON: ${e.message}`);
+    }
+  } else {
+    raw = parseTaggedResponse(trimmed);
+  }
+
+  const errors = validateSchema(CHAT_RESPONSE_SCHEMA, raw);
+  if (errors.length > 0) {
+    throw new Error(`Chat response failed schema validation: ${errors.slice(0, 5).join('; ')}`);
+  }
+
+  const places = normalizePlaces(raw.places);
+  const followUpSuggestions = raw.followUpSuggestions.map((v) => v.trim()).filter(Boolean);
+
+  return {
+    message: raw.message.trim(),
+    mapAction: normalizeMapAction(raw.mapAction),
+    followUpSuggestions,
+    ...indexPlaces(places),
+    places,
+  };
+}
+
+const JSON_ESCAPES = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Decode a JSON string body starting at `start`, stopping at the closing quote
+// or at the end of what has been received so far
+function decodePartialString(buffer, start) {
+  let out = '';
+  let i = start;
+  while (i < buffer.length) {
+    const ch = buffer[i];
+    if (ch === '"') return { text: out, complete: true };
+    if (ch !== '\\') {
+      out += ch;
+      i += 1;
+      continue;
+    }
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    out += JSON_ESCAPES[next] ?? next;
+    i += 2;
+  }
+  return { text: out, complete: false };
+}
+
+/**
+ * Turns raw output chunks into the text that should be shown to the user while
+ * streaming: the "message" field of a structured response (fenced or not), or
+ * the text itself for a legacy tagged response. push() returns only the newly
+ * visible text.
+ */
+export function createMessageStreamReader() {
+  let buffer = '';
+  let emitted = 0;
+  let complete = false;
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      if (complete) return '';
+
+      const trimmed = buffer.trimStart();
+      if (!trimmed) return '';
+
+      // Wait for the opening line of a code fence to see whether JSON follows
+      let body = trimmed;
+      if (trimmed.startsWith('```')) {
+        const fence = /^```[a-z]*[ \t]*\n\s*/i.exec(trimmed);
+        if (!fence || fence[0].length === trimmed.length) return '';
+        body = trimmed.slice(fence[0].length);
+      } else if ('```'.startsWith(trimmed)) {
+        return '';
+      }
+
+      let visible;
+      if (!body.startsWith('{')) {
+        visible = trimmed;
+      } else {
+        const keyMatch = /"message"\s*:\s*"/.exec(buffer);
+        if (!keyMatch) return '';
+        const decoded = decodePartialString(buffer, keyMatch.index + keyMatch[0].length);
+        visible = decoded.text;
+        complete = decoded.complete;
+      }
+
+      const delta = visible.slice(emitted);
+      emitted = visible.length;
+      return delta;
+    },
+  };
+}
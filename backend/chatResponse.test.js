@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createMessageStreamReader, parseChatResponse } from './chatResponse.js';
+
+describe('createMessageStreamReader', () => {
+  const readAll = (chunks) => {
+    const reader = createMessageStreamReader();
+    return chunks.map((chunk) => reader.push(chunk));
+  };
+
+  it('should emit the message field of a structured response as it arrives', () => {
+    const deltas = readAll(['{"mess', 'age": "Visit the ', '**Louvre**\\n', 'today", "mapAction": null}']);
+
+    expect(deltas).toEqual(['', 'Visit the ', '**Louvre**\n', 'today']);
+  });
+
+  it('should wait for a complete escape sequence', () => {
+    const deltas = readAll(['{"message": "Caf', '\\u00', 'e9 \\', '"Le Dôme\\""}']);
+
+    expect(deltas.join('')).toBe('Café "Le Dôme"');
+    expect(deltas[1]).toBe('');
+  });
+
+  it('should emit the message field of a response wrapped in a code fence', () => {
+    const deltas = readAll(['``', '`json', '\n{"message": "Visit the ', 'Louvre"}\n```']);
+
+    expect(deltas).toEqual(['', '', 'Visit the ', 'Louvre']);
+  });
+
+  it('should pass legacy tagged text through unchanged', () => {
+    expect(readAll(['Visit ', '**Louvre**\n[PLACES]'])).toEqual(['Visit ', '**Louvre**\n[PLACES]']);
+  });
+});
+
+describe('parseChatResponse', () => {
+  it('should drop empty follow-up suggestions', () => {
+    const parsed = parseChatResponse(JSON.stringify({
+      message: ' Hello ',
+      mapAction: null,
+      places: null,
+      followUpSuggestions: ['  More museums ', ''],
+    }));
+
+    expect(parsed.message).toBe('Hello');
+    expect(parsed.followUpSuggestions).toEqual(['More museums']);
+  });
+
+  it('should parse JSON wrapped in a code fence', () => {
+    const parsed = parseChatResponse('```json\n{"message": "Hello", "mapAction": null, "places": null, "followUpSuggestions": ["More"]}\n```\n');
+
+    expect(parsed.message).toBe('Hello');
+    expect(parsed.followUpSuggestions).toEqual(['More']);
+  });
+
+  it('should report missing fields', () => {
+    expect(() => parseChatResponse('{"message": "Hello"}')).toThrow(/schema validation/);
+  });
+
+  it('should accept isochrone actions and cap their minutes', () => {
+    const parsed = parseChatResponse(JSON.stringify({
+      message: 'Here is what you can reach.',
+      mapAction: { action: 'isochrone', origin: 'Hotel Le Meurice, Paris, France', minutes: 90, profile: 'foot-walking' },
+      places: null,
+      followUpSuggestions: [],
+    }));
+
+    expect(parsed.mapAction).toEqual({ action: 'isochrone', origin: 'Hotel Le Meurice, Paris, France', minutes: 60, profile: 'foot-walking' });
+  });
+
+  it('should reject isochrone actions with an unknown profile', () => {
+    const response = {
+      message: 'Here is what you can reach.',
+      mapAction: { action: 'isochrone', origin: 'Louvre, Paris, France', minutes: 15, profile: 'walking' },
+      places: null,
+      followUpSuggestions: [],
+    };
+
+    expect(() => parseChatResponse(JSON.stringify(response))).toThrow(/schema validation/);
+  });
+});
@@ -1,6 +1,6 @@
 import postgres from 'postgres'
 
-const connectionString = process.env.DATABASE_URL
-const sql = postgres(connectionString)
-
-export default sql
\ No newline at end of file
+// Postgres client used by the postgres conversation store (STORE_PROVIDER=postgres)
+export function createSql(connectionString = process.env.DATABASE_URL) {
+  return postgres(connectionString)
+}
@@ -0,0 +1,33 @@
+import { createAuthenticator } from './auth/index.js';
+import { createLruCache } from './cache.js';
+import { createGeocodeCache } from './geocode/cache.js';
+import { createGeocoders } from './geocode/index.js';
+import { createLlmProvider } from './llm/index.js';
+import { createConversationStore } from './store/index.js';
+import { createRateLimits } from './rateLimit.js';
+import { createRoutingProvider } from './routing/index.js';
+
+// Production dependencies for createApp, configured from environment variables
+export function createDependencies(env = process.env) {
+  return {
+    llm: createLlmProvider(env),
+    store: createConversationStore(env),
+    routing: createRoutingProvider(env),
+    directionsCache: createLruCache({
+      maxEntries: Number(env.DIRECTIONS_CACHE_SIZE) || 500,
+      ttlSeconds: Number(env.DIRECTIONS_CACHE_TTL_SECONDS) || 6 * 3600,
+    }),
+    ...createGeocoders(env),
+    geocodeCache: createGeocodeCache(env),
+    authenticator: createAuthenticator(env),
+    rateLimits: createRateLimits(env),
+    trustProxy: parseTrustProxy(env.TRUST_PROXY),
+  };
+}
+
+// TRUST_PROXY: "true", a number of proxy hops, or a list of trusted addresses
+function parseTrustProxy(value) {
+  if (value === undefined || value === '' || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
@@ -0,0 +1,103 @@
+import { createSql } from '../db.js';
+import { createLruCache } from '../cache.js';
+import { openDatabase } from '../store/sqlite.js';
+
+// Cache of geocoder responses shared by every client. Nominatim's usage policy
+// asks for results to be cached, and places rarely move, so entries live for
+// days and survive restarts when a database is available.
+//
+// A geocode cache exposes:
+//   name
+//   get(key)        -> Promise<value | undefined>, undefined when missing or expired
+//   set(key, value) -> Promise<void>
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 3600;
+
+export function createMemoryGeocodeCache({ maxEntries = 5000, ttlSeconds = DEFAULT_TTL_SECONDS, now = Date.now } = {}) {
+  const cache = createLruCache({ maxEntries, ttlSeconds, now });
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      return cache.get(key);
+    },
+
+    async set(key, value) {
+      cache.set(key, value);
+    },
+  };
+}
+
+export function createSqliteGeocodeCache({ filename = 'mapgpt.db', ttlSeconds = DEFAULT_TTL_SECONDS, now = Date.now } = {}) {
+  let opening;
+  const open = () => (opening ??= openDatabase(filename));
+
+  return {
+    name: 'sqlite',
+
+    async get(key) {
+      const db = await open();
+      const row = db.prepare('select value from geocode_cache where key = ? and expires_at > ?').get(key, now());
+      return row ? JSON.parse(row.value) : undefined;
+    },
+
+    async set(key, value) {
+      const db = await open();
+      const time = now();
+      db.prepare(`
+        insert into geocode_cache (key, value, expires_at) values (?, ?, ?)
+        on conflict (key) do update set value = excluded.value, expires_at = excluded.expires_at
+      `).run(key, JSON.stringify(value), time + ttlSeconds * 1000);
+      db.prepare('delete from geocode_cache where expires_at <= ?').run(time);
+    },
+  };
+}
+
+// Expects the schema from migrations/postgres
+export function createPostgresGeocodeCache(sql, { ttlSeconds = DEFAULT_TTL_SECONDS, now = Date.now } = {}) {
+  return {
+    name: 'postgres',
+
+    async get(key) {
+      const [row] = await sql`
+        select value from geocode_cache where key = ${key} and expires_at > ${new Date(now())}
+      `;
+      return row?.value;
+    },
+
+    async set(key, value) {
+      const time = now();
+      await sql`
+        insert into geocode_cache (key, value, expires_at)
+        values (${key}, ${sql.json(value)}, ${new Date(time + ttlSeconds * 1000)})
+        on conflict (key) do update set value = excluded.value, expires_at = excluded.expires_at
+      `;
+      await sql`delete from geocode_cache where expires_at <= ${new Date(time)}`;
+    },
+  };
+}
+
+/**
+ * Create the cache selected by GEOCODE_CACHE (memory, sqlite or postgres). By
+ * default it lives in the conversation store's database when that is sqlite or
+ * postgres, and in memory otherwise.
+ */
+export function createGeocodeCache(env = process.env) {
+  const provider = env.GEOCODE_CACHE || (['sqlite', 'postgres'].includes(env.STORE_PROVIDER) ? env.STORE_PROVIDER : 'memory');
+  const ttlSeconds = Number(env.GEOCODE_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  switch (provider) {
+    case 'memory':
+      return createMemoryGeocodeCache({ maxEntries: Number(env.GEOCODE_CACHE_SIZE) || undefined, ttlSeconds });
+
+    case 'sqlite':
+      return createSqliteGeocodeCache({ filename: env.SQLITE_PATH || 'mapgpt.db', ttlSeconds });
+
+    case 'postgres':
+      return createPostgresGeocodeCache(createSql(env.DATABASE_URL), { ttlSeconds });
+
+    default:
+      throw new Error(`Unknown GEOCODE_CACHE: ${provider}`);
+  }
+}
@@ -0,0 +1,67 @@
+// Offline geocoder for tests and local development: a handful of well-known
+// places, matched by the words of their label
+
+const place = (id, name, city, country, countryCode, lat, lng, category, type) => ({
+  id: `fixture:${id}`,
+  name,
+  label: [name, city, country].filter((part, i, parts) => parts.indexOf(part) === i).join(', '),
+  lat,
+  lng,
+  category,
+  type,
+  address: { city, country, countryCode },
+});
+
+export const FIXTURE_PLACES = [
+  place('paris', 'Paris', 'Paris', 'France', 'fr', 48.8566, 2.3522, 'place', 'city'),
+  place('eiffel-tower', 'Eiffel Tower', 'Paris', 'France', 'fr', 48.8584, 2.2945, 'tourism', 'attraction'),
+  place('louvre', 'Louvre Museum', 'Paris', 'France', 'fr', 48.8606, 2.3376, 'tourism', 'museum'),
+  place('notre-dame', 'Notre-Dame Cathedral', 'Paris', 'France', 'fr', 48.853, 2.3499, 'amenity', 'place_of_worship'),
+  place('tokyo', 'Tokyo', 'Tokyo', 'Japan', 'jp', 35.6762, 139.6503, 'place', 'city'),
+  place('senso-ji', 'Senso-ji Temple', 'Tokyo', 'Japan', 'jp', 35.7148, 139.7967, 'amenity', 'place_of_worship'),
+  place('shibuya-crossing', 'Shibuya Crossing', 'Tokyo', 'Japan', 'jp', 35.6595, 139.7005, 'highway', 'crossing'),
+  place('rome', 'Rome', 'Rome', 'Italy', 'it', 41.9028, 12.4964, 'place', 'city'),
+  place('colosseum', 'Colosseum', 'Rome', 'Italy', 'it', 41.8902, 12.4922, 'tourism', 'attraction'),
+];
+
+// Reverse lookups only answer within this distance of a place
+const MAX_REVERSE_DEGREES = 0.01;
+
+const words = (text) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export function createFixtureGeocoder({ places = FIXTURE_PLACES } = {}) {
+  const inCountries = (countrycodes) => (p) => !countrycodes || countrycodes.split(',').includes(p.address.countryCode);
+
+  return {
+    name: 'fixture',
+    configured: true,
+
+    // Every word of the query appears in the label
+    async search({ q, limit, countrycodes }) {
+      const query = words(q);
+      return places
+        .filter((p) => query.every((word) => words(p.label).includes(word)))
+        .filter(inCountries(countrycodes))
+        .slice(0, limit);
+    },
+
+    // The last word may be unfinished
+    async autocomplete({ q, limit, countrycodes }) {
+      const query = words(q);
+      const last = query.pop() ?? '';
+      return places
+        .filter((p) => {
+          const label = words(p.label);
+          return query.every((word) => label.includes(word)) && label.some((word) => word.startsWith(last));
+        })
+        .filter(inCountries(countrycodes))
+        .slice(0, limit);
+    },
+
+    async reverse({ lat, lon }) {
+      const distance = (p) => Math.hypot(p.lat - lat, p.lng - lon);
+      const nearest = [...places].sort((a, b) => distance(a) - distance(b))[0];
+      return nearest && distance(nearest) <= MAX_REVERSE_DEGREES ? nearest : null;
+    },
+  };
+}
@@ -0,0 +1,302 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGeocodeCache, createMemoryGeocodeCache, createSqliteGeocodeCache } from './cache.js';
+import { createFixtureGeocoder, createGeocoders, createNominatimGeocoder, createPeliasGeocoder, createPhotonGeocoder } from './index.js';
+import { createRequestQueue } from './nominatim.js';
+
+const eiffelTower = {
+  id: 'osm:way:5013364',
+  name: 'Tour Eiffel',
+  label: 'Tour Eiffel, Avenue Gustave Eiffel, Paris, France',
+  lat: 48.8584,
+  lng: 2.2945,
+  category: 'tourism',
+  type: 'attraction',
+  bbox: [2.2933, 48.8574, 2.2956, 48.8595],
+  address: { road: 'Avenue Gustave Eiffel', city: 'Paris', state: 'Île-de-France', postcode: '75007', country: 'France', countryCode: 'fr' },
+};
+
+const nominatimEiffelTower = {
+  place_id: 1,
+  osm_type: 'way',
+  osm_id: 5013364,
+  name: 'Tour Eiffel',
+  display_name: 'Tour Eiffel, Avenue Gustave Eiffel, Paris, France',
+  lat: '48.8584',
+  lon: '2.2945',
+  class: 'tourism',
+  type: 'attraction',
+  boundingbox: ['48.8574', '48.8595', '2.2933', '2.2956'],
+  address: { road: 'Avenue Gustave Eiffel', city: 'Paris', state: 'Île-de-France', postcode: '75007', country: 'France', country_code: 'fr' },
+};
+
+const jsonFetch = (body, status = 200) => vi.fn(async () => new Response(JSON.stringify(body), { status }));
+
+// A clock that only moves when the queue sleeps
+function createClock() {
+  const clock = { time: 0, sleeps: [] };
+  clock.now = () => clock.time;
+  clock.sleep = async (ms) => {
+    clock.sleeps.push(ms);
+    clock.time += ms;
+  };
+  return clock;
+}
+
+describe('createRequestQueue', () => {
+  it('should start tasks one at a time, at least the interval apart', async () => {
+    const clock = createClock();
+    const queue = createRequestQueue({ intervalMs: 1000, now: clock.now, sleep: clock.sleep });
+    const starts = [];
+
+    await Promise.all([1, 2, 3].map((n) => queue.schedule(async () => {
+      starts.push(clock.time);
+      clock.time += 200;
+      return n;
+    })));
+
+    expect(starts).toEqual([0, 1000, 2000]);
+    expect(clock.sleeps).toEqual([800, 800]);
+  });
+
+  it('should keep going after a failed task', async () => {
+    const queue = createRequestQueue({ intervalMs: 0 });
+
+    await expect(queue.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(queue.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should turn tasks away when too many are waiting', async () => {
+    const queue = createRequestQueue({ intervalMs: 0, maxQueued: 1 });
+
+    const first = queue.schedule(async () => 1);
+    await expect(queue.schedule(async () => 2)).rejects.toMatchObject({ busy: true });
+    await expect(first).resolves.toBe(1);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe('createNominatimGeocoder', () => {
+  const queue = createRequestQueue({ intervalMs: 0 });
+
+  it('should identify itself, ask for address details and normalize the results', async () => {
+    const fetchImpl = jsonFetch([nominatimEiffelTower]);
+    const geocoder = createNominatimGeocoder({ userAgent: 'TestApp/1.0', email: 'ops@example.com', fetchImpl, queue });
+
+    const results = await geocoder.search({ q: 'Eiffel Tower', limit: 5, countrycodes: 'fr' });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://nominatim.openstreetmap.org/search?q=Eiffel+Tower&limit=5&countrycodes=fr&format=json&addressdetails=1&email=ops%40example.com');
+    expect(init.headers['User-Agent']).toBe('TestApp/1.0');
+    expect(results).toEqual([eiffelTower]);
+  });
+
+  it('should use a self-hosted instance and map missing addresses to null', async () => {
+    const fetchImpl = jsonFetch({ error: 'Unable to geocode' });
+    const geocoder = createNominatimGeocoder({ baseUrl: 'http://nominatim.internal:8080', fetchImpl, queue });
+
+    expect(await geocoder.reverse({ lat: 0, lon: -30 })).toBeNull();
+    expect(fetchImpl.mock.calls[0][0]).toBe('http://nominatim.internal:8080/reverse?lat=0&lon=-30&format=json&addressdetails=1');
+  });
+
+  it('should warn when the public instance is used without a contact', async () => {
+    const warn = vi.fn();
+    const fetchImpl = jsonFetch([nominatimEiffelTower]);
+    const geocoder = createNominatimGeocoder({ fetchImpl, queue, warn });
+
+    await geocoder.search({ q: 'Eiffel Tower' });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('NOMINATIM_USER_AGENT'));
+    expect(fetchImpl.mock.calls[0][1].headers['User-Agent']).toBe('MapGPT/1.0');
+    createNominatimGeocoder({ email: 'ops@example.com', warn });
+    createNominatimGeocoder({ baseUrl: 'http://nominatim.internal:8080', warn });
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one upstream call between identical requests in flight', async () => {
+    const fetchImpl = jsonFetch([nominatimEiffelTower]);
+    const geocoder = createNominatimGeocoder({ userAgent: 'TestApp/1.0', fetchImpl, queue });
+
+    const results = await Promise.all([geocoder.search({ q: 'Eiffel Tower' }), geocoder.autocomplete({ q: 'Eiffel Tower' })]);
+
+    expect(results).toEqual([[eiffelTower], [eiffelTower]]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    await geocoder.search({ q: 'Eiffel Tower' });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject with the upstream status', async () => {
+    const geocoder = createNominatimGeocoder({ fetchImpl: jsonFetch({}, 429), queue });
+
+    await expect(geocoder.search({ q: 'Louvre' })).rejects.toMatchObject({ status: 429 });
+  });
+});
+
+describe('createPhotonGeocoder', () => {
+  const photonEiffelTower = {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [2.2945, 48.8584] },
+    properties: {
+      osm_type: 'W',
+      osm_id: 5013364,
+      osm_key: 'tourism',
+      osm_value: 'attraction',
+      name: 'Tour Eiffel',
+      street: 'Avenue Gustave Eiffel',
+      postcode: '75007',
+      city: 'Paris',
+      state: 'Île-de-France',
+      country: 'France',
+      countrycode: 'FR',
+      extent: [2.2933, 48.8595, 2.2956, 48.8574],
+    },
+  };
+
+  it('should normalize features and bias towards the viewbox center', async () => {
+    const fetchImpl = jsonFetch({ features: [photonEiffelTower] });
+    const geocoder = createPhotonGeocoder({ fetchImpl });
+
+    const places = await geocoder.autocomplete({ q: 'tour eif', limit: 5, viewbox: '2.2,48.9,2.4,48.8' });
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://photon.komoot.io/api?q=tour+eif&limit=5&lat=48.85&lon=2.3');
+    expect(places).toEqual([{ ...eiffelTower, label: 'Tour Eiffel, Avenue Gustave Eiffel, Paris, Île-de-France, France' }]);
+  });
+
+  it('should filter bounded searches by box and countries by code', async () => {
+    const fetchImpl = jsonFetch({ features: [photonEiffelTower] });
+    const geocoder = createPhotonGeocoder({ baseUrl: 'http://photon.internal:2322', fetchImpl });
+
+    const places = await geocoder.search({ q: 'Tour Eiffel', limit: 5, countrycodes: 'be,de', viewbox: '2.2,48.9,2.4,48.8', bounded: true });
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('http://photon.internal:2322/api?q=Tour+Eiffel&limit=25&bbox=2.2%2C48.8%2C2.4%2C48.9');
+    expect(places).toEqual([]);
+  });
+
+  it('should ask for more results when filtering by country and keep the first ones in it', async () => {
+    const inTexas = (osmId) => ({
+      ...photonEiffelTower,
+      properties: { ...photonEiffelTower.properties, osm_id: osmId, city: 'Paris', state: 'Texas', country: 'United States', countrycode: 'US' },
+    });
+    const fetchImpl = jsonFetch({ features: [inTexas(1), photonEiffelTower, { ...photonEiffelTower, properties: { ...photonEiffelTower.properties, osm_id: 2 } }] });
+    const geocoder = createPhotonGeocoder({ fetchImpl });
+
+    const places = await geocoder.search({ q: 'Tour Eiffel', limit: 1, countrycodes: 'fr' });
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://photon.komoot.io/api?q=Tour+Eiffel&limit=5');
+    expect(places.map((place) => place.id)).toEqual([eiffelTower.id]);
+  });
+
+  it('should cap the results asked for when filtering by country', async () => {
+    const fetchImpl = jsonFetch({ features: [] });
+    const geocoder = createPhotonGeocoder({ fetchImpl });
+
+    await geocoder.search({ q: 'Tour Eiffel', limit: 20, countrycodes: 'fr' });
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://photon.komoot.io/api?q=Tour+Eiffel&limit=50');
+  });
+
+  it('should return null when reverse geocoding finds nothing', async () => {
+    const geocoder = createPhotonGeocoder({ fetchImpl: jsonFetch({ features: [] }) });
+
+    expect(await geocoder.reverse({ lat: 0, lon: -30 })).toBeNull();
+  });
+});
+
+describe('createPeliasGeocoder', () => {
+  const peliasEiffelTower = {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [2.2945, 48.8584] },
+    bbox: [2.2933, 48.8574, 2.2956, 48.8595],
+    properties: {
+      gid: 'openstreetmap:venue:way/5013364',
+      source: 'openstreetmap',
+      source_id: 'way/5013364',
+      layer: 'venue',
+      name: 'Tour Eiffel',
+      label: 'Tour Eiffel, Paris, France',
+      category: ['tourism'],
+      street: 'Avenue Gustave Eiffel',
+      postalcode: '75007',
+      locality: 'Paris',
+      region: 'Île-de-France',
+      country: 'France',
+      country_code: 'FR',
+    },
+  };
+
+  it('should send the API key and filters, and keep OpenStreetMap ids', async () => {
+    const fetchImpl = jsonFetch({ features: [peliasEiffelTower] });
+    const geocoder = createPeliasGeocoder({ apiKey: 'secret-key', fetchImpl });
+
+    const [place] = await geocoder.search({ q: 'Tour Eiffel', limit: 3, countrycodes: 'fr', viewbox: '2.2,48.9,2.4,48.8', bounded: true });
+
+    expect(fetchImpl.mock.calls[0][0]).toBe(
+      'https://api.geocode.earth/v1/search?text=Tour+Eiffel&size=3&boundary.country=FR'
+        + '&boundary.rect.min_lon=2.2&boundary.rect.min_lat=48.8&boundary.rect.max_lon=2.4&boundary.rect.max_lat=48.9&api_key=secret-key'
+    );
+    expect(place).toEqual({ ...eiffelTower, label: 'Tour Eiffel, Paris, France', type: 'venue' });
+  });
+
+  it('should need a key for the hosted API only', () => {
+    expect(createPeliasGeocoder().configured).toBe(false);
+    expect(createPeliasGeocoder({ baseUrl: 'http://pelias.internal:4000' }).configured).toBe(true);
+  });
+});
+
+describe('createFixtureGeocoder', () => {
+  const geocoder = createFixtureGeocoder();
+
+  it('should search, suggest and reverse geocode its places', async () => {
+    expect((await geocoder.search({ q: 'Louvre Paris', limit: 5 })).map((p) => p.name)).toEqual(['Louvre Museum']);
+    expect((await geocoder.search({ q: 'Paris', limit: 5, countrycodes: 'jp' }))).toEqual([]);
+    expect((await geocoder.autocomplete({ q: 'senso', limit: 5 })).map((p) => p.name)).toEqual(['Senso-ji Temple']);
+    expect((await geocoder.reverse({ lat: 48.8585, lon: 2.2946 })).name).toBe('Eiffel Tower');
+    expect(await geocoder.reverse({ lat: 0, lon: -30 })).toBeNull();
+  });
+});
+
+describe('createGeocoders', () => {
+  it('should default to Nominatim for search and Photon for suggestions', () => {
+    const { geocoder, autocompleteGeocoder } = createGeocoders({ NOMINATIM_EMAIL: 'ops@example.com' });
+
+    expect(geocoder.name).toBe('nominatim');
+    expect(autocompleteGeocoder.name).toBe('photon');
+  });
+
+  it('should share one instance when both use the same provider', () => {
+    const { geocoder, autocompleteGeocoder } = createGeocoders({ AUTOCOMPLETE_PROVIDER: 'nominatim', NOMINATIM_EMAIL: 'ops@example.com' });
+
+    expect(autocompleteGeocoder).toBe(geocoder);
+    expect(createGeocoders({ GEOCODER_PROVIDER: 'fixture' }).autocompleteGeocoder.name).toBe('fixture');
+    expect(() => createGeocoders({ AUTOCOMPLETE_PROVIDER: 'google' })).toThrow('Unknown AUTOCOMPLETE_PROVIDER: google');
+  });
+});
+
+describe.each([
+  ['memory', (options) => createMemoryGeocodeCache(options)],
+  ['sqlite', (options) => createSqliteGeocodeCache({ filename: ':memory:', ...options })],
+])('%s geocode cache', (_name, createCache) => {
+  it('should return stored values, including null, until they expire', async () => {
+    let time = 0;
+    const cache = createCache({ ttlSeconds: 60, now: () => time });
+
+    await cache.set('search:eiffel tower', [eiffelTower]);
+    await cache.set('reverse:0,-30', null);
+
+    expect(await cache.get('search:eiffel tower')).toEqual([eiffelTower]);
+    expect(await cache.get('reverse:0,-30')).toBeNull();
+    expect(await cache.get('search:louvre')).toBeUndefined();
+
+    time = 60_000;
+    expect(await cache.get('search:eiffel tower')).toBeUndefined();
+  });
+});
+
+describe('createGeocodeCache', () => {
+  it('should follow the conversation store unless GEOCODE_CACHE is set', () => {
+    expect(createGeocodeCache({ STORE_PROVIDER: 'supabase' }).name).toBe('memory');
+    expect(createGeocodeCache({ STORE_PROVIDER: 'sqlite', SQLITE_PATH: ':memory:' }).name).toBe('sqlite');
+    expect(createGeocodeCache({ STORE_PROVIDER: 'sqlite', GEOCODE_CACHE: 'memory' }).name).toBe('memory');
+    expect(() => createGeocodeCache({ GEOCODE_CACHE: 'redis' })).toThrow('Unknown GEOCODE_CACHE: redis');
+  });
+});
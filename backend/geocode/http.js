@@ -0,0 +1,24 @@
+// Error for a failed geocoder request, carrying the upstream status so the
+// geocode route can report it
+export async function geocodeError(response) {
+  const errorText = await response.text().catch(() => '');
+  const error = new Error(errorText || `Geocoding request failed with status ${response.status}`);
+  error.status = response.status;
+  return error;
+}
+
+// Query string from the params that are set
+export function toQuery(params) {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, String(value)]);
+  return new URLSearchParams(entries).toString();
+}
+
+// "left,top,right,bottom" viewbox (either corner order) -> { minLng, minLat, maxLng, maxLat, center }
+export function viewboxBounds(viewbox) {
+  const [x1, y1, x2, y2] = viewbox.split(',').map(Number);
+  const bounds = { minLng: Math.min(x1, x2), minLat: Math.min(y1, y2), maxLng: Math.max(x1, x2), maxLat: Math.max(y1, y2) };
+  const middle = (a, b) => Number(((a + b) / 2).toFixed(5));
+  return { ...bounds, center: { lat: middle(bounds.minLat, bounds.maxLat), lng: middle(bounds.minLng, bounds.maxLng) } };
+}
@@ -0,0 +1,72 @@
+import { createNominatimGeocoder } from './nominatim.js';
+import { createPhotonGeocoder } from './photon.js';
+import { createPeliasGeocoder } from './pelias.js';
+import { createFixtureGeocoder } from './fixture.js';
+
+// A geocoder exposes:
+//   name
+//   configured                                               -> false when required settings (API key) are missing
+//   search({ q, limit, countrycodes, viewbox, bounded })       -> Promise<place[]>, best match first
+//   autocomplete({ q, limit, countrycodes, viewbox, bounded }) -> Promise<place[]> for a partially typed query
+//   reverse({ lat, lon })                                     -> Promise<place | null>, null when nothing is there
+// `countrycodes` is a comma-separated list of lowercase ISO 3166-1 alpha-2
+// codes and `viewbox` "left,top,right,bottom" in degrees; a viewbox narrows the
+// results to that area when `bounded` is set and only favors it otherwise.
+// Places are normalized to
+//   { id, name, label, lat, lng, category, type, bbox, address }
+// where id is "osm:<node|way|relation>:<id>" for OpenStreetMap records (so
+// engines agree on it), label the full one-line description, bbox
+// [west, south, east, north] when known and address
+// { road, city, state, postcode, country, countryCode } with whatever parts the
+// engine knows. Failed requests throw an error carrying the upstream status.
+
+export const GEOCODER_PROVIDERS = ['nominatim', 'photon', 'pelias', 'fixture'];
+
+/**
+ * Create the geocoder for `provider` (nominatim, photon, pelias or fixture).
+ */
+export function createGeocoderProvider(provider, env = process.env) {
+  switch (provider) {
+    case 'nominatim':
+      return createNominatimGeocoder({
+        baseUrl: env.NOMINATIM_BASE_URL || undefined,
+        userAgent: env.NOMINATIM_USER_AGENT || undefined,
+        email: env.NOMINATIM_EMAIL || undefined,
+        requestsPerSecond: Number(env.NOMINATIM_REQUESTS_PER_SECOND) || 1,
+      });
+
+    case 'photon':
+      return createPhotonGeocoder({ baseUrl: env.PHOTON_URL || undefined });
+
+    case 'pelias':
+      return createPeliasGeocoder({ baseUrl: env.PELIAS_URL || undefined, apiKey: env.PELIAS_API_KEY });
+
+    case 'fixture':
+      return createFixtureGeocoder();
+
+    default:
+      throw new Error(`Unknown geocoder: ${provider}`);
+  }
+}
+
+/**
+ * Geocoders selected by GEOCODER_PROVIDER (search and reverse lookups,
+ * nominatim by default) and AUTOCOMPLETE_PROVIDER (type-ahead suggestions,
+ * photon by default, or fixture when the geocoder is the fixture). Both use
+ * the same instance when they name the same provider, so Nominatim keeps a
+ * single request queue.
+ */
+export function createGeocoders(env = process.env) {
+  const provider = env.GEOCODER_PROVIDER || 'nominatim';
+  const autocompleteProvider = env.AUTOCOMPLETE_PROVIDER || (provider === 'fixture' ? 'fixture' : 'photon');
+  if (!GEOCODER_PROVIDERS.includes(provider)) throw new Error(`Unknown GEOCODER_PROVIDER: ${provider}`);
+  if (!GEOCODER_PROVIDERS.includes(autocompleteProvider)) throw new Error(`Unknown AUTOCOMPLETE_PROVIDER: ${autocompleteProvider}`);
+
+  const geocoder = createGeocoderProvider(provider, env);
+  return {
+    geocoder,
+    autocompleteGeocoder: autocompleteProvider === provider ? geocoder : createGeocoderProvider(autocompleteProvider, env),
+  };
+}
+
+export { createNominatimGeocoder, createPhotonGeocoder, createPeliasGeocoder, createFixtureGeocoder };
@@ -0,0 +1,135 @@
+// Nominatim adapter (https://nominatim.org/release-docs/latest/api/Overview/).
+// The public instance allows one request per second for the whole application
+// and requires an identifying User-Agent, so every request from this server
+// process goes through one queue, and identical requests already in flight
+// share a single upstream call.
+
+import { geocodeError, toQuery } from './http.js';
+
+const NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org';
+// Identifies the software only; deployments add their own contact, see below
+const DEFAULT_USER_AGENT = 'MapGPT/1.0';
+
+// Requests waiting for their turn; beyond this the caller is told to come back later
+const MAX_QUEUED_REQUESTS = 50;
+
+// Nominatim "json" result with address details -> place
+function toPlace(result) {
+  const address = result.address ?? {};
+  const [south, north, west, east] = (result.boundingbox ?? []).map(Number);
+  return {
+    id: `osm:${result.osm_type}:${result.osm_id}`,
+    name: result.name || result.display_name.split(',')[0],
+    label: result.display_name,
+    lat: Number(result.lat),
+    lng: Number(result.lon),
+    category: result.class,
+    type: result.type,
+    bbox: result.boundingbox ? [west, south, east, north] : undefined,
+    address: {
+      road: address.road,
+      city: address.city ?? address.town ?? address.village,
+      state: address.state,
+      postcode: address.postcode,
+      country: address.country,
+      countryCode: address.country_code,
+    },
+  };
+}
+
+/**
+ * Run tasks one at a time, starting each at least `intervalMs` after the
+ * previous one started. Rejects with `busy: true` when `maxQueued` tasks are
+ * already waiting.
+ */
+export function createRequestQueue({
+  intervalMs = 1000,
+  maxQueued = MAX_QUEUED_REQUESTS,
+  now = Date.now,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+} = {}) {
+  let tail = Promise.resolve();
+  let nextStart = 0;
+  let queued = 0;
+
+  return {
+    get size() {
+      return queued;
+    },
+
+    schedule(task) {
+      if (queued >= maxQueued) {
+        const error = new Error('Too many geocoding requests are waiting');
+        error.busy = true;
+        return Promise.reject(error);
+      }
+
+      queued += 1;
+      const run = tail.then(async () => {
+        const wait = nextStart - now();
+        if (wait > 0) await sleep(wait);
+        nextStart = now() + intervalMs;
+        queued -= 1;
+        return task();
+      });
+      tail = run.catch(() => {});
+      return run;
+    },
+  };
+}
+
+export function createNominatimGeocoder({
+  baseUrl = NOMINATIM_BASE_URL,
+  userAgent,
+  email,
+  requestsPerSecond = 1,
+  fetchImpl = fetch,
+  queue = createRequestQueue({ intervalMs: 1000 / requestsPerSecond }),
+  warn = console.warn,
+} = {}) {
+  const inFlight = new Map();
+
+  // The public instance's usage policy asks for a way to reach whoever runs the app
+  if (baseUrl === NOMINATIM_BASE_URL && !userAgent && !email) {
+    warn('Set NOMINATIM_USER_AGENT (app name and contact URL) or NOMINATIM_EMAIL before using the public Nominatim instance.');
+  }
+  userAgent ??= DEFAULT_USER_AGENT;
+
+  // Results in Nominatim's "json" format with address details, whatever the endpoint
+  const get = (path, params) => {
+    const url = `${baseUrl}/${path}?${toQuery({ ...params, format: 'json', addressdetails: 1, email })}`;
+    if (inFlight.has(url)) return inFlight.get(url);
+
+    const request = queue
+      .schedule(async () => {
+        const response = await fetchImpl(url, { headers: { 'User-Agent': userAgent, 'Accept': 'application/json' } });
+        if (!response.ok) throw await geocodeError(response);
+        return response.json();
+      })
+      .finally(() => inFlight.delete(url));
+    inFlight.set(url, request);
+    return request;
+  };
+
+  const search = async ({ q, limit, countrycodes, viewbox, bounded }) => {
+    const results = await get('search', { q, limit, countrycodes, viewbox, bounded: bounded ? 1 : undefined });
+    return results.map(toPlace);
+  };
+
+  return {
+    name: 'nominatim',
+    configured: true,
+    baseUrl,
+
+    search,
+
+    // Nominatim has no type-ahead endpoint, and its usage policy discourages
+    // search-as-you-type, so this is a plain search
+    autocomplete: search,
+
+    async reverse({ lat, lon }) {
+      const result = await get('reverse', { lat, lon });
+      return result?.error ? null : toPlace(result);
+    },
+  };
+}
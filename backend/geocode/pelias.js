@@ -0,0 +1,80 @@
+// Pelias adapter (https://github.com/pelias/documentation), for a hosted API
+// such as geocode.earth (needs a key) or a self-hosted server (no key needed)
+
+import { geocodeError, toQuery, viewboxBounds } from './http.js';
+
+const PELIAS_BASE_URL = 'https://api.geocode.earth';
+
+// OpenStreetMap records keep the same ids whichever engine found them
+function placeId({ gid, source, source_id: sourceId }) {
+  const osm = source === 'openstreetmap' && /^(node|way|relation)\/(\d+)$/.exec(sourceId ?? '');
+  return osm ? `osm:${osm[1]}:${osm[2]}` : gid;
+}
+
+// Pelias GeoJSON feature -> place
+function toPlace({ geometry, properties, bbox }) {
+  const [lng, lat] = geometry.coordinates;
+  return {
+    id: placeId(properties),
+    name: properties.name,
+    label: properties.label ?? properties.name,
+    lat,
+    lng,
+    category: properties.category?.[0],
+    type: properties.layer,
+    bbox,
+    address: {
+      road: properties.street,
+      city: properties.locality,
+      state: properties.region,
+      postcode: properties.postalcode,
+      country: properties.country,
+      countryCode: properties.country_code?.toLowerCase(),
+    },
+  };
+}
+
+export function createPeliasGeocoder({ baseUrl = PELIAS_BASE_URL, apiKey, fetchImpl = fetch } = {}) {
+  const get = async (path, params) => {
+    const response = await fetchImpl(`${baseUrl}/v1/${path}?${toQuery({ ...params, api_key: apiKey })}`);
+    if (!response.ok) throw await geocodeError(response);
+    const { features } = await response.json();
+    return features.map(toPlace);
+  };
+
+  // A bounded search filters by the viewbox, otherwise its center is the focus point
+  const filters = ({ countrycodes, viewbox, bounded }) => {
+    const bounds = viewbox && viewboxBounds(viewbox);
+    return {
+      'boundary.country': countrycodes?.toUpperCase(),
+      ...(bounds && bounded && {
+        'boundary.rect.min_lon': bounds.minLng,
+        'boundary.rect.min_lat': bounds.minLat,
+        'boundary.rect.max_lon': bounds.maxLng,
+        'boundary.rect.max_lat': bounds.maxLat,
+      }),
+      ...(bounds && !bounded && { 'focus.point.lat': bounds.center.lat, 'focus.point.lon': bounds.center.lng }),
+    };
+  };
+
+  return {
+    name: 'pelias',
+    // The hosted API needs a key; self-hosted servers usually don't
+    configured: Boolean(apiKey) || baseUrl !== PELIAS_BASE_URL,
+
+    async search({ q, limit, ...options }) {
+      return get('search', { text: q, size: limit, ...filters(options) });
+    },
+
+    // The autocomplete endpoint has no size parameter
+    async autocomplete({ q, limit, ...options }) {
+      const places = await get('autocomplete', { text: q, ...filters(options) });
+      return places.slice(0, limit);
+    },
+
+    async reverse({ lat, lon }) {
+      const [place] = await get('reverse', { 'point.lat': lat, 'point.lon': lon, size: 1 });
+      return place ?? null;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+// Photon adapter (https://github.com/komoot/photon), for the public instance
+// at photon.komoot.io or a self-hosted server. Photon is built for
+// search-as-you-type, so it is the default for autocomplete.
+
+import { geocodeError, toQuery, viewboxBounds } from './http.js';
+
+const PHOTON_BASE_URL = 'https://photon.komoot.io';
+
+const OSM_TYPES = { N: 'node', W: 'way', R: 'relation' };
+
+// Results asked for per one wanted when they are filtered by country, and the
+// most Photon is asked for at once
+const COUNTRY_OVERFETCH = 5;
+const MAX_LIMIT = 50;
+
+// Photon GeoJSON feature -> place
+function toPlace({ geometry, properties }) {
+  const [lng, lat] = geometry.coordinates;
+  const road = properties.street;
+  const city = properties.city ?? properties.town ?? properties.village;
+  const name = properties.name ?? ([properties.housenumber, road].filter(Boolean).join(' ') || city || properties.country);
+  const [west, north, east, south] = properties.extent ?? [];
+
+  return {
+    id: `osm:${OSM_TYPES[properties.osm_type] ?? properties.osm_type}:${properties.osm_id}`,
+    name,
+    label: [...new Set([name, road, city, properties.state, properties.country].filter(Boolean))].join(', '),
+    lat,
+    lng,
+    category: properties.osm_key,
+    type: properties.osm_value,
+    bbox: properties.extent ? [west, south, east, north] : undefined,
+    address: {
+      road,
+      city,
+      state: properties.state,
+      postcode: properties.postcode,
+      country: properties.country,
+      countryCode: properties.countrycode?.toLowerCase(),
+    },
+  };
+}
+
+export function createPhotonGeocoder({ baseUrl = PHOTON_BASE_URL, fetchImpl = fetch } = {}) {
+  const get = async (path, params) => {
+    const response = await fetchImpl(`${baseUrl}/${path}?${toQuery(params)}`);
+    if (!response.ok) throw await geocodeError(response);
+    const { features } = await response.json();
+    return features.map(toPlace);
+  };
+
+  // A bounded search filters by the viewbox, otherwise its center biases the ranking.
+  // Photon cannot filter by country, so that happens on more results than wanted.
+  const search = async ({ q, limit, countrycodes, viewbox, bounded }) => {
+    const bounds = viewbox && viewboxBounds(viewbox);
+    const countries = countrycodes?.split(',');
+    const places = await get('api', {
+      q,
+      limit: countries && limit ? Math.min(limit * COUNTRY_OVERFETCH, MAX_LIMIT) : limit,
+      bbox: bounded ? [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat].join(',') : undefined,
+      lat: bounds && !bounded ? bounds.center.lat : undefined,
+      lon: bounds && !bounded ? bounds.center.lng : undefined,
+    });
+    if (!countries) return places;
+    const inCountries = places.filter((place) => countries.includes(place.address.countryCode));
+    return limit ? inCountries.slice(0, limit) : inCountries;
+  };
+
+  return {
+    name: 'photon',
+    configured: true,
+
+    search,
+    autocomplete: search,
+
+    async reverse({ lat, lon }) {
+      const [place] = await get('reverse', { lat, lon, limit: 1 });
+      return place ?? null;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from 'node:fs';
+
+const DEFAULT_FIXTURES_PATH = new URL('./fixtures/default.json', import.meta.url);
+
+/**
+ * Load fixtures from a JSON file. Each fixture is { match?, output }, where
+ * match is a case-insensitive regular expression tested against the latest
+ * user message and output is the canned model output (a string, or an object
+ * that is serialized to JSON).
+ */
+export function loadFixtures(path = DEFAULT_FIXTURES_PATH) {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+// Scripted provider that replays canned outputs without any network access.
+// The first fixture whose `match` fits the latest user message wins; messages
+// matching nothing get the fixtures without `match` in turn.
+export function createFixtureProvider({ fixtures = loadFixtures(), model = 'fixture', chunkSize = 24 } = {}) {
+  const fallbacks = fixtures.filter((fixture) => !fixture.match);
+  let fallbackIndex = 0;
+
+  const pickOutput = (input) => {
+    const lastUserMessage = [...input].reverse().find((item) => item.role === 'user')?.content || '';
+    let fixture = fixtures.find((f) => f.match && new RegExp(f.match, 'i').test(lastUserMessage));
+
+    if (!fixture) {
+      if (fallbacks.length === 0) {
+        throw new Error(`No fixture matches message: ${lastUserMessage}`);
+      }
+      fixture = fallbacks[fallbackIndex % fallbacks.length];
+      fallbackIndex += 1;
+    }
+
+    return typeof fixture.output === 'string' ? fixture.output : JSON.stringify(fixture.output);
+  };
+
+  return {
+    name: 'fixture',
+    model,
+
+    async complete({ input }) {
+      return pickOutput(input);
+    },
+
+    async *stream({ input, signal }) {
+      const output = pickOutput(input);
+      for (let i = 0; i < output.length; i += chunkSize) {
+        if (signal?.aborted) return;
+        yield output.slice(i, i + chunkSize);
+      }
+    },
+  };
+}
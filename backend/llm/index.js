@@ -0,0 +1,48 @@
+import { createOpenAIProvider } from './openai.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+import { createFixtureProvider, loadFixtures } from './fixture.js';
+
+// An LLM provider exposes:
+//   name, model
+//   complete({ instructions, input, responseFormat, signal }) -> Promise<string> with the full output text
+//   stream({ instructions, input, responseFormat, signal })   -> AsyncIterable<string> of output text deltas
+// `input` is the conversation as [{ role, content }] and `responseFormat` the
+// JSON schema format the output should follow.
+
+/**
+ * Create the provider selected by LLM_PROVIDER (openai, openai-compatible or fixture).
+ */
+export function createLlmProvider(env = process.env) {
+  const provider = env.LLM_PROVIDER || 'openai';
+  const maxOutputTokens = env.LLM_MAX_OUTPUT_TOKENS ? Number(env.LLM_MAX_OUTPUT_TOKENS) : undefined;
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        model: env.LLM_MODEL || 'gpt-5-mini',
+        maxOutputTokens,
+        reasoningEffort: env.LLM_REASONING_EFFORT ?? 'low',
+      });
+
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseURL: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model: env.LLM_MODEL,
+        maxOutputTokens,
+        structuredOutput: env.LLM_STRUCTURED_OUTPUT !== 'false',
+      });
+
+    case 'fixture':
+      return createFixtureProvider({
+        fixtures: env.LLM_FIXTURES_PATH ? loadFixtures(env.LLM_FIXTURES_PATH) : undefined,
+        model: env.LLM_MODEL || 'fixture',
+      });
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
+
+export { createOpenAIProvider, createOpenAICompatibleProvider, createFixtureProvider, loadFixtures };
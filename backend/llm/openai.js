@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+
+// OpenAI Responses API provider
+export function createOpenAIProvider({ apiKey, model, maxOutputTokens = 4096, reasoningEffort = 'low' }) {
+  const client = new OpenAI({ apiKey });
+
+  const buildParams = ({ instructions, input, responseFormat }) => ({
+    model,
+    instructions,
+    input,
+    max_output_tokens: maxOutputTokens,
+    ...(reasoningEffort ? { reasoning: { effort: reasoningEffort } } : {}),
+    ...(responseFormat ? { text: { format: responseFormat } } : {}),
+  });
+
+  return {
+    name: 'openai',
+    model,
+
+    async complete({ signal, ...request }) {
+      const response = await client.responses.create(buildParams(request), { signal });
+      return response.output_text;
+    },
+
+    async *stream({ signal, ...request }) {
+      const stream = await client.responses.create({ ...buildParams(request), stream: true }, { signal });
+
+      for await (const event of stream) {
+        if (event.type === 'response.output_text.delta') {
+          yield event.delta;
+        } else if (event.type === 'response.failed' || event.type === 'error') {
+          throw new Error(event.response?.error?.message || event.message || 'Response stream failed');
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+
+// Chat Completions provider for OpenAI-compatible servers (vLLM, llama.cpp,
+// Ollama, LM Studio, ...). Servers without JSON schema support can disable
+// structuredOutput; the model then only has the prompt asking for JSON, and the
+// chat route also accepts that JSON inside a ```json code fence.
+export function createOpenAICompatibleProvider({ baseURL, apiKey, model, maxOutputTokens = 4096, structuredOutput = true }) {
+  if (!baseURL) {
+    throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+  }
+  if (!model) {
+    throw new Error('LLM_MODEL is required for the openai-compatible provider');
+  }
+
+  // Local servers usually ignore the key, but the SDK requires one
+  const client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' });
+
+  const buildParams = ({ instructions, input, responseFormat }) => ({
+    model,
+    messages: [
+      { role: 'system', content: instructions },
+      ...input.map((item) => ({ role: item.role, content: item.content })),
+    ],
+    max_tokens: maxOutputTokens,
+    ...(structuredOutput && responseFormat
+      ? {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: responseFormat.strict },
+        },
+      }
+      : {}),
+  });
+
+  return {
+    name: 'openai-compatible',
+    model,
+
+    async complete({ signal, ...request }) {
+      const completion = await client.chat.completions.create(buildParams(request), { signal });
+      return completion.choices[0]?.message?.content || '';
+    },
+
+    async *stream({ signal, ...request }) {
+      const stream = await client.chat.completions.create({ ...buildParams(request), stream: true }, { signal });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+-- Conversations and messages, as used by the supabase and postgres stores.
+-- Apply with the Supabase SQL editor or `psql "$DATABASE_URL" -f <file>`.
+
+create extension if not exists pgcrypto;
+
+create table if not exists conversations (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  map_action jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_conversation_id_created_at_idx
+  on messages (conversation_id, created_at);
+
+create index if not exists conversations_updated_at_idx
+  on conversations (updated_at desc);
+
+-- Keep conversations.updated_at at the time of the latest message so the
+-- history can be sorted by recent activity
+create or replace function touch_conversation() returns trigger as $$
+begin
+  update conversations set updated_at = new.created_at where id = new.conversation_id;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists messages_touch_conversation on messages;
+create trigger messages_touch_conversation
+  after insert on messages
+  for each row execute function touch_conversation();
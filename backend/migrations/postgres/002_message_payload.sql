@@ -0,0 +1,5 @@
+-- Structured assistant payload, so reopened conversations keep their
+-- itineraries and follow-up suggestions. Null for user messages.
+
+alter table messages add column if not exists places jsonb;
+alter table messages add column if not exists follow_up_suggestions jsonb;
@@ -0,0 +1,8 @@
+-- Owner of each conversation: "user:<auth user id>" for signed-in users or
+-- "device:<device id>" for anonymous sessions. Conversations created before
+-- this migration have no owner and are not listed for anyone.
+
+alter table conversations add column if not exists owner_id text;
+
+create index if not exists conversations_owner_id_updated_at_idx
+  on conversations (owner_id, updated_at desc);
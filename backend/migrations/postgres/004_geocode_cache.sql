@@ -0,0 +1,10 @@
+-- Geocoder responses shared by every client (see geocode/cache.js), keyed by
+-- the normalized request. Expired rows are ignored and cleaned up on write.
+
+create table if not exists geocode_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null
+);
+
+create index if not exists geocode_cache_expires_at_idx on geocode_cache (expires_at);
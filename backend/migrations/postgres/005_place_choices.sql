@@ -0,0 +1,5 @@
+-- Places the user picked for names the assistant gave, keyed by the
+-- normalized name, so their picks survive a reload and follow them to
+-- other devices. Null until the first pick.
+
+alter table conversations add column if not exists place_choices jsonb;
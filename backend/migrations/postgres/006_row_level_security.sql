@@ -0,0 +1,10 @@
+-- The frontend gets the Supabase URL and anon key (GET /api/auth/config), so
+-- these tables must not be reachable with them through Supabase's REST API.
+-- With row level security on and no policies, the anon and authenticated
+-- roles can neither read nor write any row. The backend's supabase store
+-- uses the service role key, and the postgres store connects as the table
+-- owner; neither is subject to these rules.
+
+alter table conversations enable row level security;
+alter table messages enable row level security;
+alter table geocode_cache enable row level security;
@@ -0,0 +1,30 @@
+-- Same schema as migrations/postgres/001_conversations.sql. Applied
+-- automatically by the sqlite store; map_action holds JSON text.
+
+create table if not exists conversations (
+  id text primary key,
+  title text not null,
+  created_at text not null,
+  updated_at text not null
+);
+
+create table if not exists messages (
+  id text primary key,
+  conversation_id text not null references conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  map_action text,
+  created_at text not null
+);
+
+create index if not exists messages_conversation_id_created_at_idx
+  on messages (conversation_id, created_at);
+
+create index if not exists conversations_updated_at_idx
+  on conversations (updated_at desc);
+
+create trigger if not exists messages_touch_conversation
+  after insert on messages
+begin
+  update conversations set updated_at = new.created_at where id = new.conversation_id;
+end;
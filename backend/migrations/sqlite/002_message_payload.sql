@@ -0,0 +1,4 @@
+-- Same as migrations/postgres/002_message_payload.sql; both hold JSON text.
+
+alter table messages add column places text;
+alter table messages add column follow_up_suggestions text;
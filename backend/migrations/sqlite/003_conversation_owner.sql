@@ -0,0 +1,6 @@
+-- Same as migrations/postgres/003_conversation_owner.sql.
+
+alter table conversations add column owner_id text;
+
+create index if not exists conversations_owner_id_updated_at_idx
+  on conversations (owner_id, updated_at desc);
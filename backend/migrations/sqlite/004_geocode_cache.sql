@@ -0,0 +1,10 @@
+-- Same as migrations/postgres/004_geocode_cache.sql, with the value stored as
+-- JSON text and expires_at in milliseconds since the epoch.
+
+create table if not exists geocode_cache (
+  key text primary key,
+  value text not null,
+  expires_at integer not null
+);
+
+create index if not exists geocode_cache_expires_at_idx on geocode_cache (expires_at);
@@ -0,0 +1,3 @@
+-- Same as migrations/postgres/005_place_choices.sql; holds JSON text.
+
+alter table conversations add column place_choices text;
@@ -0,0 +1,133 @@
+// Token-bucket rate limiting for routes that call paid or quota-limited
+// upstreams. Each route has a budget per client IP and per owner (signed-in
+// user or anonymous device, see auth/middleware.js); a request needs a token
+// from both buckets.
+
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * A bucket per key holding up to `capacity` tokens, refilled evenly so that a
+ * full bucket is restored after `windowSeconds`. At most `maxKeys` keys are
+ * tracked; past that the least recently used ones start over with a full bucket.
+ */
+export function createTokenBucket({ capacity, windowSeconds, now = Date.now, maxKeys = MAX_TRACKED_KEYS }) {
+  const refillPerMs = capacity / (windowSeconds * 1000);
+  // In order of last use, oldest first
+  const buckets = new Map();
+  let prunedAt = -Infinity;
+
+  const current = (key) => {
+    const time = now();
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: time };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+    return bucket;
+  };
+
+  // Drop buckets that have refilled completely, they are the same as new ones.
+  // That scans every key, so it runs at most once per window; in between, or
+  // when too many keys are still in use, the oldest ones go.
+  const prune = () => {
+    if (buckets.size < maxKeys) return;
+    const time = now();
+    if (time - prunedAt >= windowSeconds * 1000) {
+      prunedAt = time;
+      for (const key of buckets.keys()) {
+        if (current(key).tokens >= capacity) buckets.delete(key);
+      }
+    }
+    for (const key of buckets.keys()) {
+      if (buckets.size < maxKeys) break;
+      buckets.delete(key);
+    }
+  };
+
+  return {
+    capacity,
+    windowSeconds,
+
+    // Seconds until a token is available for `key`, 0 when one is available now
+    retryAfter(key) {
+      const { tokens } = current(key);
+      return tokens >= 1 ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000);
+    },
+
+    take(key) {
+      prune();
+      const bucket = current(key);
+      bucket.tokens -= 1;
+      buckets.delete(key);
+      buckets.set(key, bucket);
+    },
+  };
+}
+
+// "30/600" -> 30 requests per 600 seconds; "off" disables the limit
+export function parseLimit(value, fallback) {
+  const spec = (value ?? fallback).trim();
+  if (spec === 'off') return null;
+
+  const match = spec.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) {
+    throw new Error(`Invalid rate limit "${spec}", expected <requests>/<seconds> or off`);
+  }
+  return { capacity: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+const bucketFor = (value, fallback) => {
+  const limit = parseLimit(value, fallback);
+  return limit ? createTokenBucket(limit) : null;
+};
+
+/**
+ * Limits for each rate-limited route, from RATE_LIMIT_<ROUTE>_<IP|USER>.
+ */
+export function createRateLimits(env = process.env) {
+  return {
+    chat: {
+      perIp: bucketFor(env.RATE_LIMIT_CHAT_IP, '60/3600'),
+      perUser: bucketFor(env.RATE_LIMIT_CHAT_USER, '30/3600'),
+    },
+    directions: {
+      perIp: bucketFor(env.RATE_LIMIT_DIRECTIONS_IP, '300/3600'),
+      perUser: bucketFor(env.RATE_LIMIT_DIRECTIONS_USER, '150/3600'),
+    },
+    geocode: {
+      perIp: bucketFor(env.RATE_LIMIT_GEOCODE_IP, '600/3600'),
+      perUser: bucketFor(env.RATE_LIMIT_GEOCODE_USER, '300/3600'),
+    },
+    // Password guesses, per IP and per account tried (see loginAccount)
+    login: {
+      perIp: bucketFor(env.RATE_LIMIT_LOGIN_IP, '20/900'),
+      perUser: bucketFor(env.RATE_LIMIT_LOGIN_USER, '10/900'),
+    },
+  };
+}
+
+// Sign-in attempts count against the account they try, from any IP or device
+export const loginAccount = (req) =>
+  typeof req.body?.email === 'string' && req.body.email.trim() ? `login:${req.body.email.trim().toLowerCase()}` : null;
+
+/**
+ * Express middleware enforcing `limits` ({ perIp, perUser }, either may be
+ * null). The per-user bucket is keyed by `userKey`, the owner by default.
+ * Responds 429 with Retry-After when a bucket is empty.
+ */
+export function rateLimit(limits, label, { userKey = (req) => req.owner?.id } = {}) {
+  return (req, res, next) => {
+    const user = userKey(req);
+    const checks = [
+      limits?.perIp && [limits.perIp, `ip:${req.ip}`],
+      limits?.perUser && user && [limits.perUser, user],
+    ].filter(Boolean);
+
+    const retryAfter = Math.max(0, ...checks.map(([bucket, key]) => bucket.retryAfter(key)));
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Too many ${label} requests`, retryAfter });
+    }
+
+    for (const [bucket, key] of checks) bucket.take(key);
+    next();
+  };
+}
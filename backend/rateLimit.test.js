@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTokenBucket, createRateLimits, parseLimit } from './rateLimit.js';
+import { createFakeRouting, createFakeLlm, startTestApp, TEST_USER } from './test/harness.js';
+
+const reply = { message: 'Hello!', mapAction: null, places: null, followUpSuggestions: [] };
+const route = { distance: 3400, duration: 2520, geometry: [] };
+const directionsQuery = '/api/directions?profile=foot-walking&start=2.2945,48.8584&end=2.3376,48.8606';
+
+describe('createTokenBucket', () => {
+  it('should allow a burst up to capacity and then refill over the window', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ capacity: 2, windowSeconds: 60, now: () => time });
+
+    bucket.take('a');
+    bucket.take('a');
+    expect(bucket.retryAfter('a')).toBe(30);
+    expect(bucket.retryAfter('b')).toBe(0);
+
+    time = 30_000;
+    expect(bucket.retryAfter('a')).toBe(0);
+  });
+
+  it('should drop refilled buckets and then the least recently used ones once too many keys are tracked', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ capacity: 1, windowSeconds: 60, now: () => time, maxKeys: 2 });
+
+    bucket.take('a');
+    time = 30_000;
+    bucket.take('b');
+    time = 60_000;
+    bucket.take('c');
+    // 'a' had refilled, so 'b' is still limited
+    expect(bucket.retryAfter('b')).toBe(30);
+
+    time = 61_000;
+    bucket.take('d');
+    // Within the same window nothing is scanned, the oldest key goes
+    expect(bucket.retryAfter('b')).toBe(0);
+    expect(bucket.retryAfter('c')).toBe(59);
+    expect(bucket.retryAfter('d')).toBe(60);
+  });
+});
+
+describe('parseLimit', () => {
+  it('should parse requests per seconds and fall back to the default', () => {
+    expect(parseLimit('10/60', '1/1')).toEqual({ capacity: 10, windowSeconds: 60 });
+    expect(parseLimit(undefined, '5 / 30')).toEqual({ capacity: 5, windowSeconds: 30 });
+    expect(parseLimit('off', '1/1')).toBeNull();
+  });
+
+  it('should reject malformed limits', () => {
+    expect(() => parseLimit('10 per minute', '1/1')).toThrow('Invalid rate limit "10 per minute"');
+    expect(() => parseLimit('0/60', '1/1')).toThrow();
+  });
+});
+
+describe('rate limited routes', () => {
+  let app;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should return 429 with Retry-After once the per-user chat budget is spent', async () => {
+    const rateLimits = createRateLimits({ RATE_LIMIT_CHAT_USER: '1/60' });
+    app = await startTestApp({ llm: createFakeLlm([reply, reply]), rateLimits });
+
+    expect((await app.request('/api/chat', { method: 'POST', body: { message: 'Hi' } })).status).toBe(200);
+    const res = await app.request('/api/chat', { method: 'POST', body: { message: 'Hi again' } });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('60');
+    expect(await res.json()).toEqual({ error: 'Too many chat requests', retryAfter: 60 });
+    expect(app.llm.calls).toHaveLength(1);
+
+    // Another device has its own budget
+    const other = await app.request('/api/chat', {
+      method: 'POST',
+      body: { message: 'Hi' },
+      headers: { 'X-Device-Id': 'other-device-0123456789' },
+    });
+    expect(other.status).toBe(200);
+  });
+
+  it('should limit by IP across devices', async () => {
+    const rateLimits = createRateLimits({ RATE_LIMIT_DIRECTIONS_IP: '1/10', RATE_LIMIT_DIRECTIONS_USER: 'off' });
+    app = await startTestApp({ routing: createFakeRouting([route, route]), rateLimits });
+
+    expect((await app.request(directionsQuery)).status).toBe(200);
+    const res = await app.request(directionsQuery, { headers: { 'X-Device-Id': 'other-device-0123456789' } });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('10');
+    expect(app.routing.calls).toHaveLength(1);
+  });
+
+  it('should return 429 once the sign-in budget for an email address is spent', async () => {
+    const rateLimits = createRateLimits({ RATE_LIMIT_LOGIN_USER: '2/900' });
+    app = await startTestApp({ rateLimits });
+    const wrong = { ...TEST_USER, password: 'wrong-password' };
+
+    expect((await app.request('/api/auth/login', { method: 'POST', body: wrong })).status).toBe(401);
+    expect((await app.request('/api/auth/login', { method: 'POST', body: wrong })).status).toBe(401);
+    const res = await app.request('/api/auth/login', {
+      method: 'POST',
+      body: { ...TEST_USER, email: TEST_USER.email.toUpperCase() },
+      headers: { 'X-Device-Id': 'other-device-0123456789' },
+    });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('450');
+    expect(await res.json()).toEqual({ error: 'Too many sign-in requests', retryAfter: 450 });
+
+    // Other accounts can still sign in
+    const other = await app.request('/api/auth/login', { method: 'POST', body: { ...wrong, email: 'someone@example.com' } });
+    expect(other.status).toBe(401);
+  });
+
+  it('should limit sign-in attempts by IP across email addresses', async () => {
+    const rateLimits = createRateLimits({ RATE_LIMIT_LOGIN_IP: '1/60' });
+    app = await startTestApp({ rateLimits });
+
+    expect((await app.request('/api/auth/login', { method: 'POST', body: TEST_USER })).status).toBe(200);
+    const res = await app.request('/api/auth/login', { method: 'POST', body: { ...TEST_USER, email: 'someone@example.com' } });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('60');
+  });
+
+  it('should keep chat and directions budgets separate', async () => {
+    const rateLimits = createRateLimits({ RATE_LIMIT_CHAT_USER: '1/60' });
+    app = await startTestApp({ llm: createFakeLlm([reply]), routing: createFakeRouting([route]), rateLimits });
+
+    await app.request('/api/chat', { method: 'POST', body: { message: 'Hi' } });
+
+    expect((await app.request(directionsQuery)).status).toBe(200);
+  });
+});
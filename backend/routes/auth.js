@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { requireIdentity } from '../auth/middleware.js';
+
+export function createAuthRouter({ authenticator }) {
+  const router = Router();
+
+  // Which sign-in flow the frontend should offer
+  router.get('/auth/config', (req, res) => {
+    res.json({ provider: authenticator.name, ...authenticator.publicConfig });
+  });
+
+  router.post('/auth/login', async (req, res) => {
+    try {
+      if (!authenticator.login) {
+        return res.status(404).json({ error: 'Password sign-in is not enabled' });
+      }
+
+      const { email, password } = req.body ?? {};
+      if (!email || !password) {
+        return res.status(400).json({ error: 'Email and password are required' });
+      }
+
+      const session = await authenticator.login(email, password);
+      if (!session) {
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+
+      res.json(session);
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(500).json({ error: 'Failed to sign in' });
+    }
+  });
+
+  router.get('/auth/me', requireIdentity(authenticator), (req, res) => {
+    res.json({ user: req.owner.user });
+  });
+
+  return router;
+}
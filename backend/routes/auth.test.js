@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAnonymousAuthenticator } from '../auth/index.js';
+import { TEST_USER, startTestApp } from '../test/harness.js';
+
+describe('/api/auth', () => {
+  let app;
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should report the provider and its public settings', async () => {
+    app = await startTestApp({
+      authenticator: { name: 'supabase', publicConfig: { supabaseUrl: 'https://x.supabase.co', supabaseAnonKey: 'anon' } },
+    });
+
+    const res = await app.request('/api/auth/config');
+
+    expect(await res.json()).toEqual({ provider: 'supabase', supabaseUrl: 'https://x.supabase.co', supabaseAnonKey: 'anon' });
+  });
+
+  it('should sign in with a valid password and return the user from /me', async () => {
+    app = await startTestApp();
+
+    const login = await app.request('/api/auth/login', { method: 'POST', body: { ...TEST_USER, email: 'Traveller@Example.com' } });
+    const { token, user } = await login.json();
+    const me = await app.request('/api/auth/me', { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(login.status).toBe(200);
+    expect(user).toEqual({ id: TEST_USER.email, email: TEST_USER.email });
+    expect(await me.json()).toEqual({ user });
+  });
+
+  it('should reject a wrong password', async () => {
+    app = await startTestApp();
+
+    const res = await app.request('/api/auth/login', { method: 'POST', body: { email: TEST_USER.email, password: 'nope' } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid email or password' });
+  });
+
+  it('should require an email and a password', async () => {
+    app = await startTestApp();
+
+    const res = await app.request('/api/auth/login', { method: 'POST', body: { email: TEST_USER.email } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should return 404 when password sign-in is not enabled', async () => {
+    app = await startTestApp({ authenticator: createAnonymousAuthenticator() });
+
+    const res = await app.request('/api/auth/login', { method: 'POST', body: TEST_USER });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Password sign-in is not enabled' });
+  });
+
+  it('should return a null user for anonymous sessions', async () => {
+    app = await startTestApp();
+
+    const res = await app.request('/api/auth/me');
+
+    expect(await res.json()).toEqual({ user: null });
+  });
+});
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { CHAT_RESPONSE_FORMAT, createMessageStreamReader, parseChatResponse } from '../chatResponse.js';
+import { buildSystemPrompt } from '../prompts.js';
+
+function buildChatRequest({ message, history = [], planningMode = false, planningPreferences, importedLayers }) {
+  const inputItems = [
+    ...history.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+    { role: 'user', content: message },
+  ];
+
+  return {
+    instructions: buildSystemPrompt(planningMode, planningPreferences, importedLayers),
+    input: inputItems,
+    responseFormat: CHAT_RESPONSE_FORMAT,
+  };
+}
+
+export function createChatRouter({ llm, store }) {
+  const router = Router();
+
+  // Whether the request may continue the conversation it names
+  async function canContinue(req) {
+    const { conversationId } = req.body;
+    if (!conversationId) return true;
+    const conversation = await store.getConversation(conversationId);
+    return conversation?.owner_id === req.owner.id;
+  }
+
+  // Creates the conversation if needed and stores the user's message
+  async function startChatTurn({ message, conversationId }, owner) {
+    let convId = conversationId;
+
+    if (!convId) {
+      const conversation = await store.createConversation({ title: message.substring(0, 50), ownerId: owner.id });
+      convId = conversation.id;
+    }
+
+    await store.appendMessage(convId, { role: 'user', content: message });
+
+    return convId;
+  }
+
+  // Validates the finished assistant output, stores it and returns the response payload
+  async function finishChatTurn(convId, assistantMessage) {
+    const parsed = parseChatResponse(assistantMessage);
+
+    await store.appendMessage(convId, {
+      role: 'assistant',
+      content: parsed.message,
+      mapAction: parsed.mapAction,
+      places: parsed.places,
+      followUpSuggestions: parsed.followUpSuggestions,
+    });
+
+    return { ...parsed, conversationId: convId };
+  }
+
+  router.post('/chat', async (req, res) => {
+    try {
+      if (!req.body?.message) {
+        return res.status(400).json({ error: 'Message is required' });
+      }
+
+      if (!(await canContinue(req))) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const convId = await startChatTurn(req.body, req.owner);
+
+      const assistantMessage = await llm.complete(buildChatRequest(req.body));
+
+      res.json(await finishChatTurn(convId, assistantMessage));
+    } catch (error) {
+      console.error('Chat error:', error);
+      res.status(500).json({ error: 'Failed to process chat message' });
+    }
+  });
+
+  // Streaming variant of /api/chat. Responds with newline-delimited JSON events:
+  // { type: 'delta', text } for every chunk of message text, then a single { type: 'done', ...payload }
+  // with the same payload /api/chat returns, or { type: 'error', error } on failure.
+  router.post('/chat/stream', async (req, res) => {
+    if (!req.body?.message) {
+      return res.status(400).json({ error: 'Message is required' });
+    }
+
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abortController.abort();
+    });
+
+    const writeEvent = (event) => res.write(`${JSON.stringify(event)}\n`);
+
+    try {
+      if (!(await canContinue(req))) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const convId = await startChatTurn(req.body, req.owner);
+
+      res.status(200);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      const messageReader = createMessageStreamReader();
+      let assistantMessage = '';
+      for await (const delta of llm.stream({ ...buildChatRequest(req.body), signal: abortController.signal })) {
+        assistantMessage += delta;
+        const text = messageReader.push(delta);
+        if (text) writeEvent({ type: 'delta', text });
+      }
+
+      writeEvent({ type: 'done', ...(await finishChatTurn(convId, assistantMessage)) });
+      res.end();
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error('Chat stream error:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to process chat message' });
+      }
+      writeEvent({ type: 'error', error: 'Failed to process chat message' });
+      res.end();
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,469 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TEST_DEVICE_ID, readNdjson, startTestApp } from '../test/harness.js';
+import { createFakeSupabase } from '../test/fakeSupabase.js';
+import { createSupabaseStore } from '../store/supabase.js';
+
+const owner = `device:${TEST_DEVICE_ID}`;
+
+const optionDays = {
+  message: 'Here is your **3-day Paris** plan with two options for day 2.',
+  mapAction: null,
+  places: {
+    days: [
+      {
+        key: 'Day 1',
+        periods: {
+          Morning: [{ options: ['Louvre Museum, Paris, France'], optional: false, travelTime: null }],
+          Afternoon: [
+            { options: ['Musée d\'Orsay, Paris, France'], optional: false, travelTime: '15 min walk' },
+            { options: ['Tuileries Garden, Paris, France'], optional: true, travelTime: '5 min walk' },
+          ],
+          Evening: null,
+          Accommodation: [{ options: ['Hotel Lutetia, Paris, France'], optional: false, travelTime: '10 min by metro' }],
+        },
+      },
+      {
+        key: 'Day 2 (Option A)',
+        periods: {
+          Morning: [{ options: ['Palace of Versailles, Versailles, France'], optional: false, travelTime: '45 min by train' }],
+          Afternoon: null,
+          Evening: null,
+          Accommodation: null,
+        },
+      },
+      {
+        key: 'Day 2 (Option B)',
+        periods: {
+          Morning: null,
+          Afternoon: [{ options: ['Bistrot Paul Bert, Paris, France', 'Chez Janou, Paris, France'], optional: false, travelTime: null }],
+          Evening: [{ options: ['Louvre Museum, Paris, France'], optional: false, travelTime: null }],
+          Accommodation: null,
+        },
+      },
+    ],
+    suggested: null,
+  },
+  followUpSuggestions: ['Add a day trip option', 'Suggest budget-friendly alternatives'],
+};
+
+const directionsAnswer = {
+  message: 'Here is the route from the **Eiffel Tower** to the **Louvre Museum**.',
+  mapAction: { action: 'directions', origin: 'Eiffel Tower, Paris, France', destination: 'Louvre Museum, Paris, France' },
+  places: null,
+  followUpSuggestions: [],
+};
+
+describe('/api/chat', () => {
+  let app;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  const chat = (body) => app.request('/api/chat', { method: 'POST', body });
+
+  const storedMessages = async () => {
+    const [conversation] = await app.store.listConversations(owner);
+    return conversation ? app.store.getMessages(conversation.id) : [];
+  };
+
+  describe('conversations and messages', () => {
+    it('should create a conversation titled after the first message and store both turns', async () => {
+      app.llm.queue(directionsAnswer);
+      const message = 'How do I get from the Eiffel Tower to the Louvre? I would like to walk if possible.';
+
+      const res = await chat({ message });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      const conversations = await app.store.listConversations(owner);
+      expect(conversations).toHaveLength(1);
+      expect(conversations[0].title).toBe(message.substring(0, 50));
+      expect(body.conversationId).toBe(conversations[0].id);
+
+      const messages = await app.store.getMessages(body.conversationId);
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(messages[0]).toMatchObject({ conversation_id: body.conversationId, content: message });
+      expect(messages[1]).toMatchObject({
+        conversation_id: body.conversationId,
+        content: directionsAnswer.message,
+        map_action: directionsAnswer.mapAction,
+      });
+    });
+
+    it('should append to an existing conversation without creating a new one', async () => {
+      app.llm.queue(directionsAnswer, directionsAnswer);
+
+      const first = await (await chat({ message: 'Route to the Louvre' })).json();
+      const second = await (await chat({ message: 'And back?', conversationId: first.conversationId })).json();
+
+      expect(second.conversationId).toBe(first.conversationId);
+      expect(await app.store.listConversations(owner)).toHaveLength(1);
+      expect(await app.store.getMessages(first.conversationId)).toHaveLength(4);
+    });
+
+    it('should return the stored itinerary when the conversation is reloaded', async () => {
+      app.llm.queue(optionDays);
+
+      const body = await (await chat({ message: 'Plan 3 days in Paris' })).json();
+      const messages = await (await app.request(`/api/conversations/${body.conversationId}/messages`)).json();
+
+      expect(messages[1]).toMatchObject({
+        content: body.message,
+        followUpSuggestions: body.followUpSuggestions,
+        placesByDay: body.placesByDay,
+        placesByTimePeriod: body.placesByTimePeriod,
+        places: body.places,
+      });
+    });
+
+    it('should not continue another owner\'s conversation', async () => {
+      app.llm.queue(directionsAnswer);
+      const { conversationId } = await (await chat({ message: 'Route to the Louvre' })).json();
+
+      const res = await app.request('/api/chat', {
+        method: 'POST',
+        headers: { 'X-Device-Id': 'other-device-9876543210' },
+        body: { message: 'And back?', conversationId },
+      });
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Conversation not found' });
+      expect(await app.store.getMessages(conversationId)).toHaveLength(2);
+      expect(app.llm.calls).toHaveLength(1);
+    });
+
+    it('should answer 404 for a conversation id that is not a uuid in the supabase store', async () => {
+      await app.close();
+      app = await startTestApp({ store: createSupabaseStore(createFakeSupabase()) });
+
+      const res = await chat({ message: 'And back?', conversationId: 'not-a-uuid' });
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Conversation not found' });
+      expect(app.llm.calls).toHaveLength(0);
+    });
+
+    it('should pass the history and the new message to the model', async () => {
+      app.llm.queue(directionsAnswer);
+      const history = [
+        { role: 'user', content: 'I am in Paris' },
+        { role: 'assistant', content: 'Great, what would you like to see?' },
+      ];
+
+      await chat({ message: 'Route to the Louvre', history });
+
+      expect(app.llm.calls[0].input).toEqual([...history, { role: 'user', content: 'Route to the Louvre' }]);
+      expect(app.llm.calls[0].responseFormat.type).toBe('json_schema');
+    });
+  });
+
+  describe('planning mode', () => {
+    it('should inject the trip preferences into the instructions', async () => {
+      app.llm.queue(optionDays);
+
+      await chat({
+        message: 'Plan my trip',
+        planningMode: true,
+        planningPreferences: {
+          duration: '3 days',
+          interests: ['art', 'food'],
+          travelStyle: 'relaxed',
+          attractions: 'Louvre Museum',
+        },
+      });
+
+      const { instructions } = app.llm.calls[0];
+      expect(instructions).toContain('ALREADY PROVIDED');
+      expect(instructions).toContain('Trip duration: 3 days');
+      expect(instructions).toContain('Interests: art, food');
+      expect(instructions).toContain('Travel style: relaxed');
+      expect(instructions).toContain('Must-see places: Louvre Museum');
+    });
+
+    it('should not add preferences outside planning mode', async () => {
+      app.llm.queue(directionsAnswer);
+
+      await chat({ message: 'Route to the Louvre', planningPreferences: { duration: '3 days' } });
+
+      expect(app.llm.calls[0].instructions).not.toContain('ALREADY PROVIDED');
+    });
+  });
+
+  describe('imported layers', () => {
+    it('should describe the imported places and tracks in the instructions', async () => {
+      app.llm.queue(optionDays);
+
+      await chat({
+        message: 'Plan around these saved points',
+        importedLayers: [
+          {
+            name: 'Paris favorites',
+            points: [
+              { name: 'Shakespeare and Company', lat: 48.852547, lng: 2.347130, period: 'Morning', description: 'Bookshop' },
+              { name: 'No coordinates' },
+            ],
+            tracks: [{ name: 'Seine walk', distance: 4230 }],
+          },
+        ],
+      });
+
+      const { instructions } = app.llm.calls[0];
+      expect(instructions).toContain('imported these saved places and tracks');
+      expect(instructions).toContain('Layer "Paris favorites":');
+      expect(instructions).toContain('- Shakespeare and Company (48.85255, 2.34713) [Morning]: Bookshop');
+      expect(instructions).toContain('- Track Seine walk, 4.2 km');
+      expect(instructions).not.toContain('No coordinates');
+    });
+
+    it('should cap the number of imported features', async () => {
+      app.llm.queue(directionsAnswer);
+      const points = Array.from({ length: 150 }, (_, i) => ({ name: `Point ${i}`, lat: 48.85, lng: 2.35 }));
+
+      await chat({ message: 'What is near my points?', importedLayers: [{ name: 'Big file', points }] });
+
+      const { instructions } = app.llm.calls[0];
+      expect(instructions).toContain('- Point 99 ');
+      expect(instructions).not.toContain('- Point 100 ');
+    });
+
+    it('should leave the instructions alone without imported layers', async () => {
+      app.llm.queue(directionsAnswer);
+
+      await chat({ message: 'Route to the Louvre', importedLayers: 'not a list' });
+
+      expect(app.llm.calls[0].instructions).not.toContain('imported these saved places');
+    });
+  });
+
+  describe('response parsing', () => {
+    it('should index an itinerary with Option A/B days', async () => {
+      app.llm.queue(optionDays);
+
+      const body = await (await chat({ message: 'Plan 3 days in Paris' })).json();
+
+      expect(Object.keys(body.placesByDay)).toEqual(['Day 1', 'Day 2 (Option A)', 'Day 2 (Option B)']);
+      expect(body.placesByDay['Day 2 (Option B)']).toEqual([
+        'Bistrot Paul Bert, Paris, France',
+        'Chez Janou, Paris, France',
+        'Louvre Museum, Paris, France',
+      ]);
+      expect(body.placesByTimePeriod['Day 1']).toEqual({
+        Morning: ['Louvre Museum, Paris, France'],
+        Afternoon: ['Musée d\'Orsay, Paris, France', 'Optional: Tuileries Garden, Paris, France'],
+        Accommodation: ['Hotel Lutetia, Paris, France'],
+      });
+      expect(body.placesByTimePeriod['Day 2 (Option B)'].Afternoon).toEqual([
+        'Bistrot Paul Bert, Paris, France | Chez Janou, Paris, France',
+      ]);
+      expect(body.followUpSuggestions).toEqual(optionDays.followUpSuggestions);
+      expect(body.mapAction).toBeNull();
+    });
+
+    it('should return the directions map action', async () => {
+      app.llm.queue(directionsAnswer);
+
+      const body = await (await chat({ message: 'Route to the Louvre' })).json();
+
+      expect(body.mapAction).toEqual(directionsAnswer.mapAction);
+      expect(body.placesByDay).toBeNull();
+    });
+
+    it('should extract a directions action from a legacy tagged response', async () => {
+      app.llm.queue([
+        'Head north along the Seine to reach the **Louvre Museum**.',
+        '{"action": "directions", "origin": "Eiffel Tower, Paris, France", "destination": "Louvre Museum, Paris, France"}',
+        '[FOLLOWUP]',
+        '- What is near the Louvre?',
+        '[/FOLLOWUP]',
+      ].join('\n'));
+
+      const body = await (await chat({ message: 'Route to the Louvre' })).json();
+
+      expect(body.mapAction).toEqual(directionsAnswer.mapAction);
+      expect(body.message).toBe('Head north along the Seine to reach the **Louvre Museum**.');
+      expect(body.followUpSuggestions).toEqual(['What is near the Louvre?']);
+    });
+
+    it('should parse a JSON answer the model wrapped in a code fence', async () => {
+      app.llm.queue(`\`\`\`json\n${JSON.stringify(directionsAnswer, null, 2)}\n\`\`\``);
+
+      const res = await chat({ message: 'Route to the Louvre' });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.message).toBe(directionsAnswer.message);
+      expect(body.mapAction).toEqual(directionsAnswer.mapAction);
+      expect(body.followUpSuggestions).toEqual(directionsAnswer.followUpSuggestions);
+    });
+
+    it('should keep follow-ups from a truncated [FOLLOWUP] block with no closing tag', async () => {
+      app.llm.queue([
+        'Try the **Marais** for dinner.',
+        '[FOLLOWUP]',
+        '- Best bakeries in the Marais',
+        '* Late-night bars nearby',
+        '- Is it busy on week',
+      ].join('\n'));
+
+      const body = await (await chat({ message: 'Where should I eat?' })).json();
+
+      expect(body.message).toBe('Try the **Marais** for dinner.');
+      expect(body.followUpSuggestions).toEqual([
+        'Best bakeries in the Marais',
+        'Late-night bars nearby',
+        'Is it busy on week',
+      ]);
+    });
+
+    it('should read fenced JSON inside [PLACES]', async () => {
+      app.llm.queue([
+        'Here are some highlights.',
+        '[PLACES]',
+        '```json',
+        '{"suggested": ["Louvre Museum, Paris, France", "Eiffel Tower, Paris, France", "Louvre Museum, Paris, France"]}',
+        '```',
+        '[/PLACES]',
+      ].join('\n'));
+
+      const body = await (await chat({ message: 'What should I see?' })).json();
+
+      expect(body.message).toBe('Here are some highlights.');
+      expect(body.placesByDay).toEqual({ Suggested: ['Louvre Museum, Paris, France', 'Eiffel Tower, Paris, France'] });
+      expect(body.places).toEqual({ suggested: ['Louvre Museum, Paris, France', 'Eiffel Tower, Paris, France', 'Louvre Museum, Paris, France'] });
+    });
+
+    it('should read fenced Option A/B days inside [PLACES]', async () => {
+      const days = optionDays.places.days.slice(1);
+      app.llm.queue(`Two options for day 2.\n[PLACES]\n\`\`\`json\n${JSON.stringify({ days })}\n\`\`\`\n[/PLACES]`);
+
+      const body = await (await chat({ message: 'Options for day 2?' })).json();
+
+      expect(Object.keys(body.placesByDay)).toEqual(['Day 2 (Option A)', 'Day 2 (Option B)']);
+      expect(body.placesByTimePeriod['Day 2 (Option A)']).toEqual({ Morning: ['Palace of Versailles, Versailles, France'] });
+    });
+  });
+
+  describe('error paths', () => {
+    it('should return 400 when the message is missing', async () => {
+      const res = await chat({});
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Message is required' });
+      expect(app.llm.calls).toHaveLength(0);
+      expect(await app.store.listConversations(owner)).toHaveLength(0);
+    });
+
+    it('should return 500 when the conversation cannot be created', async () => {
+      vi.spyOn(app.store, 'createConversation').mockRejectedValueOnce(new Error('insert failed'));
+
+      const res = await chat({ message: 'Hello' });
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toEqual({ error: 'Failed to process chat message' });
+      expect(app.llm.calls).toHaveLength(0);
+    });
+
+    it('should return 500 when the model call fails', async () => {
+      app.llm.queue(new Error('upstream timeout'));
+
+      const res = await chat({ message: 'Hello' });
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toEqual({ error: 'Failed to process chat message' });
+    });
+
+    it('should return 500 and store nothing when the output is invalid JSON', async () => {
+      app.llm.queue('{"message": "Hello", "mapAct');
+
+      const res = await chat({ message: 'Hello' });
+
+      expect(res.status).toBe(500);
+      expect((await storedMessages()).map((m) => m.role)).toEqual(['user']);
+    });
+
+    it('should return 500 when the output does not match the schema', async () => {
+      app.llm.queue({ message: 'Hello', mapAction: { action: 'teleport' }, places: null, followUpSuggestions: [] });
+
+      const res = await chat({ message: 'Hello' });
+
+      expect(res.status).toBe(500);
+      expect((await storedMessages()).map((m) => m.role)).toEqual(['user']);
+    });
+  });
+});
+
+describe('/api/chat/stream', () => {
+  let app;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  const stream = (body) => app.request('/api/chat/stream', { method: 'POST', body });
+
+  it('should stream the message text and finish with the full payload', async () => {
+    app.llm.queue(optionDays);
+
+    const res = await stream({ message: 'Plan 3 days in Paris' });
+    const events = await readNdjson(res);
+
+    expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+    const deltas = events.filter((e) => e.type === 'delta').map((e) => e.text).join('');
+    expect(deltas).toBe(optionDays.message);
+
+    const done = events.at(-1);
+    expect(done.type).toBe('done');
+    expect(Object.keys(done.placesByDay)).toEqual(['Day 1', 'Day 2 (Option A)', 'Day 2 (Option B)']);
+    expect((await app.store.getMessages(done.conversationId)).map((m) => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should stream only the message of a JSON answer wrapped in a code fence', async () => {
+    app.llm.queue(`\`\`\`json\n${JSON.stringify(optionDays)}\n\`\`\``);
+
+    const events = await readNdjson(await stream({ message: 'Plan 3 days in Paris' }));
+
+    const deltas = events.filter((e) => e.type === 'delta').map((e) => e.text).join('');
+    expect(deltas).toBe(optionDays.message);
+    expect(events.at(-1).message).toBe(optionDays.message);
+    expect(Object.keys(events.at(-1).placesByDay)).toEqual(['Day 1', 'Day 2 (Option A)', 'Day 2 (Option B)']);
+  });
+
+  it('should return 400 before streaming when the message is missing', async () => {
+    const res = await stream({});
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Message is required' });
+  });
+
+  it('should return 500 before streaming when the user message cannot be stored', async () => {
+    vi.spyOn(app.store, 'appendMessage').mockRejectedValueOnce(new Error('insert failed'));
+
+    const res = await stream({ message: 'Hello' });
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Failed to process chat message' });
+  });
+
+  it('should end with an error event when the model fails mid-stream', async () => {
+    app.llm.queue(new Error('upstream timeout'));
+
+    const res = await stream({ message: 'Hello' });
+    const events = await readNdjson(res);
+
+    expect(res.status).toBe(200);
+    expect(events.at(-1)).toEqual({ type: 'error', error: 'Failed to process chat message' });
+  });
+});
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { indexPlaces } from '../chatResponse.js';
+
+// Shape a stored message like the frontend Message type, rebuilding the
+// per-day place lists from the stored places
+function toMessageResponse(row) {
+  const { places = null, follow_up_suggestions: followUpSuggestions = null, ...message } = row;
+  if (message.role !== 'assistant') return message;
+
+  return {
+    ...message,
+    followUpSuggestions: followUpSuggestions ?? [],
+    ...indexPlaces(places),
+    places,
+  };
+}
+
+// Expects req.owner from auth/middleware.js; other owners' conversations look like they do not exist
+export function createConversationsRouter({ store }) {
+  const router = Router();
+
+  router.param('id', async (req, res, next, id) => {
+    try {
+      const conversation = await store.getConversation(id);
+      if (!conversation || conversation.owner_id !== req.owner.id) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      req.conversation = conversation;
+      next();
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      res.status(500).json({ error: 'Failed to load conversation' });
+    }
+  });
+
+  router.get('/conversations', async (req, res) => {
+    try {
+      res.json(await store.listConversations(req.owner.id));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      res.status(500).json({ error: 'Failed to fetch conversations' });
+    }
+  });
+
+  router.get('/conversations/:id/messages', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const messages = await store.getMessages(id);
+      res.json(messages.map(toMessageResponse));
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      res.status(500).json({ error: 'Failed to fetch messages' });
+    }
+  });
+
+  router.patch('/conversations/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+
+      if (!title) {
+        return res.status(400).json({ error: 'Title is required' });
+      }
+
+      res.json(await store.renameConversation(id, title.substring(0, 100)));
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      res.status(500).json({ error: 'Failed to rename conversation' });
+    }
+  });
+
+  // Replaces the places the user picked for the assistant's names, keyed like the frontend's placeChoiceKey
+  router.put('/conversations/:id/place-choices', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const placeChoices = req.body?.placeChoices;
+
+      if (!placeChoices || typeof placeChoices !== 'object' || Array.isArray(placeChoices)) {
+        return res.status(400).json({ error: 'placeChoices must be an object' });
+      }
+
+      res.json(await store.setPlaceChoices(id, placeChoices));
+    } catch (error) {
+      console.error('Error saving place choices:', error);
+      res.status(500).json({ error: 'Failed to save place choices' });
+    }
+  });
+
+  router.delete('/conversations/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      await store.deleteConversation(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      res.status(500).json({ error: 'Failed to delete conversation' });
+    }
+  });
+
+  return router;
+}
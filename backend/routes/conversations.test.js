@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TEST_DEVICE_ID, TEST_USER, startTestApp } from '../test/harness.js';
+import { createFakeSupabase } from '../test/fakeSupabase.js';
+import { createSupabaseStore } from '../store/supabase.js';
+
+const owner = `device:${TEST_DEVICE_ID}`;
+
+describe('/api/conversations', () => {
+  let app;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  const seedConversation = async (title, contents) => {
+    const conversation = await app.store.createConversation({ title, ownerId: owner });
+    for (const [i, content] of contents.entries()) {
+      await app.store.appendMessage(conversation.id, { role: i % 2 === 0 ? 'user' : 'assistant', content });
+    }
+    return conversation;
+  };
+
+  it('should list conversations with the most recently updated first', async () => {
+    await seedConversation('Paris', []);
+    await seedConversation('Tokyo', []);
+
+    const res = await app.request('/api/conversations');
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).map((c) => c.title)).toEqual(['Tokyo', 'Paris']);
+  });
+
+  it('should return the messages of a conversation in order', async () => {
+    const paris = await seedConversation('Paris', ['Plan my trip', 'Here is your plan']);
+    await seedConversation('Tokyo', ['Other trip']);
+
+    const res = await app.request(`/api/conversations/${paris.id}/messages`);
+    const messages = await res.json();
+
+    expect(messages.map((m) => m.content)).toEqual(['Plan my trip', 'Here is your plan']);
+  });
+
+  it('should rename a conversation', async () => {
+    const paris = await seedConversation('Paris', []);
+
+    const res = await app.request(`/api/conversations/${paris.id}`, { method: 'PATCH', body: { title: '  Paris in spring ' } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: paris.id, title: 'Paris in spring' });
+  });
+
+  it('should reject an empty title', async () => {
+    const paris = await seedConversation('Paris', []);
+
+    const res = await app.request(`/api/conversations/${paris.id}`, { method: 'PATCH', body: { title: '   ' } });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Title is required' });
+  });
+
+  it('should return 404 when renaming a missing conversation', async () => {
+    const res = await app.request('/api/conversations/missing', { method: 'PATCH', body: { title: 'Paris' } });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Conversation not found' });
+  });
+
+  it('should keep the places picked in a conversation for the next visit', async () => {
+    const paris = await seedConversation('Paris', []);
+    const placeChoices = {
+      'old town': { id: 'osm:node:1', displayName: 'Vieux Paris', formattedAddress: 'Paris, France', location: { lat: 48.85, lng: 2.35 }, query: 'Old town' },
+    };
+
+    const res = await app.request(`/api/conversations/${paris.id}/place-choices`, { method: 'PUT', body: { placeChoices } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: paris.id, place_choices: placeChoices });
+    const [listed] = await (await app.request('/api/conversations')).json();
+    expect(listed.place_choices).toEqual(placeChoices);
+  });
+
+  it('should reject place choices that are not an object', async () => {
+    const paris = await seedConversation('Paris', []);
+
+    const res = await app.request(`/api/conversations/${paris.id}/place-choices`, { method: 'PUT', body: { placeChoices: ['Old town'] } });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'placeChoices must be an object' });
+  });
+
+  it('should return 404 for an id that is not a uuid in the supabase store', async () => {
+    await app.close();
+    app = await startTestApp({ store: createSupabaseStore(createFakeSupabase()) });
+
+    const messages = await app.request('/api/conversations/not-a-uuid/messages');
+    const remove = await app.request('/api/conversations/not-a-uuid', { method: 'DELETE' });
+
+    for (const res of [messages, remove]) {
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Conversation not found' });
+    }
+  });
+
+  it('should return assistant messages with their places and follow-ups', async () => {
+    const paris = await seedConversation('Paris', ['Plan a day in Paris']);
+    await app.store.appendMessage(paris.id, {
+      role: 'assistant',
+      content: 'Here is your day',
+      mapAction: null,
+      places: {
+        days: [{
+          key: 'Day 1',
+          periods: {
+            Morning: [{ options: ['Louvre Museum, Paris, France'], optional: false, travelTime: null }],
+            Evening: [{ options: ['Seine River Cruise, Paris, France'], optional: true, travelTime: '10 min walk' }],
+          },
+        }],
+      },
+      followUpSuggestions: ['Add dinner'],
+    });
+
+    const [user, assistant] = await (await app.request(`/api/conversations/${paris.id}/messages`)).json();
+
+    expect(user).not.toHaveProperty('placesByDay');
+    expect(assistant).toMatchObject({
+      content: 'Here is your day',
+      map_action: null,
+      followUpSuggestions: ['Add dinner'],
+      placesByDay: { 'Day 1': ['Louvre Museum, Paris, France', 'Seine River Cruise, Paris, France'] },
+      placesByTimePeriod: { 'Day 1': { Morning: ['Louvre Museum, Paris, France'], Evening: ['Optional: Seine River Cruise, Paris, France'] } },
+    });
+    expect(assistant.places.days[0].key).toBe('Day 1');
+  });
+
+  it('should delete a conversation together with its messages', async () => {
+    const paris = await seedConversation('Paris', ['Plan my trip']);
+
+    const res = await app.request(`/api/conversations/${paris.id}`, { method: 'DELETE' });
+
+    expect(await res.json()).toEqual({ success: true });
+    expect(await app.store.listConversations(owner)).toHaveLength(0);
+    expect(await app.store.getMessages(paris.id)).toHaveLength(0);
+  });
+
+  it('should return 500 when the store fails', async () => {
+    const { id } = await seedConversation('Paris', []);
+    const failure = new Error('database is unavailable');
+    vi.spyOn(app.store, 'listConversations').mockRejectedValueOnce(failure);
+    vi.spyOn(app.store, 'getMessages').mockRejectedValueOnce(failure);
+    vi.spyOn(app.store, 'renameConversation').mockRejectedValueOnce(failure);
+    vi.spyOn(app.store, 'deleteConversation').mockRejectedValueOnce(failure);
+
+    const list = await app.request('/api/conversations');
+    const messages = await app.request(`/api/conversations/${id}/messages`);
+    const rename = await app.request(`/api/conversations/${id}`, { method: 'PATCH', body: { title: 'Paris' } });
+    const remove = await app.request(`/api/conversations/${id}`, { method: 'DELETE' });
+
+    expect(list.status).toBe(500);
+    expect(await list.json()).toEqual({ error: 'Failed to fetch conversations' });
+    expect(messages.status).toBe(500);
+    expect(await messages.json()).toEqual({ error: 'Failed to fetch messages' });
+    expect(rename.status).toBe(500);
+    expect(await rename.json()).toEqual({ error: 'Failed to rename conversation' });
+    expect(remove.status).toBe(500);
+    expect(await remove.json()).toEqual({ error: 'Failed to delete conversation' });
+  });
+
+  describe('ownership', () => {
+    const otherDevice = { headers: { 'X-Device-Id': 'other-device-9876543210' } };
+
+    it('should require a device id or a session', async () => {
+      const res = await app.request('/api/conversations', { headers: { 'X-Device-Id': null } });
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Authentication required' });
+    });
+
+    it('should only list the caller\'s conversations', async () => {
+      await seedConversation('Paris', []);
+
+      const mine = await (await app.request('/api/conversations')).json();
+      const theirs = await (await app.request('/api/conversations', otherDevice)).json();
+
+      expect(mine.map((c) => c.title)).toEqual(['Paris']);
+      expect(theirs).toEqual([]);
+    });
+
+    it('should hide another owner\'s conversation', async () => {
+      const paris = await seedConversation('Paris', ['Plan my trip']);
+
+      const messages = await app.request(`/api/conversations/${paris.id}/messages`, otherDevice);
+      const rename = await app.request(`/api/conversations/${paris.id}`, { ...otherDevice, method: 'PATCH', body: { title: 'Mine now' } });
+      const remove = await app.request(`/api/conversations/${paris.id}`, { ...otherDevice, method: 'DELETE' });
+      const choose = await app.request(`/api/conversations/${paris.id}/place-choices`, { ...otherDevice, method: 'PUT', body: { placeChoices: {} } });
+
+      for (const res of [messages, rename, remove, choose]) {
+        expect(res.status).toBe(404);
+        expect(await res.json()).toEqual({ error: 'Conversation not found' });
+      }
+      expect(await app.store.getConversation(paris.id)).toMatchObject({ title: 'Paris', place_choices: null });
+      expect(await app.store.getMessages(paris.id)).toHaveLength(1);
+    });
+
+    it('should scope conversations to the signed-in user across devices', async () => {
+      const { token } = await (await app.request('/api/auth/login', { method: 'POST', body: TEST_USER })).json();
+      const signedIn = (headers = {}) => ({ headers: { Authorization: `Bearer ${token}`, ...headers } });
+      await app.store.createConversation({ title: 'Account trip', ownerId: `user:${TEST_USER.email}` });
+
+      const fromThisDevice = await (await app.request('/api/conversations', signedIn())).json();
+      const fromOtherDevice = await (await app.request('/api/conversations', signedIn(otherDevice.headers))).json();
+      const anonymous = await (await app.request('/api/conversations')).json();
+
+      expect(fromThisDevice.map((c) => c.title)).toEqual(['Account trip']);
+      expect(fromOtherDevice.map((c) => c.title)).toEqual(['Account trip']);
+      expect(anonymous).toEqual([]);
+    });
+
+    it('should reject an invalid session token', async () => {
+      const res = await app.request('/api/conversations', { headers: { Authorization: 'Bearer not-a-token' } });
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Invalid or expired session' });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { Router } from 'express';
+import { createLruCache } from '../cache.js';
+import { ROUTE_PROFILES } from '../routing/index.js';
+import { optimizeDayOrder } from '../routing/optimize.js';
+
+// Coordinates are rounded to 4 decimals (about 11 m) so nearby lookups share a cache entry
+const COORDINATE_DECIMALS = 4;
+
+// Enough for a packed day of sightseeing, and within every engine's waypoint limit
+const MAX_WAYPOINTS = 25;
+
+// Isochrone limits per request, and the longest one (ORS's cap for most profiles)
+const MAX_ISOCHRONES = 3;
+const MAX_ISOCHRONE_MINUTES = 60;
+
+// Seconds clients wait after the engine rate limits us, when it does not say
+const UPSTREAM_RETRY_AFTER = 60;
+
+// Rounded { lng, lat }, or null when it is not a valid position
+function toPosition(lng, lat) {
+  if (typeof lng !== 'number' || typeof lat !== 'number') return null;
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  if (lng < -180 || lng > 180 || lat < -90 || lat > 90) return null;
+
+  const round = (n) => Number(n.toFixed(COORDINATE_DECIMALS));
+  return { lng: round(lng), lat: round(lat) };
+}
+
+// [lng, lat] pair from a request body -> position
+const pairToPosition = (pair) => (Array.isArray(pair) && pair.length === 2 ? toPosition(...pair) : null);
+
+// "10,20" query parameter -> sorted whole minutes, or null when invalid
+function parseMinutes(value) {
+  if (typeof value !== 'string') return null;
+  const minutes = value.split(',').map(Number);
+  if (minutes.length > MAX_ISOCHRONES) return null;
+  if (!minutes.every((m) => Number.isInteger(m) && m >= 1 && m <= MAX_ISOCHRONE_MINUTES)) return null;
+  return [...new Set(minutes)].sort((a, b) => a - b);
+}
+
+// "lng,lat" query parameter -> position
+function parseCoordinates(value) {
+  if (typeof value !== 'string') return null;
+  const parts = value.split(',');
+  if (parts.length !== 2 || parts.some((part) => part.trim() === '')) return null;
+  return toPosition(...parts.map(Number));
+}
+
+/**
+ * Directions through the routing provider. Responds with the route as
+ * { profile, distance, duration, geometry, legs, steps, alternatives } (meters,
+ * seconds, [lng, lat] pairs, one leg per pair of consecutive stops, turn-by-turn
+ * steps, other routes when asked for) whichever provider computed it.
+ *
+ *   GET  /directions?profile=&start=lng,lat&end=lng,lat[&alternatives=true]
+ *   POST /directions { profile, coordinates: [[lng, lat], ...] } for multi-stop routes
+ *
+ * POST /directions/optimize { profile, periods: [[[lng, lat], ...], ...], end? }
+ * reorders the stops inside each time period for the shortest total travel time,
+ * keeping the periods in order and `end` (the accommodation) last. Responds
+ * with { profile, order, duration, originalDuration }, where order[p] lists
+ * the indices of period p's stops in their new order.
+ *
+ * GET /directions/isochrones?profile=&location=lng,lat&minutes=10,20 responds
+ * with { profile, location, polygons: [{ minutes, rings }] }, the areas
+ * reachable within each limit, smallest first.
+ */
+export function createDirectionsRouter({ routing, cache = createLruCache() }) {
+  const router = Router();
+
+  const sendRoute = async (res, profile, waypoints, { alternatives = false } = {}) => {
+    if (!ROUTE_PROFILES.includes(profile)) {
+      return res.status(400).json({ error: `Profile must be one of ${ROUTE_PROFILES.join(', ')}` });
+    }
+
+    if (!routing.configured) {
+      console.error(`Routing provider "${routing.name}" is missing its settings in backend .env`);
+      return res.status(500).json({ error: 'Directions service is not configured on the server' });
+    }
+
+    const cacheKey = `${profile}:${waypoints.map(({ lng, lat }) => `${lng},${lat}`).join(':')}${alternatives ? ':alternatives' : ''}`;
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      res.set('X-Cache', 'HIT');
+      return res.json(cached);
+    }
+
+    const route = await routing.route({ profile, waypoints, alternatives });
+    if (!route) {
+      return res.status(404).json({ error: 'No route found between these points' });
+    }
+
+    const result = { profile, ...route };
+    cache.set(cacheKey, result);
+    res.set('X-Cache', 'MISS');
+    res.json(result);
+  };
+
+  // The engine rejecting the stops is the caller's mistake and its rate limit
+  // asks them to wait; anything else (a bad API key included) is ours, so the
+  // client never mistakes an upstream 401 or 403 for its own session expiring
+  const handleError = (res, error) => {
+    if (error.status) {
+      console.error('Routing provider error:', error.status, error.message);
+      if (error.status === 429) {
+        const retryAfter = error.retryAfter ?? UPSTREAM_RETRY_AFTER;
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: 'Failed to fetch directions from the routing provider', retryAfter });
+      }
+      const status = [400, 422].includes(error.status) ? 400 : 502;
+      return res.status(status).json({ error: 'Failed to fetch directions from the routing provider' });
+    }
+    console.error('Directions proxy error:', error);
+    res.status(500).json({ error: 'Failed to proxy directions request' });
+  };
+
+  router.get('/directions', async (req, res) => {
+    try {
+      const { profile } = req.query;
+
+      if (!profile || !req.query.start || !req.query.end) {
+        return res.status(400).json({ error: 'Profile, start, and end coordinates are required' });
+      }
+
+      const start = parseCoordinates(req.query.start);
+      const end = parseCoordinates(req.query.end);
+      if (!start || !end) {
+        return res.status(400).json({ error: 'Coordinates must be "longitude,latitude" within valid ranges' });
+      }
+
+      await sendRoute(res, profile, [start, end], { alternatives: req.query.alternatives === 'true' });
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.post('/directions', async (req, res) => {
+    try {
+      const { profile, coordinates } = req.body ?? {};
+
+      if (!profile || !Array.isArray(coordinates)) {
+        return res.status(400).json({ error: 'Profile and coordinates are required' });
+      }
+
+      if (coordinates.length < 2 || coordinates.length > MAX_WAYPOINTS) {
+        return res.status(400).json({ error: `Between 2 and ${MAX_WAYPOINTS} coordinates are required` });
+      }
+
+      const waypoints = coordinates.map(pairToPosition);
+      if (waypoints.includes(null)) {
+        return res.status(400).json({ error: 'Coordinates must be [longitude, latitude] pairs within valid ranges' });
+      }
+
+      await sendRoute(res, profile, waypoints);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.post('/directions/optimize', async (req, res) => {
+    try {
+      const { profile, periods, end } = req.body ?? {};
+
+      if (!profile || !Array.isArray(periods) || !periods.every(Array.isArray)) {
+        return res.status(400).json({ error: 'Profile and periods are required' });
+      }
+
+      const stops = periods.flat();
+      const stopCount = stops.length + (end ? 1 : 0);
+      if (stopCount < 2 || stopCount > MAX_WAYPOINTS) {
+        return res.status(400).json({ error: `Between 2 and ${MAX_WAYPOINTS} coordinates are required` });
+      }
+
+      const locations = (end ? [...stops, end] : stops).map(pairToPosition);
+      if (locations.includes(null)) {
+        return res.status(400).json({ error: 'Coordinates must be [longitude, latitude] pairs within valid ranges' });
+      }
+
+      if (!ROUTE_PROFILES.includes(profile)) {
+        return res.status(400).json({ error: `Profile must be one of ${ROUTE_PROFILES.join(', ')}` });
+      }
+
+      if (!routing.configured) {
+        console.error(`Routing provider "${routing.name}" is missing its settings in backend .env`);
+        return res.status(500).json({ error: 'Directions service is not configured on the server' });
+      }
+
+      // Matrix index of each period's stops, in the order they were sent
+      let next = 0;
+      const indices = periods.map((period) => period.map(() => next++));
+
+      const durations = await routing.matrix({ profile, locations });
+      const result = optimizeDayOrder(durations, indices, end ? stops.length : null);
+      if (!Number.isFinite(result.duration)) {
+        return res.status(404).json({ error: 'No route found between these points' });
+      }
+
+      res.json({
+        profile,
+        order: result.periods.map((period, p) => period.map((index) => indices[p].indexOf(index))),
+        duration: result.duration,
+        originalDuration: result.originalDuration,
+      });
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.get('/directions/isochrones', async (req, res) => {
+    try {
+      const { profile } = req.query;
+
+      if (!profile || !req.query.location || !req.query.minutes) {
+        return res.status(400).json({ error: 'Profile, location and minutes are required' });
+      }
+
+      const location = parseCoordinates(req.query.location);
+      if (!location) {
+        return res.status(400).json({ error: 'Coordinates must be "longitude,latitude" within valid ranges' });
+      }
+
+      const minutes = parseMinutes(req.query.minutes);
+      if (!minutes) {
+        return res.status(400).json({
+          error: `Minutes must be up to ${MAX_ISOCHRONES} whole numbers between 1 and ${MAX_ISOCHRONE_MINUTES}`,
+        });
+      }
+
+      if (!ROUTE_PROFILES.includes(profile)) {
+        return res.status(400).json({ error: `Profile must be one of ${ROUTE_PROFILES.join(', ')}` });
+      }
+
+      if (!routing.isochrone) {
+        return res.status(501).json({ error: `Isochrones are not supported by the ${routing.name} routing provider` });
+      }
+
+      if (!routing.configured) {
+        console.error(`Routing provider "${routing.name}" is missing its settings in backend .env`);
+        return res.status(500).json({ error: 'Directions service is not configured on the server' });
+      }
+
+      const cacheKey = `isochrone:${profile}:${location.lng},${location.lat}:${minutes.join(',')}`;
+      const cached = cache.get(cacheKey);
+      if (cached) {
+        res.set('X-Cache', 'HIT');
+        return res.json(cached);
+      }
+
+      const polygons = await routing.isochrone({ profile, location, minutes });
+      const result = { profile, location: [location.lng, location.lat], polygons };
+      cache.set(cacheKey, result);
+      res.set('X-Cache', 'MISS');
+      res.json(result);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  return router;
+}
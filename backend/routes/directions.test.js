@@ -0,0 +1,302 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeRouting, startTestApp } from '../test/harness.js';
+
+const query = '/api/directions?profile=foot-walking&start=2.2945,48.8584&end=2.3376,48.8606';
+const route = { distance: 3400, duration: 2520, geometry: [[2.2945, 48.8584], [2.3376, 48.8606]], legs: [{ distance: 3400, duration: 2520 }] };
+
+describe('/api/directions', () => {
+  let app;
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the route for the requested profile', async () => {
+    app = await startTestApp({ routing: createFakeRouting([route]) });
+
+    const res = await app.request(query);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ profile: 'foot-walking', ...route });
+    expect(app.routing.calls).toEqual([
+      { profile: 'foot-walking', waypoints: [{ lng: 2.2945, lat: 48.8584 }, { lng: 2.3376, lat: 48.8606 }], alternatives: false },
+    ]);
+  });
+
+  it('should ask for alternatives and cache them apart from the single route', async () => {
+    const alternative = { distance: 3900, duration: 2880, geometry: route.geometry };
+    app = await startTestApp({ routing: createFakeRouting([{ ...route, alternatives: [alternative] }, route]) });
+
+    const res = await app.request(`${query}&alternatives=true`);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).alternatives).toEqual([alternative]);
+    expect(app.routing.calls[0].alternatives).toBe(true);
+
+    expect((await app.request(query)).headers.get('x-cache')).toBe('MISS');
+    expect(app.routing.calls[1].alternatives).toBe(false);
+  });
+
+  it('should return 404 when the provider finds no route', async () => {
+    app = await startTestApp({ routing: createFakeRouting([null]) });
+
+    const res = await app.request(query);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'No route found between these points' });
+  });
+
+  it('should return 400 when coordinates are missing', async () => {
+    app = await startTestApp();
+
+    const res = await app.request('/api/directions?profile=foot-walking&start=2.2945,48.8584');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Profile, start, and end coordinates are required' });
+  });
+
+  it('should return 500 when no API key is configured', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp({ routing: { name: 'osrm', configured: false, route: vi.fn() } });
+
+    const res = await app.request(query);
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Directions service is not configured on the server' });
+  });
+
+  it.each([[400, 400], [422, 400], [401, 502], [403, 502], [404, 502], [503, 502]])(
+    'should answer an upstream %i with %i',
+    async (upstreamStatus, status) => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const upstreamError = Object.assign(new Error('Upstream failure'), { status: upstreamStatus });
+      app = await startTestApp({ routing: createFakeRouting([upstreamError]) });
+
+      const res = await app.request(query);
+
+      expect(res.status).toBe(status);
+      expect(await res.json()).toEqual({ error: 'Failed to fetch directions from the routing provider' });
+    }
+  );
+
+  it('should return 500 when the request to the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp({ routing: createFakeRouting([new Error('fetch failed')]) });
+
+    const res = await app.request(query);
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Failed to proxy directions request' });
+  });
+
+  it('should reject profiles that are not supported', async () => {
+    app = await startTestApp();
+
+    const res = await app.request('/api/directions?profile=driving-hgv&start=2.2945,48.8584&end=2.3376,48.8606');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Profile must be one of driving-car, foot-walking, cycling-regular' });
+    expect(app.routing.calls).toEqual([]);
+  });
+
+  it.each(['2.2945', '2.2945,48.8584,10', 'abc,48.8584', '200,48.8584', '2.2945,-91'])(
+    'should reject invalid coordinates %s',
+    async (start) => {
+      app = await startTestApp();
+
+      const res = await app.request(`/api/directions?profile=foot-walking&start=${start}&end=2.3376,48.8606`);
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Coordinates must be "longitude,latitude" within valid ranges' });
+    }
+  );
+
+  it('should serve repeated lookups of nearby points from the cache', async () => {
+    app = await startTestApp({ routing: createFakeRouting([route]) });
+
+    const first = await app.request(query);
+    const second = await app.request('/api/directions?profile=foot-walking&start=2.29451,48.85841&end=2.3376,48.8606');
+
+    expect(first.headers.get('x-cache')).toBe('MISS');
+    expect(second.headers.get('x-cache')).toBe('HIT');
+    expect(await second.json()).toEqual({ profile: 'foot-walking', ...route });
+    expect(app.routing.calls).toHaveLength(1);
+  });
+
+  it('should not cache failed lookups', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const upstreamError = Object.assign(new Error('Rate limited'), { status: 429 });
+    app = await startTestApp({ routing: createFakeRouting([upstreamError, route]) });
+
+    expect((await app.request(query)).status).toBe(429);
+    expect((await app.request(query)).status).toBe(200);
+    expect(app.routing.calls).toHaveLength(2);
+  });
+
+  it('should pass on how long a rate limited engine asked to wait', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const limited = Object.assign(new Error('Rate limited'), { status: 429, retryAfter: 120 });
+    const unspecified = Object.assign(new Error('Rate limited'), { status: 429 });
+    app = await startTestApp({ routing: createFakeRouting([limited, unspecified]) });
+
+    const res = await app.request(query);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('120');
+    expect(await res.json()).toEqual({ error: 'Failed to fetch directions from the routing provider', retryAfter: 120 });
+
+    expect((await app.request(query)).headers.get('retry-after')).toBe('60');
+  });
+
+  describe('POST with waypoints', () => {
+    const stops = [[2.2945, 48.8584], [2.3376, 48.8606], [2.3522, 48.8566]];
+    const dayRoute = {
+      distance: 5600,
+      duration: 4200,
+      geometry: stops,
+      legs: [{ distance: 3400, duration: 2520 }, { distance: 2200, duration: 1680 }],
+    };
+
+    it('should route through the stops in order', async () => {
+      app = await startTestApp({ routing: createFakeRouting([dayRoute]) });
+
+      const res = await app.request('/api/directions', { method: 'POST', body: { profile: 'foot-walking', coordinates: stops } });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ profile: 'foot-walking', ...dayRoute });
+      expect(app.routing.calls[0].waypoints).toEqual([
+        { lng: 2.2945, lat: 48.8584 },
+        { lng: 2.3376, lat: 48.8606 },
+        { lng: 2.3522, lat: 48.8566 },
+      ]);
+    });
+
+    it('should cache multi-stop routes by every stop', async () => {
+      app = await startTestApp({ routing: createFakeRouting([dayRoute, route]) });
+      const post = (coordinates) => app.request('/api/directions', { method: 'POST', body: { profile: 'foot-walking', coordinates } });
+
+      await post(stops);
+      expect((await post(stops)).headers.get('x-cache')).toBe('HIT');
+      expect((await post(stops.slice(0, 2))).headers.get('x-cache')).toBe('MISS');
+      expect(app.routing.calls).toHaveLength(2);
+    });
+
+    it.each([
+      [{ coordinates: stops }, 'Profile and coordinates are required'],
+      [{ profile: 'foot-walking', coordinates: stops.slice(0, 1) }, 'Between 2 and 25 coordinates are required'],
+      [{ profile: 'foot-walking', coordinates: Array(26).fill(stops[0]) }, 'Between 2 and 25 coordinates are required'],
+      [{ profile: 'foot-walking', coordinates: [stops[0], ['2.3', '48.8']] }, 'Coordinates must be [longitude, latitude] pairs within valid ranges'],
+      [{ profile: 'foot-walking', coordinates: [stops[0], [2.3, 95]] }, 'Coordinates must be [longitude, latitude] pairs within valid ranges'],
+    ])('should reject %j', async (body, error) => {
+      app = await startTestApp();
+
+      const res = await app.request('/api/directions', { method: 'POST', body });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error });
+      expect(app.routing.calls).toEqual([]);
+    });
+  });
+
+  describe('POST /api/directions/optimize', () => {
+    // Stops along a street at 0, 10, 5 and 20 minutes from its start, hotel at 30
+    const positions = [0, 10, 5, 20, 30];
+    const matrix = positions.map((a) => positions.map((b) => Math.abs(a - b) * 60));
+    const stop = (i) => [2.29 + i / 100, 48.85];
+    const optimize = (body) => app.request('/api/directions/optimize', { method: 'POST', body });
+
+    it('should reorder stops within their periods and keep the accommodation last', async () => {
+      app = await startTestApp({ routing: createFakeRouting([matrix]) });
+
+      const res = await optimize({ profile: 'foot-walking', periods: [[stop(0), stop(1), stop(2)], [stop(3)]], end: stop(4) });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        profile: 'foot-walking',
+        order: [[0, 2, 1], [0]],
+        duration: 1800,
+        originalDuration: 2400,
+      });
+      expect(app.routing.calls[0]).toEqual({
+        profile: 'foot-walking',
+        locations: [0, 1, 2, 3, 4].map((i) => ({ lng: Number((2.29 + i / 100).toFixed(4)), lat: 48.85 })),
+      });
+    });
+
+    it('should return 404 when the stops cannot be connected', async () => {
+      app = await startTestApp({ routing: createFakeRouting([[[0, null], [null, 0]]]) });
+
+      const res = await optimize({ profile: 'driving-car', periods: [[stop(0), stop(1)]] });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should validate the periods', async () => {
+      app = await startTestApp();
+
+      expect((await optimize({ profile: 'driving-car', periods: stop(0) })).status).toBe(400);
+      expect((await optimize({ profile: 'driving-car', periods: [[stop(0)]] })).status).toBe(400);
+      expect((await optimize({ profile: 'driving-car', periods: [[stop(0), [500, 0]]] })).status).toBe(400);
+      expect((await optimize({ profile: 'walking', periods: [[stop(0), stop(1)]] })).status).toBe(400);
+      expect(app.routing.calls).toEqual([]);
+    });
+  });
+
+  describe('GET /api/directions/isochrones', () => {
+    const polygons = [
+      { minutes: 10, rings: [[[2.29, 48.85], [2.30, 48.86], [2.31, 48.85], [2.29, 48.85]]] },
+      { minutes: 20, rings: [[[2.28, 48.84], [2.30, 48.87], [2.32, 48.84], [2.28, 48.84]]] },
+    ];
+    const isochrones = (params) => app.request(`/api/directions/isochrones?${new URLSearchParams(params)}`);
+
+    it('should return the reachable areas, smallest first', async () => {
+      app = await startTestApp({ routing: createFakeRouting([polygons]) });
+
+      const res = await isochrones({ profile: 'foot-walking', location: '2.29451,48.85841', minutes: '20,10' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ profile: 'foot-walking', location: [2.2945, 48.8584], polygons });
+      expect(app.routing.calls).toEqual([
+        { profile: 'foot-walking', location: { lng: 2.2945, lat: 48.8584 }, minutes: [10, 20] },
+      ]);
+    });
+
+    it('should serve repeated lookups from the cache', async () => {
+      app = await startTestApp({ routing: createFakeRouting([polygons]) });
+
+      await isochrones({ profile: 'foot-walking', location: '2.2945,48.8584', minutes: '10,20' });
+      const second = await isochrones({ profile: 'foot-walking', location: '2.2945,48.8584', minutes: '20,10' });
+
+      expect(second.headers.get('x-cache')).toBe('HIT');
+      expect(app.routing.calls).toHaveLength(1);
+    });
+
+    it.each([
+      [{ profile: 'foot-walking', location: '2.29,48.85' }, 'Profile, location and minutes are required'],
+      [{ profile: 'foot-walking', location: '200,48.85', minutes: '10' }, 'Coordinates must be "longitude,latitude" within valid ranges'],
+      [{ profile: 'foot-walking', location: '2.29,48.85', minutes: '90' }, 'Minutes must be up to 3 whole numbers between 1 and 60'],
+      [{ profile: 'foot-walking', location: '2.29,48.85', minutes: '5,10,15,20' }, 'Minutes must be up to 3 whole numbers between 1 and 60'],
+      [{ profile: 'foot-walking', location: '2.29,48.85', minutes: '7.5' }, 'Minutes must be up to 3 whole numbers between 1 and 60'],
+      [{ profile: 'walking', location: '2.29,48.85', minutes: '10' }, 'Profile must be one of driving-car, foot-walking, cycling-regular'],
+    ])('should reject %o', async (params, error) => {
+      app = await startTestApp();
+
+      const res = await isochrones(params);
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error });
+      expect(app.routing.calls).toEqual([]);
+    });
+
+    it('should answer 501 when the provider has no isochrones', async () => {
+      const routing = createFakeRouting();
+      delete routing.isochrone;
+      app = await startTestApp({ routing });
+
+      const res = await isochrones({ profile: 'driving-car', location: '2.29,48.85', minutes: '10' });
+
+      expect(res.status).toBe(501);
+      expect(await res.json()).toEqual({ error: 'Isochrones are not supported by the fake routing provider' });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { createMemoryGeocodeCache } from '../geocode/cache.js';
+
+// Longer queries are never place names and Nominatim rejects them anyway
+const MAX_QUERY_LENGTH = 255;
+const MAX_RESULTS = 10;
+const DEFAULT_RESULTS = 5;
+
+// Reverse lookups are rounded to 5 decimals (about 1 m) so repeated clicks share a cache entry
+const COORDINATE_DECIMALS = 5;
+
+// "left,top,right,bottom" longitudes and latitudes -> normalized string, or null when invalid
+function parseViewbox(value) {
+  if (typeof value !== 'string') return null;
+  const parts = value.split(',');
+  if (parts.length !== 4 || parts.some((part) => part.trim() === '')) return null;
+
+  const [left, top, right, bottom] = parts.map(Number);
+  const isLng = (n) => Number.isFinite(n) && n >= -180 && n <= 180;
+  const isLat = (n) => Number.isFinite(n) && n >= -90 && n <= 90;
+  if (!isLng(left) || !isLng(right) || !isLat(top) || !isLat(bottom)) return null;
+  return [left, top, right, bottom].join(',');
+}
+
+/**
+ * Place search, type-ahead suggestions and reverse geocoding through the
+ * configured geocoders, so every browser shares the server's request queue and
+ * cache. Responds with places normalized as in geocode/index.js, whichever
+ * engine found them.
+ *
+ *   GET /geocode/search?q=&limit=&countrycodes=&viewbox=&bounded=1
+ *   GET /geocode/autocomplete?q=&limit=&countrycodes=&viewbox=&bounded=1
+ *   GET /geocode/reverse?lat=&lon=
+ *
+ * Reverse lookups without a place at that position respond 404.
+ */
+export function createGeocodeRouter({ geocoder, autocompleteGeocoder = geocoder, cache = createMemoryGeocodeCache() }) {
+  const router = Router();
+
+  // Sends 500 when the engine is missing its settings
+  const checkConfigured = (res, engine) => {
+    if (engine.configured) return true;
+    console.error(`Geocoder "${engine.name}" is missing its settings in backend .env`);
+    res.status(500).json({ error: 'Geocoding service is not configured on the server' });
+    return false;
+  };
+
+  // Engines disagree, so each one's results are cached apart
+  const cachedLookup = async (res, engine, cacheKey, lookup) => {
+    const key = `${engine.name}:${cacheKey}`;
+    const cached = await cache.get(key);
+    if (cached !== undefined) {
+      res.set('X-Cache', 'HIT');
+      return cached;
+    }
+
+    const result = await lookup();
+    await cache.set(key, result);
+    res.set('X-Cache', 'MISS');
+    return result;
+  };
+
+  const handleError = (res, error) => {
+    if (error.busy) {
+      res.set('Retry-After', '5');
+      return res.status(503).json({ error: 'The geocoder is busy, please try again shortly' });
+    }
+    if (error.status) {
+      console.error('Geocoder error:', error.status, error.message);
+      return res.status(502).json({ error: 'Failed to fetch results from the geocoder' });
+    }
+    console.error('Geocode proxy error:', error);
+    res.status(500).json({ error: 'Failed to proxy geocoding request' });
+  };
+
+  // Validated search options, or sends 400 and returns null
+  const parseSearch = (req, res) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim().replace(/\s+/g, ' ') : '';
+    if (!q || q.length > MAX_QUERY_LENGTH) {
+      res.status(400).json({ error: `A search query of up to ${MAX_QUERY_LENGTH} characters is required` });
+      return null;
+    }
+
+    const limit = req.query.limit === undefined ? DEFAULT_RESULTS : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULTS) {
+      res.status(400).json({ error: `Limit must be a whole number between 1 and ${MAX_RESULTS}` });
+      return null;
+    }
+
+    const { countrycodes } = req.query;
+    if (countrycodes !== undefined && (typeof countrycodes !== 'string' || !/^[a-z]{2}(,[a-z]{2})*$/i.test(countrycodes))) {
+      res.status(400).json({ error: 'Country codes must be two-letter codes separated by commas' });
+      return null;
+    }
+
+    const viewbox = req.query.viewbox === undefined ? undefined : parseViewbox(req.query.viewbox);
+    if (viewbox === null) {
+      res.status(400).json({ error: 'Viewbox must be "left,top,right,bottom" longitudes and latitudes' });
+      return null;
+    }
+
+    const bounded = req.query.bounded === '1' || req.query.bounded === 'true';
+    if (bounded && !viewbox) {
+      res.status(400).json({ error: 'Bounded search requires a viewbox' });
+      return null;
+    }
+
+    const params = { q, limit, countrycodes: countrycodes?.toLowerCase(), viewbox, bounded };
+    const cacheKey = `${q.toLowerCase()}:${limit}:${params.countrycodes ?? ''}:${viewbox ?? ''}:${bounded ? 1 : 0}`;
+    return { params, cacheKey };
+  };
+
+  for (const [method, engine] of [['search', geocoder], ['autocomplete', autocompleteGeocoder]]) {
+    router.get(`/geocode/${method}`, async (req, res) => {
+      try {
+        const search = parseSearch(req, res);
+        if (!search || !checkConfigured(res, engine)) return;
+
+        res.json(await cachedLookup(res, engine, `${method}:${search.cacheKey}`, () => engine[method](search.params)));
+      } catch (error) {
+        handleError(res, error);
+      }
+    });
+  }
+
+  router.get('/geocode/reverse', async (req, res) => {
+    try {
+      const lat = Number(req.query.lat);
+      const lon = Number(req.query.lon);
+      if (!req.query.lat || !req.query.lon || !Number.isFinite(lat) || !Number.isFinite(lon) || lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+        return res.status(400).json({ error: 'Latitude and longitude must be numbers within valid ranges' });
+      }
+
+      if (!checkConfigured(res, geocoder)) return;
+
+      const round = (n) => Number(n.toFixed(COORDINATE_DECIMALS));
+      const position = { lat: round(lat), lon: round(lon) };
+      // Positions without a place are cached too, as null
+      const place = await cachedLookup(res, geocoder, `reverse:${position.lat},${position.lon}`, () => geocoder.reverse(position));
+      if (!place) {
+        return res.status(404).json({ error: 'No address found at this position' });
+      }
+      res.json(place);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  return router;
+}
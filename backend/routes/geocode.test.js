@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeGeocoder, startTestApp } from '../test/harness.js';
+
+const eiffelTower = { id: 'osm:way:5013364', name: 'Tour Eiffel', label: 'Tour Eiffel, Paris, France', lat: 48.8584, lng: 2.2945, address: { city: 'Paris' } };
+
+describe('/api/geocode', () => {
+  let app;
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should search with normalized options and cache the results', async () => {
+    app = await startTestApp({ geocoder: createFakeGeocoder([[eiffelTower]]) });
+
+    const res = await app.request('/api/geocode/search?q=%20Eiffel%20%20Tower&limit=3&countrycodes=FR&viewbox=2.2,48.9,2.4,48.8&bounded=1');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-cache')).toBe('MISS');
+    expect(await res.json()).toEqual([eiffelTower]);
+    expect(app.geocoder.calls).toEqual([
+      { q: 'Eiffel Tower', limit: 3, countrycodes: 'fr', viewbox: '2.2,48.9,2.4,48.8', bounded: true },
+    ]);
+
+    const again = await app.request('/api/geocode/search?q=eiffel%20tower&limit=3&countrycodes=fr&viewbox=2.2,48.9,2.4,48.8&bounded=1');
+    expect(again.headers.get('x-cache')).toBe('HIT');
+    expect(await again.json()).toEqual([eiffelTower]);
+    expect(app.geocoder.calls).toHaveLength(1);
+  });
+
+  it('should suggest places from the autocomplete geocoder', async () => {
+    app = await startTestApp({ geocoder: createFakeGeocoder(), autocompleteGeocoder: createFakeGeocoder([[eiffelTower]]) });
+
+    const res = await app.request('/api/geocode/autocomplete?q=tour%20eif&limit=3');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([eiffelTower]);
+    expect(app.autocompleteGeocoder.calls).toEqual([{ q: 'tour eif', limit: 3, countrycodes: undefined, viewbox: undefined, bounded: false }]);
+    expect(app.geocoder.calls).toEqual([]);
+  });
+
+  it('should return 500 when the geocoder is not configured', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app = await startTestApp({ geocoder: { ...createFakeGeocoder(), name: 'pelias', configured: false } });
+
+    const res = await app.request('/api/geocode/search?q=Louvre');
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Geocoding service is not configured on the server' });
+  });
+
+  it('should reject invalid search options', async () => {
+    app = await startTestApp();
+
+    const statuses = await Promise.all([
+      '/api/geocode/search',
+      `/api/geocode/search?q=${'a'.repeat(256)}`,
+      '/api/geocode/search?q=Louvre&limit=11',
+      '/api/geocode/search?q=Louvre&countrycodes=fra',
+      '/api/geocode/search?q=Louvre&viewbox=2.2,48.9,2.4',
+      '/api/geocode/search?q=Louvre&bounded=1',
+    ].map(async (path) => (await app.request(path)).status));
+
+    expect(statuses).toEqual([400, 400, 400, 400, 400, 400]);
+    expect(app.geocoder.calls).toEqual([]);
+  });
+
+  it('should reverse geocode rounded positions and return 404 without an address', async () => {
+    app = await startTestApp({ geocoder: createFakeGeocoder([eiffelTower, null]) });
+
+    const res = await app.request('/api/geocode/reverse?lat=48.858412&lon=2.294498');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(eiffelTower);
+
+    const ocean = await app.request('/api/geocode/reverse?lat=0&lon=-30');
+    expect(ocean.status).toBe(404);
+    expect((await app.request('/api/geocode/reverse?lat=0&lon=-30')).headers.get('x-cache')).toBe('HIT');
+
+    expect((await app.request('/api/geocode/reverse?lat=91&lon=0')).status).toBe(400);
+    expect(app.geocoder.calls).toEqual([{ lat: 48.85841, lon: 2.2945 }, { lat: 0, lon: -30 }]);
+  });
+
+  it('should return 502 on geocoder errors and 503 when its queue is full', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const upstream = Object.assign(new Error('Bandwidth limit exceeded'), { status: 429 });
+    const busy = Object.assign(new Error('Too many geocoding requests are waiting'), { busy: true });
+    app = await startTestApp({ geocoder: createFakeGeocoder([upstream, busy]) });
+
+    expect((await app.request('/api/geocode/search?q=Louvre')).status).toBe(502);
+
+    const res = await app.request('/api/geocode/search?q=Orsay');
+    expect(res.status).toBe(503);
+    expect(res.headers.get('retry-after')).toBe('5');
+  });
+});
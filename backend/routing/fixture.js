@@ -0,0 +1,75 @@
+// Offline provider for tests and local development: straight lines between
+// the stops at a fixed speed per profile
+
+import { describeManeuver } from './maneuvers.js';
+
+const SPEEDS_KMH = {
+  'driving-car': 50,
+  'foot-walking': 5,
+  'cycling-regular': 15,
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Points on the circle drawn as an isochrone
+const CIRCLE_POINTS = 32;
+
+function haversineMeters(a, b) {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export function createFixtureRouting({ speeds = SPEEDS_KMH } = {}) {
+  return {
+    name: 'fixture',
+    configured: true,
+
+    async route({ profile, waypoints }) {
+      const legs = waypoints.slice(1).map((to, i) => {
+        const distance = Math.round(haversineMeters(waypoints[i], to));
+        return { distance, duration: Math.round(distance / (speeds[profile] / 3.6)) };
+      });
+
+      // Each leg is one straight step followed by arriving at its stop
+      const steps = legs.flatMap((leg, i) => {
+        const arrival = i === legs.length - 1 ? 'arrive' : 'waypoint';
+        return [
+          { instruction: describeManeuver('depart'), name: '', maneuver: 'depart', ...leg, wayPoints: [i, i + 1] },
+          { instruction: describeManeuver(arrival), name: '', maneuver: arrival, distance: 0, duration: 0, wayPoints: [i + 1, i + 1] },
+        ];
+      });
+      return {
+        distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+        duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+        geometry: waypoints.map(({ lng, lat }) => [lng, lat]),
+        legs,
+        steps,
+        // Straight lines have no alternatives
+        alternatives: [],
+      };
+    },
+
+    async matrix({ profile, locations }) {
+      return locations.map((from) =>
+        locations.map((to) => Math.round(haversineMeters(from, to) / (speeds[profile] / 3.6)))
+      );
+    },
+
+    // A circle as far as the profile speed goes in the time
+    async isochrone({ profile, location, minutes }) {
+      return [...minutes].sort((a, b) => a - b).map((limit) => {
+        const radius = (speeds[profile] / 3.6) * limit * 60;
+        const dLat = (radius / EARTH_RADIUS_METERS) * (180 / Math.PI);
+        const dLng = dLat / Math.cos((location.lat * Math.PI) / 180);
+        const ring = Array.from({ length: CIRCLE_POINTS + 1 }, (_, i) => {
+          const angle = (2 * Math.PI * i) / CIRCLE_POINTS;
+          return [location.lng + dLng * Math.cos(angle), location.lat + dLat * Math.sin(angle)];
+        });
+        return { minutes: limit, rings: [ring] };
+      });
+    },
+  };
+}
@@ -0,0 +1,129 @@
+// GraphHopper adapter, for the hosted API (https://graphhopper.com) or a
+// self-hosted server (no key needed)
+
+import { upstreamError } from './http.js';
+
+const GRAPHHOPPER_BASE_URL = 'https://graphhopper.com/api/1';
+
+const GRAPHHOPPER_PROFILES = {
+  'driving-car': 'car',
+  'foot-walking': 'foot',
+  'cycling-regular': 'bike',
+};
+
+// Instruction signs that end a leg: a via point was reached, or the destination
+const REACHED_VIA = 5;
+const FINISH = 4;
+
+// GraphHopper instruction signs, by their numeric code
+const GRAPHHOPPER_MANEUVERS = {
+  '-98': 'u-turn', '-8': 'u-turn', '8': 'u-turn',
+  '-7': 'keep-left', '7': 'keep-right',
+  '-6': 'exit-roundabout', '6': 'roundabout',
+  '-3': 'sharp-left', '-2': 'left', '-1': 'slight-left',
+  '0': 'straight',
+  '1': 'slight-right', '2': 'right', '3': 'sharp-right',
+  [FINISH]: 'arrive', [REACHED_VIA]: 'waypoint',
+};
+
+// GraphHopper has no per-leg summary, so add up the instructions between via points
+function legsFromInstructions(instructions) {
+  const legs = [];
+  let leg = { distance: 0, duration: 0 };
+  for (const instruction of instructions) {
+    leg.distance += instruction.distance;
+    leg.duration += instruction.time / 1000;
+    if (instruction.sign === REACHED_VIA || instruction.sign === FINISH) {
+      legs.push(leg);
+      leg = { distance: 0, duration: 0 };
+    }
+  }
+  return legs;
+}
+
+// The first instruction is where the route starts, whatever its sign
+function stepsFromInstructions(instructions) {
+  return instructions.map((instruction, i) => ({
+    instruction: instruction.text,
+    name: instruction.street_name ?? '',
+    maneuver: i === 0 ? 'depart' : (GRAPHHOPPER_MANEUVERS[instruction.sign] ?? 'other'),
+    distance: instruction.distance,
+    duration: instruction.time / 1000,
+    wayPoints: instruction.interval,
+  }));
+}
+
+export function createGraphHopperRouting({ apiKey, baseUrl = GRAPHHOPPER_BASE_URL, fetchImpl = fetch }) {
+  return {
+    name: 'graphhopper',
+    // The hosted API needs a key, a self-hosted server only its URL
+    configured: Boolean(apiKey) || baseUrl !== GRAPHHOPPER_BASE_URL,
+
+    async route({ profile, waypoints, alternatives = false }) {
+      const params = new URLSearchParams({
+        profile: GRAPHHOPPER_PROFILES[profile],
+        points_encoded: 'false',
+      });
+      for (const { lng, lat } of waypoints) params.append('point', `${lat},${lng}`);
+      if (apiKey) params.set('key', apiKey);
+      // GraphHopper only computes alternatives between two points; max_paths includes the main route
+      if (alternatives && waypoints.length === 2) {
+        params.set('algorithm', 'alternative_route');
+        params.set('alternative_route.max_paths', '3');
+      }
+
+      const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/route?${params}`);
+      if (!response.ok) throw await upstreamError(response);
+
+      const [path, ...others] = (await response.json()).paths ?? [];
+      if (!path) return null;
+
+      return {
+        distance: path.distance,
+        duration: path.time / 1000,
+        geometry: path.points.coordinates,
+        legs: legsFromInstructions(path.instructions ?? []),
+        steps: stepsFromInstructions(path.instructions ?? []),
+        alternatives: others.map((other) => ({
+          distance: other.distance,
+          duration: other.time / 1000,
+          geometry: other.points.coordinates,
+        })),
+      };
+    },
+
+    async matrix({ profile, locations }) {
+      const url = `${baseUrl.replace(/\/$/, '')}/matrix${apiKey ? `?key=${encodeURIComponent(apiKey)}` : ''}`;
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profile: GRAPHHOPPER_PROFILES[profile],
+          points: locations.map(({ lng, lat }) => [lng, lat]),
+          out_arrays: ['times'],
+        }),
+      });
+
+      if (!response.ok) throw await upstreamError(response);
+      return (await response.json()).times;
+    },
+
+    // One request per limit: GraphHopper's buckets only split a single limit evenly
+    async isochrone({ profile, location, minutes }) {
+      const polygons = await Promise.all(minutes.map(async (limit) => {
+        const params = new URLSearchParams({
+          point: `${location.lat},${location.lng}`,
+          profile: GRAPHHOPPER_PROFILES[profile],
+          time_limit: String(limit * 60),
+        });
+        if (apiKey) params.set('key', apiKey);
+
+        const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/isochrone?${params}`);
+        if (!response.ok) throw await upstreamError(response);
+        const polygon = (await response.json()).polygons?.[0];
+        return polygon ? { minutes: limit, rings: polygon.geometry.coordinates } : null;
+      }));
+      return polygons.filter(Boolean).sort((a, b) => a.minutes - b.minutes);
+    },
+  };
+}
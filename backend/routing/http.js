@@ -0,0 +1,11 @@
+// Error for a failed engine request, carrying the upstream status so the
+// directions route can tell rejected stops and rate limits from engine failures,
+// and how many seconds a rate limited engine asked to wait
+export async function upstreamError(response) {
+  const errorText = await response.text().catch(() => '');
+  const error = new Error(errorText || `Routing request failed with status ${response.status}`);
+  error.status = response.status;
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  if (retryAfter > 0) error.retryAfter = Math.ceil(retryAfter);
+  return error;
+}
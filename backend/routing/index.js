@@ -0,0 +1,58 @@
+import { createOrsRouting } from './ors.js';
+import { createOsrmRouting } from './osrm.js';
+import { createValhallaRouting } from './valhalla.js';
+import { createGraphHopperRouting } from './graphhopper.js';
+import { createFixtureRouting } from './fixture.js';
+
+// A routing provider exposes:
+//   name
+//   configured                     -> false when required settings (URL, API key) are missing
+//   route({ profile, waypoints, alternatives }) -> Promise<{ distance, duration, geometry, legs, steps, alternatives } | null>
+// `profile` is one of ROUTE_PROFILES and `waypoints` the ordered stops as
+// [{ lng, lat }, ...] (at least two). `legs` has one { distance, duration } per
+// pair of consecutive stops. `steps` are the turn-by-turn instructions across
+// all legs as { instruction, name, maneuver, distance, duration, wayPoints },
+// where maneuver is one of MANEUVERS (maneuvers.js) and wayPoints the [from, to]
+// indices of the step's stretch of `geometry`. With `alternatives: true` and two
+// waypoints, engines that support it also return up to two other routes as
+// `alternatives: [{ distance, duration, geometry }]`; otherwise that list is
+// empty. Routes are normalized to meters,
+// seconds and [lng, lat] pairs; null means the engine found no route. Failed
+// requests throw an error carrying the upstream status.
+//   matrix({ profile, locations }) -> Promise<number[][]> travel times in seconds
+// from every location to every other ([from][to]), null where there is no route.
+//   isochrone({ profile, location, minutes }) -> Promise<[{ minutes, rings }]>
+// the area reachable from `location` within each of the `minutes` limits,
+// smallest first, as polygon rings of [lng, lat] pairs (outer ring first).
+// Engines without isochrones (OSRM) leave this method out.
+
+export const ROUTE_PROFILES = ['driving-car', 'foot-walking', 'cycling-regular'];
+
+/**
+ * Create the provider selected by ROUTING_PROVIDER (ors, osrm, valhalla, graphhopper or fixture).
+ */
+export function createRoutingProvider(env = process.env) {
+  const provider = env.ROUTING_PROVIDER || 'ors';
+
+  switch (provider) {
+    case 'ors':
+      return createOrsRouting({ apiKey: env.OPENROUTESERVICE_API_KEY });
+
+    case 'osrm':
+      return createOsrmRouting({ baseUrl: env.OSRM_URL });
+
+    case 'valhalla':
+      return createValhallaRouting({ baseUrl: env.VALHALLA_URL });
+
+    case 'graphhopper':
+      return createGraphHopperRouting({ apiKey: env.GRAPHHOPPER_API_KEY, baseUrl: env.GRAPHHOPPER_URL || undefined });
+
+    case 'fixture':
+      return createFixtureRouting();
+
+    default:
+      throw new Error(`Unknown ROUTING_PROVIDER: ${provider}`);
+  }
+}
+
+export { createOrsRouting, createOsrmRouting, createValhallaRouting, createGraphHopperRouting, createFixtureRouting };
@@ -0,0 +1,56 @@
+// Maneuver types of normalized route steps. Every adapter maps its engine's
+// codes onto these; anything without a match becomes 'other'.
+export const MANEUVERS = [
+  'depart',
+  'arrive',
+  'waypoint',
+  'straight',
+  'left',
+  'right',
+  'slight-left',
+  'slight-right',
+  'sharp-left',
+  'sharp-right',
+  'keep-left',
+  'keep-right',
+  'u-turn',
+  'roundabout',
+  'exit-roundabout',
+  'other',
+];
+
+const TURN_WORDS = {
+  'left': 'Turn left',
+  'right': 'Turn right',
+  'slight-left': 'Turn slightly left',
+  'slight-right': 'Turn slightly right',
+  'sharp-left': 'Turn sharp left',
+  'sharp-right': 'Turn sharp right',
+  'keep-left': 'Keep left',
+  'keep-right': 'Keep right',
+  'u-turn': 'Make a U-turn',
+  'straight': 'Continue straight',
+  'other': 'Continue',
+};
+
+/**
+ * English instruction for engines that only return the maneuver and street
+ * name (OSRM, the fixture provider). `exit` is the roundabout exit number.
+ */
+export function describeManeuver(maneuver, name = '', { exit } = {}) {
+  const onto = name ? ` onto ${name}` : '';
+  switch (maneuver) {
+    case 'depart':
+      return name ? `Head out on ${name}` : 'Head out';
+    case 'arrive':
+      return 'Arrive at your destination';
+    case 'waypoint':
+      return 'Arrive at the next stop';
+    case 'roundabout':
+      return exit ? `Enter the roundabout and take exit ${exit}${onto}` : `Enter the roundabout${onto}`;
+    case 'exit-roundabout':
+      return `Exit the roundabout${onto}`;
+    default:
+      return `${TURN_WORDS[maneuver] ?? TURN_WORDS.other}${onto}`;
+  }
+}
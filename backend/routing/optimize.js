@@ -0,0 +1,97 @@
+// Fastest visiting order for a day's stops, given a travel time matrix.
+// Stops are grouped by time period: periods keep their order, a stop never
+// leaves its period, and the optional end stop (the accommodation) stays last.
+
+// Held-Karp is O(2^n * n^2) per period; larger periods keep the given order
+const MAX_PERIOD_SIZE = 9;
+
+/**
+ * @param {Array<Array<number|null>>} durations - Seconds from [i] to [j], null when unreachable
+ * @param {number[][]} periods - Matrix indices of each period's stops, in the current order
+ * @param {number|null} end - Matrix index of the fixed last stop, if any
+ * @returns {{ periods: number[][], duration: number, originalDuration: number }}
+ */
+export function optimizeDayOrder(durations, periods, end = null) {
+  const cost = (from, to) => (from === null ? 0 : durations[from]?.[to] ?? Infinity);
+
+  const pathCost = (stops) => {
+    let total = 0;
+    for (let i = 1; i < stops.length; i++) total += cost(stops[i - 1], stops[i]);
+    return total;
+  };
+
+  // Best order of `stops` when arriving from `from`, for each possible last stop
+  const bestPathsFrom = (from, stops) => {
+    if (stops.length > MAX_PERIOD_SIZE) {
+      return new Map([[stops[stops.length - 1], { cost: cost(from, stops[0]) + pathCost(stops), order: stops }]]);
+    }
+
+    const n = stops.length;
+    const full = (1 << n) - 1;
+    const best = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+    const parent = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+    for (let i = 0; i < n; i++) best[1 << i][i] = cost(from, stops[i]);
+
+    for (let mask = 1; mask <= full; mask++) {
+      for (let last = 0; last < n; last++) {
+        if (!(mask & (1 << last)) || best[mask][last] === Infinity) continue;
+        for (let next = 0; next < n; next++) {
+          if (mask & (1 << next)) continue;
+          const candidate = best[mask][last] + cost(stops[last], stops[next]);
+          const nextMask = mask | (1 << next);
+          if (candidate < best[nextMask][next]) {
+            best[nextMask][next] = candidate;
+            parent[nextMask][next] = last;
+          }
+        }
+      }
+    }
+
+    const paths = new Map();
+    for (let last = 0; last < n; last++) {
+      if (best[full][last] === Infinity) continue;
+      const order = [];
+      for (let mask = full, i = last; i !== -1; ) {
+        order.unshift(stops[i]);
+        const previous = parent[mask][i];
+        mask &= ~(1 << i);
+        i = previous;
+      }
+      paths.set(stops[last], { cost: best[full][last], order });
+    }
+    return paths;
+  };
+
+  // Dynamic programming over periods, keyed by the stop the day has reached so far
+  let states = new Map([[null, { cost: 0, periods: [] }]]);
+  for (const stops of periods) {
+    if (stops.length === 0) {
+      for (const state of states.values()) state.periods = [...state.periods, []];
+      continue;
+    }
+
+    const next = new Map();
+    for (const [from, state] of states) {
+      for (const [last, path] of bestPathsFrom(from, stops)) {
+        const total = state.cost + path.cost;
+        if (total < (next.get(last)?.cost ?? Infinity)) {
+          next.set(last, { cost: total, periods: [...state.periods, path.order] });
+        }
+      }
+    }
+    states = next;
+  }
+
+  let best = { cost: Infinity, periods };
+  for (const [last, state] of states) {
+    const total = state.cost + (end === null ? 0 : cost(last, end));
+    if (total < best.cost) best = { cost: total, periods: state.periods };
+  }
+
+  const original = periods.flat();
+  return {
+    periods: best.periods,
+    duration: best.cost,
+    originalDuration: pathCost(end === null ? original : [...original, end]),
+  };
+}
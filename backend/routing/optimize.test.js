@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeDayOrder } from './optimize.js';
+
+// Travel time between points on a line is the distance between their positions
+const lineMatrix = (positions) => positions.map((a) => positions.map((b) => Math.abs(a - b)));
+
+describe('optimizeDayOrder', () => {
+  it('should remove zig-zags inside a period', () => {
+    const durations = lineMatrix([0, 30, 10, 20, 40]);
+
+    expect(optimizeDayOrder(durations, [[0, 1, 2, 3]], 4)).toEqual({
+      periods: [[0, 2, 3, 1]],
+      duration: 40,
+      originalDuration: 80,
+    });
+  });
+
+  it('should keep stops in their period and the end stop last', () => {
+    // The evening stop (3) is next to the first morning stop, so the morning ends there
+    const durations = lineMatrix([0, 20, 10, 1, 25]);
+
+    const result = optimizeDayOrder(durations, [[0, 1, 2], [3]], 4);
+
+    expect(result.periods).toEqual([[1, 2, 0], [3]]);
+    expect(result.duration).toBe(10 + 10 + 1 + 24);
+  });
+
+  it('should keep empty periods and report unreachable days', () => {
+    const durations = [[0, null], [null, 0]];
+
+    const result = optimizeDayOrder(durations, [[0], [], [1]]);
+
+    expect(result.periods).toEqual([[0], [], [1]]);
+    expect(result.duration).toBe(Infinity);
+  });
+});
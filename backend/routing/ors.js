@@ -0,0 +1,124 @@
+// OpenRouteService adapter (https://openrouteservice.org)
+
+import { upstreamError } from './http.js';
+
+const ORS_BASE_URL = 'https://api.openrouteservice.org';
+
+// ORS step types, by their numeric code
+const ORS_MANEUVERS = [
+  'left',
+  'right',
+  'sharp-left',
+  'sharp-right',
+  'slight-left',
+  'slight-right',
+  'straight',
+  'roundabout',
+  'exit-roundabout',
+  'u-turn',
+  'arrive',
+  'depart',
+  'keep-left',
+  'keep-right',
+];
+
+// Every segment ends with a "goal" step; only the last one is the destination
+function stepsFromSegments(segments) {
+  return segments.flatMap((segment, i) =>
+    (segment.steps ?? []).map((step) => {
+      const maneuver = ORS_MANEUVERS[step.type] ?? 'other';
+      return {
+        instruction: step.instruction,
+        name: step.name === '-' ? '' : (step.name ?? ''),
+        maneuver: maneuver === 'arrive' && i < segments.length - 1 ? 'waypoint' : maneuver,
+        distance: step.distance ?? 0,
+        duration: step.duration ?? 0,
+        wayPoints: step.way_points,
+      };
+    })
+  );
+}
+
+export function createOrsRouting({ apiKey, baseUrl = ORS_BASE_URL, fetchImpl = fetch }) {
+  return {
+    name: 'ors',
+    configured: Boolean(apiKey),
+
+    async route({ profile, waypoints, alternatives = false }) {
+      const orsUrl = `${baseUrl}/v2/directions/${encodeURIComponent(profile)}/geojson`;
+
+      // The key goes in a header so it never shows up in URLs or request logs
+      const response = await fetchImpl(orsUrl, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/geo+json',
+          'Content-Type': 'application/json',
+          'Authorization': apiKey,
+        },
+        body: JSON.stringify({
+          coordinates: waypoints.map(({ lng, lat }) => [lng, lat]),
+          // ORS only computes alternatives between two points; the count includes the main route
+          ...(alternatives && waypoints.length === 2 && { alternative_routes: { target_count: 3 } }),
+        }),
+      });
+
+      if (!response.ok) throw await upstreamError(response);
+
+      const data = await response.json();
+      const [feature, ...others] = data.features ?? [];
+      if (!feature) return null;
+
+      // ORS leaves out zero distances and durations
+      const { summary, segments = [] } = feature.properties;
+      return {
+        distance: summary.distance ?? 0,
+        duration: summary.duration ?? 0,
+        geometry: feature.geometry.coordinates,
+        legs: segments.map((segment) => ({ distance: segment.distance ?? 0, duration: segment.duration ?? 0 })),
+        steps: stepsFromSegments(segments),
+        alternatives: others.map((other) => ({
+          distance: other.properties.summary.distance ?? 0,
+          duration: other.properties.summary.duration ?? 0,
+          geometry: other.geometry.coordinates,
+        })),
+      };
+    },
+
+    async matrix({ profile, locations }) {
+      const response = await fetchImpl(`${baseUrl}/v2/matrix/${encodeURIComponent(profile)}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'Authorization': apiKey,
+        },
+        body: JSON.stringify({ locations: locations.map(({ lng, lat }) => [lng, lat]), metrics: ['duration'] }),
+      });
+
+      if (!response.ok) throw await upstreamError(response);
+      return (await response.json()).durations;
+    },
+
+    async isochrone({ profile, location, minutes }) {
+      const response = await fetchImpl(`${baseUrl}/v2/isochrones/${encodeURIComponent(profile)}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/geo+json',
+          'Content-Type': 'application/json',
+          'Authorization': apiKey,
+        },
+        body: JSON.stringify({
+          locations: [[location.lng, location.lat]],
+          range: minutes.map((limit) => limit * 60),
+          range_type: 'time',
+        }),
+      });
+      if (!response.ok) throw await upstreamError(response);
+
+      const { features = [] } = await response.json();
+      return features
+        .map((feature) => ({ minutes: feature.properties.value / 60, rings: feature.geometry.coordinates }))
+        .sort((a, b) => a.minutes - b.minutes);
+    },
+  };
+}
@@ -0,0 +1,98 @@
+// Self-hosted OSRM adapter (http://project-osrm.org). An OSRM server usually
+// serves a single profile; the profile in the URL only matters behind a
+// gateway that routes /car, /foot and /bike to separate instances.
+
+import { upstreamError } from './http.js';
+import { describeManeuver } from './maneuvers.js';
+
+const OSRM_PROFILES = {
+  'driving-car': 'car',
+  'foot-walking': 'foot',
+  'cycling-regular': 'bike',
+};
+
+// OSRM answers these codes when the points are valid but cannot be connected
+const NO_ROUTE_CODES = ['NoRoute', 'NoSegment'];
+
+const ROUNDABOUT_TYPES = ['roundabout', 'rotary', 'roundabout turn'];
+const EXIT_ROUNDABOUT_TYPES = ['exit roundabout', 'exit rotary'];
+const FORK_TYPES = ['fork', 'on ramp', 'off ramp'];
+
+// OSRM describes a maneuver as a type plus a direction modifier
+function toManeuver({ type, modifier }, isLastLeg) {
+  if (type === 'depart') return 'depart';
+  if (type === 'arrive') return isLastLeg ? 'arrive' : 'waypoint';
+  if (ROUNDABOUT_TYPES.includes(type)) return 'roundabout';
+  if (EXIT_ROUNDABOUT_TYPES.includes(type)) return 'exit-roundabout';
+  if (FORK_TYPES.includes(type) && modifier?.includes('left')) return 'keep-left';
+  if (FORK_TYPES.includes(type) && modifier?.includes('right')) return 'keep-right';
+  if (modifier === 'uturn') return 'u-turn';
+  return modifier ? modifier.replace(' ', '-') : 'other';
+}
+
+// OSRM steps carry their own geometry instead of indices into the route's.
+// Consecutive steps share their boundary point, and an arrival is a single point.
+function stepsFromLegs(legs, geometryLength) {
+  const lastIndex = Math.max(geometryLength - 1, 0);
+  let offset = 0;
+  return legs.flatMap((leg, i) =>
+    (leg.steps ?? []).map((step) => {
+      const from = Math.min(offset, lastIndex);
+      if (step.maneuver.type !== 'arrive') offset += Math.max(step.geometry.coordinates.length - 1, 0);
+      const maneuver = toManeuver(step.maneuver, i === legs.length - 1);
+      return {
+        instruction: describeManeuver(maneuver, step.name, { exit: step.maneuver.exit }),
+        name: step.name ?? '',
+        maneuver,
+        distance: step.distance,
+        duration: step.duration,
+        wayPoints: [from, Math.min(offset, lastIndex)],
+      };
+    })
+  );
+}
+
+export function createOsrmRouting({ baseUrl, fetchImpl = fetch }) {
+  return {
+    name: 'osrm',
+    configured: Boolean(baseUrl),
+
+    async route({ profile, waypoints, alternatives = false }) {
+      const coordinates = waypoints.map(({ lng, lat }) => `${lng},${lat}`).join(';');
+      let url = `${baseUrl.replace(/\/$/, '')}/route/v1/${OSRM_PROFILES[profile]}/${coordinates}?overview=full&geometries=geojson&steps=true`;
+      // OSRM only computes alternatives between two points
+      if (alternatives && waypoints.length === 2) url += '&alternatives=2';
+
+      const response = await fetchImpl(url);
+      const data = await response.clone().json().catch(() => null);
+
+      if (NO_ROUTE_CODES.includes(data?.code)) return null;
+      if (!response.ok) throw await upstreamError(response);
+
+      const [route, ...others] = data?.routes ?? [];
+      if (!route) return null;
+
+      return {
+        distance: route.distance,
+        duration: route.duration,
+        geometry: route.geometry.coordinates,
+        legs: route.legs.map((leg) => ({ distance: leg.distance, duration: leg.duration })),
+        steps: stepsFromLegs(route.legs, route.geometry.coordinates.length),
+        alternatives: others.map((other) => ({
+          distance: other.distance,
+          duration: other.duration,
+          geometry: other.geometry.coordinates,
+        })),
+      };
+    },
+
+    async matrix({ profile, locations }) {
+      const coordinates = locations.map(({ lng, lat }) => `${lng},${lat}`).join(';');
+      const url = `${baseUrl.replace(/\/$/, '')}/table/v1/${OSRM_PROFILES[profile]}/${coordinates}?annotations=duration`;
+
+      const response = await fetchImpl(url);
+      if (!response.ok) throw await upstreamError(response);
+      return (await response.json()).durations;
+    },
+  };
+}
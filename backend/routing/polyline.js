@@ -0,0 +1,29 @@
+// Decode an encoded polyline (https://developers.google.com/maps/documentation/utilities/polylinealgorithm)
+// into [lng, lat] pairs. Valhalla encodes with 6 decimal places instead of 5.
+export function decodePolyline(encoded, precision = 5) {
+  const factor = 10 ** precision;
+  const coordinates = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
@@ -0,0 +1,355 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createFixtureRouting,
+  createGraphHopperRouting,
+  createOrsRouting,
+  createOsrmRouting,
+  createRoutingProvider,
+  createValhallaRouting,
+} from './index.js';
+import { describeManeuver, MANEUVERS } from './maneuvers.js';
+import { decodePolyline } from './polyline.js';
+
+const waypoints = [{ lng: 2.2945, lat: 48.8584 }, { lng: 2.3376, lat: 48.8606 }];
+const geometry = [[2.2945, 48.8584], [2.3376, 48.8606]];
+
+const jsonFetch = (body, status = 200) => vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe('createOrsRouting', () => {
+  it('should send the API key in the Authorization header, not the URL', async () => {
+    const fetchImpl = jsonFetch({
+      features: [{
+        properties: { summary: { distance: 3400, duration: 2520 }, segments: [{ distance: 3400, duration: 2520 }] },
+        geometry: { coordinates: geometry },
+      }],
+    });
+    const routing = createOrsRouting({ apiKey: 'secret-key', fetchImpl });
+
+    const route = await routing.route({ profile: 'foot-walking', waypoints });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://api.openrouteservice.org/v2/directions/foot-walking/geojson');
+    expect(init.headers.Authorization).toBe('secret-key');
+    expect(JSON.parse(init.body)).toEqual({ coordinates: geometry });
+    expect(route).toEqual({ distance: 3400, duration: 2520, geometry, legs: [{ distance: 3400, duration: 2520 }], steps: [], alternatives: [] });
+  });
+
+  it('should ask for alternative routes between two points', async () => {
+    const feature = (distance) => ({ properties: { summary: { distance, duration: distance / 2 } }, geometry: { coordinates: geometry } });
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ features: [feature(3400), feature(3900)] })));
+    const routing = createOrsRouting({ apiKey: 'key', fetchImpl });
+
+    const route = await routing.route({ profile: 'driving-car', waypoints, alternatives: true });
+
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body).alternative_routes).toEqual({ target_count: 3 });
+    expect(route.distance).toBe(3400);
+    expect(route.alternatives).toEqual([{ distance: 3900, duration: 1950, geometry }]);
+
+    await routing.route({ profile: 'driving-car', waypoints: [...waypoints, waypoints[0]], alternatives: true });
+    expect(JSON.parse(fetchImpl.mock.calls[1][1].body).alternative_routes).toBeUndefined();
+  });
+
+  it('should map segment steps, marking arrivals before the last stop as waypoints', async () => {
+    const step = (type, name, way_points) => ({ type, name, instruction: `Step ${type}`, distance: 100, duration: 60, way_points });
+    const fetchImpl = jsonFetch({
+      features: [{
+        properties: {
+          summary: { distance: 200, duration: 120 },
+          segments: [
+            { distance: 100, duration: 60, steps: [step(11, 'Quai Branly', [0, 1]), step(10, '-', [1, 1])] },
+            { distance: 100, duration: 60, steps: [step(12, 'Rue de Rivoli', [1, 2]), step(10, '-', [2, 2])] },
+          ],
+        },
+        geometry: { coordinates: [...geometry, [2.3522, 48.8566]] },
+      }],
+    });
+    const routing = createOrsRouting({ apiKey: 'key', fetchImpl });
+
+    const route = await routing.route({ profile: 'driving-car', waypoints: [...waypoints, { lng: 2.3522, lat: 48.8566 }] });
+
+    expect(route.steps.map((s) => [s.maneuver, s.name, s.wayPoints])).toEqual([
+      ['depart', 'Quai Branly', [0, 1]],
+      ['waypoint', '', [1, 1]],
+      ['keep-left', 'Rue de Rivoli', [1, 2]],
+      ['arrive', '', [2, 2]],
+    ]);
+    expect(route.steps[0]).toMatchObject({ instruction: 'Step 11', distance: 100, duration: 60 });
+  });
+
+  it('should throw with the upstream status when the request fails', async () => {
+    const routing = createOrsRouting({ apiKey: 'key', fetchImpl: jsonFetch({ error: 'quota' }, 429) });
+
+    await expect(routing.route({ profile: 'driving-car', waypoints })).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('should keep the Retry-After of a rate limited request', async () => {
+    const response = new Response(JSON.stringify({ error: 'quota' }), { status: 429, headers: { 'Retry-After': '30' } });
+    const routing = createOrsRouting({ apiKey: 'key', fetchImpl: vi.fn().mockResolvedValue(response) });
+
+    await expect(routing.route({ profile: 'driving-car', waypoints })).rejects.toMatchObject({ status: 429, retryAfter: 30 });
+  });
+});
+
+describe('createOsrmRouting', () => {
+  it('should request a GeoJSON route for the mapped profile', async () => {
+    const fetchImpl = jsonFetch({ code: 'Ok', routes: [{
+      distance: 3510.2,
+      duration: 402.5,
+      geometry: { coordinates: [geometry[0], [2.31, 48.86], geometry[1]] },
+      legs: [{ distance: 3510.2, duration: 402.5, steps: [
+        { name: 'Quai Branly', distance: 1200, duration: 140, maneuver: { type: 'depart' }, geometry: { coordinates: [geometry[0], [2.31, 48.86]] } },
+        { name: 'Rue de Rivoli', distance: 2310.2, duration: 262.5, maneuver: { type: 'turn', modifier: 'slight left' }, geometry: { coordinates: [[2.31, 48.86], geometry[1]] } },
+        { name: '', distance: 0, duration: 0, maneuver: { type: 'arrive' }, geometry: { coordinates: [geometry[1], geometry[1]] } },
+      ] }],
+    }] });
+    const routing = createOsrmRouting({ baseUrl: 'http://osrm.internal:5000/', fetchImpl });
+
+    const route = await routing.route({ profile: 'cycling-regular', waypoints });
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'http://osrm.internal:5000/route/v1/bike/2.2945,48.8584;2.3376,48.8606?overview=full&geometries=geojson&steps=true'
+    );
+    expect(route).toMatchObject({ distance: 3510.2, duration: 402.5, legs: [{ distance: 3510.2, duration: 402.5 }] });
+    expect(route.steps).toEqual([
+      { instruction: 'Head out on Quai Branly', name: 'Quai Branly', maneuver: 'depart', distance: 1200, duration: 140, wayPoints: [0, 1] },
+      { instruction: 'Turn slightly left onto Rue de Rivoli', name: 'Rue de Rivoli', maneuver: 'slight-left', distance: 2310.2, duration: 262.5, wayPoints: [1, 2] },
+      { instruction: 'Arrive at your destination', name: '', maneuver: 'arrive', distance: 0, duration: 0, wayPoints: [2, 2] },
+    ]);
+  });
+
+  it('should read alternative routes when asked for them', async () => {
+    const osrmRoute = (distance) => ({ distance, duration: distance / 10, geometry: { coordinates: geometry }, legs: [] });
+    const fetchImpl = jsonFetch({ code: 'Ok', routes: [osrmRoute(3500), osrmRoute(4100)] });
+    const routing = createOsrmRouting({ baseUrl: 'http://osrm', fetchImpl });
+
+    const route = await routing.route({ profile: 'driving-car', waypoints, alternatives: true });
+
+    expect(fetchImpl.mock.calls[0][0]).toMatch(/&alternatives=2$/);
+    expect(route.alternatives).toEqual([{ distance: 4100, duration: 410, geometry }]);
+  });
+
+  it('should return null when OSRM cannot connect the points', async () => {
+    const routing = createOsrmRouting({ baseUrl: 'http://osrm', fetchImpl: jsonFetch({ code: 'NoRoute' }, 400) });
+
+    expect(await routing.route({ profile: 'driving-car', waypoints })).toBeNull();
+  });
+});
+
+describe('createValhallaRouting', () => {
+  it('should post the locations and decode the leg shapes', async () => {
+    // Shape of [[-120.2, 38.5], [-120.95, 40.7]] at 6 decimal places
+    const maneuvers = [
+      { type: 1, instruction: 'Walk north on Main Street.', street_names: ['Main Street'], length: 3.4, time: 2520, begin_shape_index: 0, end_shape_index: 1 },
+      { type: 4, instruction: 'You have arrived at your destination.', length: 0, time: 0, begin_shape_index: 1, end_shape_index: 1 },
+    ];
+    const fetchImpl = jsonFetch({ trip: { summary: { length: 3.4, time: 2520 }, legs: [{ shape: '_izlhA~rlgdF_{geC~ywl@', summary: { length: 3.4, time: 2520 }, maneuvers }] } });
+    const routing = createValhallaRouting({ baseUrl: 'http://valhalla:8002', fetchImpl });
+
+    const route = await routing.route({ profile: 'foot-walking', waypoints });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('http://valhalla:8002/route');
+    expect(JSON.parse(init.body)).toMatchObject({
+      costing: 'pedestrian',
+      locations: [{ lat: 48.8584, lon: 2.2945 }, { lat: 48.8606, lon: 2.3376 }],
+    });
+    expect(route).toEqual({
+      distance: 3400,
+      duration: 2520,
+      geometry: [[-120.2, 38.5], [-120.95, 40.7]],
+      legs: [{ distance: 3400, duration: 2520 }],
+      steps: [
+        { instruction: 'Walk north on Main Street.', name: 'Main Street', maneuver: 'depart', distance: 3400, duration: 2520, wayPoints: [0, 1] },
+        { instruction: 'You have arrived at your destination.', name: '', maneuver: 'arrive', distance: 0, duration: 0, wayPoints: [1, 1] },
+      ],
+      alternatives: [],
+    });
+  });
+
+  it('should return null when no path is found', async () => {
+    const fetchImpl = jsonFetch({ error_code: 442, error: 'No path could be found for input' }, 400);
+    const routing = createValhallaRouting({ baseUrl: 'http://valhalla:8002', fetchImpl });
+
+    expect(await routing.route({ profile: 'driving-car', waypoints })).toBeNull();
+  });
+});
+
+describe('createGraphHopperRouting', () => {
+  it('should request points as lat,lng and split the instructions into legs', async () => {
+    const instructions = [
+      { sign: 0, text: 'Continue onto Quai Branly', street_name: 'Quai Branly', distance: 1000, time: 120000, interval: [0, 1] },
+      { sign: 5, text: 'Waypoint 1', street_name: '', distance: 0, time: 0, interval: [1, 1] },
+      { sign: 2, text: 'Turn right onto Rue de Rivoli', street_name: 'Rue de Rivoli', distance: 2600, time: 360000, interval: [1, 2] },
+      { sign: 4, text: 'Arrive at destination', street_name: '', distance: 0, time: 0, interval: [2, 2] },
+    ];
+    const fetchImpl = jsonFetch({ paths: [{ distance: 3600, time: 480000, points: { coordinates: geometry }, instructions }] });
+    const routing = createGraphHopperRouting({ apiKey: 'gh-key', fetchImpl });
+
+    const route = await routing.route({ profile: 'driving-car', waypoints: [...waypoints, { lng: 2.3522, lat: 48.8566 }] });
+
+    const url = new URL(fetchImpl.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://graphhopper.com/api/1/route');
+    expect(url.searchParams.getAll('point')).toEqual(['48.8584,2.2945', '48.8606,2.3376', '48.8566,2.3522']);
+    expect(url.searchParams.get('profile')).toBe('car');
+    expect(route).toEqual({
+      distance: 3600,
+      duration: 480,
+      geometry,
+      legs: [{ distance: 1000, duration: 120 }, { distance: 2600, duration: 360 }],
+      steps: [
+        { instruction: 'Continue onto Quai Branly', name: 'Quai Branly', maneuver: 'depart', distance: 1000, duration: 120, wayPoints: [0, 1] },
+        { instruction: 'Waypoint 1', name: '', maneuver: 'waypoint', distance: 0, duration: 0, wayPoints: [1, 1] },
+        { instruction: 'Turn right onto Rue de Rivoli', name: 'Rue de Rivoli', maneuver: 'right', distance: 2600, duration: 360, wayPoints: [1, 2] },
+        { instruction: 'Arrive at destination', name: '', maneuver: 'arrive', distance: 0, duration: 0, wayPoints: [2, 2] },
+      ],
+      alternatives: [],
+    });
+    expect(url.searchParams.has('algorithm')).toBe(false);
+  });
+
+  it('should use the alternative route algorithm when asked for alternatives', async () => {
+    const path = (distance) => ({ distance, time: distance * 100, points: { coordinates: geometry } });
+    const fetchImpl = jsonFetch({ paths: [path(3600), path(4000)] });
+    const routing = createGraphHopperRouting({ apiKey: 'gh-key', fetchImpl });
+
+    const route = await routing.route({ profile: 'driving-car', waypoints, alternatives: true });
+
+    const url = new URL(fetchImpl.mock.calls[0][0]);
+    expect(url.searchParams.get('algorithm')).toBe('alternative_route');
+    expect(route.alternatives).toEqual([{ distance: 4000, duration: 400, geometry }]);
+  });
+
+  it('should only need a URL when self-hosted', () => {
+    expect(createGraphHopperRouting({}).configured).toBe(false);
+    expect(createGraphHopperRouting({ baseUrl: 'http://graphhopper:8989' }).configured).toBe(true);
+  });
+});
+
+describe('createFixtureRouting', () => {
+  it('should return straight lines at the profile speed', async () => {
+    const route = await createFixtureRouting().route({ profile: 'foot-walking', waypoints: [...waypoints, waypoints[0]] });
+
+    expect(route.geometry).toEqual([...geometry, geometry[0]]);
+    expect(route.legs).toHaveLength(2);
+    expect(route.legs[0].distance).toBeGreaterThan(3100);
+    expect(route.legs[0].distance).toBeLessThan(3200);
+    expect(route.legs[0].duration).toBe(Math.round(route.legs[0].distance / (5 / 3.6)));
+    expect(route.distance).toBe(route.legs[0].distance * 2);
+    expect(route.steps.map((step) => [step.maneuver, step.wayPoints])).toEqual([
+      ['depart', [0, 1]],
+      ['waypoint', [1, 1]],
+      ['depart', [1, 2]],
+      ['arrive', [2, 2]],
+    ]);
+    expect(route.steps.every((step) => MANEUVERS.includes(step.maneuver))).toBe(true);
+  });
+});
+
+describe('matrix', () => {
+  it('should read OSRM table durations', async () => {
+    const fetchImpl = jsonFetch({ code: 'Ok', durations: [[0, 300], [310, 0]] });
+    const routing = createOsrmRouting({ baseUrl: 'http://osrm', fetchImpl });
+
+    expect(await routing.matrix({ profile: 'foot-walking', locations: waypoints })).toEqual([[0, 300], [310, 0]]);
+    expect(fetchImpl).toHaveBeenCalledWith('http://osrm/table/v1/foot/2.2945,48.8584;2.3376,48.8606?annotations=duration');
+  });
+
+  it('should read Valhalla sources_to_targets times', async () => {
+    const fetchImpl = jsonFetch({ sources_to_targets: [[{ time: 0 }, { time: 300 }], [{ time: null }, { time: 0 }]] });
+    const routing = createValhallaRouting({ baseUrl: 'http://valhalla:8002', fetchImpl });
+
+    expect(await routing.matrix({ profile: 'driving-car', locations: waypoints })).toEqual([[0, 300], [null, 0]]);
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toMatchObject({ costing: 'auto' });
+  });
+
+  it('should ask ORS for durations with the key in the header', async () => {
+    const fetchImpl = jsonFetch({ durations: [[0, 300], [310, 0]] });
+    const routing = createOrsRouting({ apiKey: 'secret-key', fetchImpl });
+
+    expect(await routing.matrix({ profile: 'cycling-regular', locations: waypoints })).toEqual([[0, 300], [310, 0]]);
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://api.openrouteservice.org/v2/matrix/cycling-regular');
+    expect(init.headers.Authorization).toBe('secret-key');
+  });
+});
+
+describe('isochrone', () => {
+  const location = { lng: 2.2945, lat: 48.8584 };
+  const ring = [[2.29, 48.85], [2.30, 48.86], [2.31, 48.85], [2.29, 48.85]];
+
+  it('should ask ORS for time ranges in seconds', async () => {
+    const fetchImpl = jsonFetch({ features: [
+      { properties: { value: 1200 }, geometry: { type: 'Polygon', coordinates: [ring] } },
+      { properties: { value: 600 }, geometry: { type: 'Polygon', coordinates: [ring] } },
+    ] });
+
+    const polygons = await createOrsRouting({ apiKey: 'key', fetchImpl }).isochrone({ profile: 'foot-walking', location, minutes: [10, 20] });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://api.openrouteservice.org/v2/isochrones/foot-walking');
+    expect(init.headers.Authorization).toBe('key');
+    expect(JSON.parse(init.body)).toEqual({ locations: [[2.2945, 48.8584]], range: [600, 1200], range_type: 'time' });
+    expect(polygons).toEqual([{ minutes: 10, rings: [ring] }, { minutes: 20, rings: [ring] }]);
+  });
+
+  it('should ask Valhalla for contours and keep the largest part of a MultiPolygon', async () => {
+    const fetchImpl = jsonFetch({ features: [
+      { properties: { contour: 20 }, geometry: { type: 'MultiPolygon', coordinates: [[ring], [ring.slice(1)]] } },
+      { properties: { contour: 10 }, geometry: { type: 'Polygon', coordinates: [ring] } },
+    ] });
+
+    const polygons = await createValhallaRouting({ baseUrl: 'http://valhalla:8002', fetchImpl }).isochrone({ profile: 'driving-car', location, minutes: [10, 20] });
+
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toMatchObject({ costing: 'auto', contours: [{ time: 10 }, { time: 20 }] });
+    expect(polygons).toEqual([{ minutes: 10, rings: [ring] }, { minutes: 20, rings: [ring] }]);
+  });
+
+  it('should send GraphHopper one request per limit', async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ polygons: [{ geometry: { coordinates: [ring] } }] })));
+
+    const polygons = await createGraphHopperRouting({ apiKey: 'gh-key', fetchImpl }).isochrone({ profile: 'cycling-regular', location, minutes: [10, 20] });
+
+    const urls = fetchImpl.mock.calls.map(([url]) => new URL(url));
+    expect(urls.map((url) => url.searchParams.get('time_limit'))).toEqual(['600', '1200']);
+    expect(urls[0].searchParams.get('point')).toBe('48.8584,2.2945');
+    expect(urls[0].searchParams.get('profile')).toBe('bike');
+    expect(polygons.map((polygon) => polygon.minutes)).toEqual([10, 20]);
+  });
+
+  it('should draw fixture circles as far as the profile speed goes', async () => {
+    const [polygon] = await createFixtureRouting().isochrone({ profile: 'foot-walking', location, minutes: [12] });
+
+    // 5 km/h for 12 minutes is 1 km, about 0.009 degrees of latitude
+    expect(polygon.minutes).toBe(12);
+    expect(polygon.rings[0][0]).toEqual(polygon.rings[0][polygon.rings[0].length - 1]);
+    expect(Math.max(...polygon.rings[0].map(([, lat]) => lat)) - location.lat).toBeCloseTo(0.009, 3);
+  });
+
+  it('should not be offered by OSRM', () => {
+    expect(createOsrmRouting({ baseUrl: 'http://osrm' }).isochrone).toBeUndefined();
+  });
+});
+
+describe('createRoutingProvider', () => {
+  it('should select the provider from ROUTING_PROVIDER', () => {
+    expect(createRoutingProvider({}).name).toBe('ors');
+    expect(createRoutingProvider({ ROUTING_PROVIDER: 'osrm', OSRM_URL: 'http://osrm' })).toMatchObject({ name: 'osrm', configured: true });
+    expect(createRoutingProvider({ ROUTING_PROVIDER: 'valhalla' })).toMatchObject({ name: 'valhalla', configured: false });
+    expect(() => createRoutingProvider({ ROUTING_PROVIDER: 'here' })).toThrow('Unknown ROUTING_PROVIDER: here');
+  });
+});
+
+describe('describeManeuver', () => {
+  it('should name the street the maneuver leads onto', () => {
+    expect(describeManeuver('sharp-right', 'Rue de Rivoli')).toBe('Turn sharp right onto Rue de Rivoli');
+    expect(describeManeuver('roundabout', '', { exit: 2 })).toBe('Enter the roundabout and take exit 2');
+    expect(describeManeuver('waypoint')).toBe('Arrive at the next stop');
+    expect(describeManeuver('new name', 'Avenue Foch')).toBe('Continue onto Avenue Foch');
+  });
+});
+
+describe('decodePolyline', () => {
+  it('should decode the reference polyline', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([[-120.2, 38.5], [-120.95, 40.7], [-126.453, 43.252]]);
+  });
+});
@@ -0,0 +1,125 @@
+// Self-hosted Valhalla adapter (https://valhalla.github.io/valhalla)
+
+import { upstreamError } from './http.js';
+import { decodePolyline } from './polyline.js';
+
+const VALHALLA_COSTING = {
+  'driving-car': 'auto',
+  'foot-walking': 'pedestrian',
+  'cycling-regular': 'bicycle',
+};
+
+// Valhalla error code for "No path could be found for input"
+const NO_PATH_ERROR_CODE = 442;
+
+// Valhalla maneuver types, by their numeric code (ramps and exits count as keeping to that side)
+const VALHALLA_MANEUVERS = {
+  1: 'depart', 2: 'depart', 3: 'depart',
+  4: 'arrive', 5: 'arrive', 6: 'arrive',
+  7: 'straight', 8: 'straight', 17: 'straight', 22: 'straight', 25: 'straight',
+  9: 'slight-right', 10: 'right', 11: 'sharp-right',
+  12: 'u-turn', 13: 'u-turn',
+  14: 'sharp-left', 15: 'left', 16: 'slight-left',
+  18: 'keep-right', 20: 'keep-right', 23: 'keep-right',
+  19: 'keep-left', 21: 'keep-left', 24: 'keep-left',
+  26: 'roundabout', 27: 'exit-roundabout',
+};
+
+// Maneuver shape indices are per leg, so shift them by the points of the legs before
+function stepsFromLegs(legs, shapes) {
+  let offset = 0;
+  return legs.flatMap((leg, i) => {
+    const legOffset = offset;
+    offset += shapes[i].length;
+    return (leg.maneuvers ?? []).map((step) => {
+      const maneuver = VALHALLA_MANEUVERS[step.type] ?? 'other';
+      return {
+        instruction: step.instruction,
+        name: step.street_names?.[0] ?? '',
+        maneuver: maneuver === 'arrive' && i < legs.length - 1 ? 'waypoint' : maneuver,
+        distance: step.length * 1000,
+        duration: step.time,
+        wayPoints: [legOffset + step.begin_shape_index, legOffset + step.end_shape_index],
+      };
+    });
+  });
+}
+
+export function createValhallaRouting({ baseUrl, fetchImpl = fetch }) {
+  return {
+    name: 'valhalla',
+    configured: Boolean(baseUrl),
+
+    async route({ profile, waypoints, alternatives = false }) {
+      const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/route`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: waypoints.map(({ lng, lat }) => ({ lat, lon: lng })),
+          costing: VALHALLA_COSTING[profile],
+          units: 'kilometers',
+          // Valhalla only computes alternates between two locations
+          ...(alternatives && waypoints.length === 2 && { alternates: 2 }),
+        }),
+      });
+      const data = await response.clone().json().catch(() => null);
+
+      if (data?.error_code === NO_PATH_ERROR_CODE) return null;
+      if (!response.ok) throw await upstreamError(response);
+
+      const trip = data?.trip;
+      if (!trip?.legs?.length) return null;
+
+      // Shapes are polylines with 6 decimal places, one per leg
+      const shapes = trip.legs.map((leg) => decodePolyline(leg.shape, 6));
+      return {
+        distance: trip.summary.length * 1000,
+        duration: trip.summary.time,
+        geometry: shapes.flat(),
+        legs: trip.legs.map((leg) => ({ distance: leg.summary.length * 1000, duration: leg.summary.time })),
+        steps: stepsFromLegs(trip.legs, shapes),
+        alternatives: (data.alternates ?? []).map(({ trip: other }) => ({
+          distance: other.summary.length * 1000,
+          duration: other.summary.time,
+          geometry: other.legs.flatMap((leg) => decodePolyline(leg.shape, 6)),
+        })),
+      };
+    },
+
+    async matrix({ profile, locations }) {
+      const points = locations.map(({ lng, lat }) => ({ lat, lon: lng }));
+      const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/sources_to_targets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sources: points, targets: points, costing: VALHALLA_COSTING[profile] }),
+      });
+
+      if (!response.ok) throw await upstreamError(response);
+      const data = await response.json();
+      return data.sources_to_targets.map((row) => row.map((cell) => cell.time ?? null));
+    },
+
+    async isochrone({ profile, location, minutes }) {
+      const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/isochrone`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: [{ lat: location.lat, lon: location.lng }],
+          costing: VALHALLA_COSTING[profile],
+          contours: minutes.map((time) => ({ time })),
+          polygons: true,
+        }),
+      });
+      if (!response.ok) throw await upstreamError(response);
+
+      // Contours come back largest first; a MultiPolygon keeps its biggest part
+      const { features = [] } = await response.json();
+      return features
+        .map(({ properties, geometry }) => ({
+          minutes: properties.contour,
+          rings: geometry.type === 'MultiPolygon' ? geometry.coordinates[0] : geometry.coordinates,
+        }))
+        .sort((a, b) => a.minutes - b.minutes);
+    },
+  };
+}
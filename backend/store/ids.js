@@ -0,0 +1,7 @@
+// Conversation ids are uuid columns in the postgres and supabase schemas, and
+// Postgres rejects anything else with an error instead of finding nothing, so
+// those stores treat other ids as missing conversations.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (id) => typeof id === 'string' && UUID_PATTERN.test(id);
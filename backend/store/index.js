@@ -0,0 +1,54 @@
+import { createClient } from '@supabase/supabase-js';
+import { createSql } from '../db.js';
+import { createSupabaseStore } from './supabase.js';
+import { createPostgresStore } from './postgres.js';
+import { createSqliteStore } from './sqlite.js';
+import { createMemoryStore } from './memory.js';
+
+// A conversation store exposes:
+//   name
+//   createConversation({ title, ownerId })                      -> Promise<conversation>
+//   getConversation(conversationId)                             -> Promise<conversation | null>
+//   renameConversation(conversationId, title)                   -> Promise<conversation | null>, null when it does not exist
+//   setPlaceChoices(conversationId, placeChoices)               -> Promise<conversation | null>, null when it does not exist
+//   appendMessage(conversationId, { role, content, mapAction, places, followUpSuggestions }) -> Promise<message>
+//   listConversations(ownerId)                                  -> Promise<conversation[]> of that owner, most recently updated first
+//   getMessages(conversationId)                                 -> Promise<message[]>, oldest first
+//   deleteConversation(conversationId)                          -> Promise<void>, also deletes its messages
+// Rows use the column names from migrations/:
+//   conversation { id, owner_id, title, place_choices, created_at, updated_at }
+//   message      { id, conversation_id, role, content, map_action, places, follow_up_suggestions, created_at }
+// Appending a message moves the conversation's updated_at to the message time.
+
+/**
+ * Create the store selected by STORE_PROVIDER (supabase, postgres, sqlite or memory).
+ */
+export function createConversationStore(env = process.env) {
+  const provider = env.STORE_PROVIDER || 'supabase';
+
+  switch (provider) {
+    case 'supabase':
+      // Not the anon key: that one is handed to every browser, and the tables
+      // only let the service role in (migrations/postgres/006_row_level_security.sql)
+      if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('The supabase store requires SUPABASE_SERVICE_ROLE_KEY');
+      }
+      return createSupabaseStore(createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      }));
+
+    case 'postgres':
+      return createPostgresStore(createSql(env.DATABASE_URL));
+
+    case 'sqlite':
+      return createSqliteStore({ filename: env.SQLITE_PATH || 'mapgpt.db' });
+
+    case 'memory':
+      return createMemoryStore();
+
+    default:
+      throw new Error(`Unknown STORE_PROVIDER: ${provider}`);
+  }
+}
+
+export { createSupabaseStore, createPostgresStore, createSqliteStore, createMemoryStore };
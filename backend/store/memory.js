@@ -0,0 +1,77 @@
+import { randomUUID } from 'node:crypto';
+
+// Conversation store that keeps everything in process memory. Used by the
+// tests and handy for local development; nothing survives a restart.
+
+export function createMemoryStore() {
+  let conversations = [];
+  let messages = [];
+
+  return {
+    name: 'memory',
+
+    async createConversation({ title, ownerId = null }) {
+      const now = new Date().toISOString();
+      const conversation = { id: randomUUID(), owner_id: ownerId, title, place_choices: null, created_at: now, updated_at: now };
+      conversations.push(conversation);
+      return { ...conversation };
+    },
+
+    async getConversation(conversationId) {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      return conversation ? { ...conversation } : null;
+    },
+
+    async renameConversation(conversationId, title) {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      if (!conversation) return null;
+      conversation.title = title;
+      return { ...conversation };
+    },
+
+    async setPlaceChoices(conversationId, placeChoices) {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      if (!conversation) return null;
+      conversation.place_choices = placeChoices;
+      return { ...conversation };
+    },
+
+    async appendMessage(conversationId, { role, content, mapAction = null, places = null, followUpSuggestions = null }) {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      if (!conversation) throw new Error(`Conversation ${conversationId} does not exist`);
+
+      const message = {
+        id: randomUUID(),
+        conversation_id: conversationId,
+        role,
+        content,
+        map_action: mapAction,
+        places,
+        follow_up_suggestions: followUpSuggestions,
+        created_at: new Date().toISOString(),
+      };
+      messages.push(message);
+      conversation.updated_at = message.created_at;
+      // Keep the most recently touched conversation last so ties sort like insertion order
+      conversations = [...conversations.filter((c) => c !== conversation), conversation];
+      return { ...message };
+    },
+
+    async listConversations(ownerId) {
+      return conversations
+        .filter((c) => c.owner_id === ownerId)
+        .reverse()
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .map((c) => ({ ...c }));
+    },
+
+    async getMessages(conversationId) {
+      return messages.filter((m) => m.conversation_id === conversationId).map((m) => ({ ...m }));
+    },
+
+    async deleteConversation(conversationId) {
+      conversations = conversations.filter((c) => c.id !== conversationId);
+      messages = messages.filter((m) => m.conversation_id !== conversationId);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { isUuid } from './ids.js';
+
+// Conversation store backed by a `postgres` client (see db.js). Expects the
+// schema from migrations/postgres.
+
+export function createPostgresStore(sql) {
+  return {
+    name: 'postgres',
+
+    async createConversation({ title, ownerId = null }) {
+      const [conversation] = await sql`
+        insert into conversations (title, owner_id) values (${title}, ${ownerId})
+        returning *
+      `;
+      return conversation;
+    },
+
+    async getConversation(conversationId) {
+      if (!isUuid(conversationId)) return null;
+      const [conversation] = await sql`select * from conversations where id = ${conversationId}`;
+      return conversation ?? null;
+    },
+
+    async renameConversation(conversationId, title) {
+      if (!isUuid(conversationId)) return null;
+      const [conversation] = await sql`
+        update conversations set title = ${title} where id = ${conversationId}
+        returning *
+      `;
+      return conversation ?? null;
+    },
+
+    async setPlaceChoices(conversationId, placeChoices) {
+      if (!isUuid(conversationId)) return null;
+      const [conversation] = await sql`
+        update conversations set place_choices = ${sql.json(placeChoices)} where id = ${conversationId}
+        returning *
+      `;
+      return conversation ?? null;
+    },
+
+    async appendMessage(conversationId, { role, content, mapAction = null, places = null, followUpSuggestions = null }) {
+      const json = (value) => (value === null ? null : sql.json(value));
+      const [message] = await sql`
+        insert into messages (conversation_id, role, content, map_action, places, follow_up_suggestions)
+        values (${conversationId}, ${role}, ${content}, ${json(mapAction)}, ${json(places)}, ${json(followUpSuggestions)})
+        returning *
+      `;
+      return message;
+    },
+
+    async listConversations(ownerId) {
+      return [...await sql`
+        select * from conversations
+        where owner_id = ${ownerId}
+        order by updated_at desc
+      `];
+    },
+
+    async getMessages(conversationId) {
+      if (!isUuid(conversationId)) return [];
+      return [...await sql`
+        select * from messages
+        where conversation_id = ${conversationId}
+        order by created_at asc
+      `];
+    },
+
+    async deleteConversation(conversationId) {
+      if (!isUuid(conversationId)) return;
+      await sql`delete from conversations where id = ${conversationId}`;
+    },
+  };
+}
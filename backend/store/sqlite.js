@@ -0,0 +1,127 @@
+import { randomUUID } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+
+// Conversation store backed by a local SQLite file, for self-hosting without a
+// database server. better-sqlite3 is an optional dependency, so it is only
+// loaded when this store is used.
+
+const MIGRATIONS_DIR = new URL('../migrations/sqlite/', import.meta.url);
+
+// Apply migrations/sqlite/*.sql in order, tracking progress in user_version
+function migrate(db) {
+  const files = readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith('.sql')).sort();
+  const applied = db.pragma('user_version', { simple: true });
+
+  files.slice(applied).forEach((file, i) => {
+    db.transaction(() => {
+      db.exec(readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8'));
+      db.pragma(`user_version = ${applied + i + 1}`);
+    })();
+  });
+}
+
+// Open a database with every migration applied, also used by the geocode cache
+export async function openDatabase(filename) {
+  let Database;
+  try {
+    ({ default: Database } = await import('better-sqlite3'));
+  } catch (error) {
+    throw new Error(`The sqlite store requires the better-sqlite3 package: ${error.message}`);
+  }
+
+  const db = new Database(filename);
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+const JSON_COLUMNS = ['map_action', 'places', 'follow_up_suggestions'];
+
+const toMessage = (row) => ({
+  ...row,
+  ...Object.fromEntries(JSON_COLUMNS.map((column) => [column, row[column] === null ? null : JSON.parse(row[column])])),
+});
+
+const toConversation = (row) => row && {
+  ...row,
+  place_choices: row.place_choices === null ? null : JSON.parse(row.place_choices),
+};
+
+const toJson = (value) => (value === null ? null : JSON.stringify(value));
+
+export function createSqliteStore({ filename = 'mapgpt.db' } = {}) {
+  let opening;
+  const open = () => (opening ??= openDatabase(filename));
+
+  return {
+    name: 'sqlite',
+
+    async createConversation({ title, ownerId = null }) {
+      const db = await open();
+      const now = new Date().toISOString();
+      return toConversation(db
+        .prepare('insert into conversations (id, owner_id, title, created_at, updated_at) values (?, ?, ?, ?, ?) returning *')
+        .get(randomUUID(), ownerId, title, now, now));
+    },
+
+    async getConversation(conversationId) {
+      const db = await open();
+      return toConversation(db.prepare('select * from conversations where id = ?').get(conversationId)) ?? null;
+    },
+
+    async renameConversation(conversationId, title) {
+      const db = await open();
+      return toConversation(db.prepare('update conversations set title = ? where id = ? returning *').get(title, conversationId)) ?? null;
+    },
+
+    async setPlaceChoices(conversationId, placeChoices) {
+      const db = await open();
+      return toConversation(db
+        .prepare('update conversations set place_choices = ? where id = ? returning *')
+        .get(toJson(placeChoices), conversationId)) ?? null;
+    },
+
+    async appendMessage(conversationId, { role, content, mapAction = null, places = null, followUpSuggestions = null }) {
+      const db = await open();
+      const row = db
+        .prepare(`
+          insert into messages (id, conversation_id, role, content, map_action, places, follow_up_suggestions, created_at)
+          values (?, ?, ?, ?, ?, ?, ?, ?)
+          returning *
+        `)
+        .get(
+          randomUUID(),
+          conversationId,
+          role,
+          content,
+          toJson(mapAction),
+          toJson(places),
+          toJson(followUpSuggestions),
+          new Date().toISOString()
+        );
+      return toMessage(row);
+    },
+
+    async listConversations(ownerId) {
+      const db = await open();
+      // rowid breaks ties between rows written in the same millisecond
+      return db
+        .prepare('select * from conversations where owner_id = ? order by updated_at desc, rowid desc')
+        .all(ownerId)
+        .map(toConversation);
+    },
+
+    async getMessages(conversationId) {
+      const db = await open();
+      return db
+        .prepare('select * from messages where conversation_id = ? order by created_at asc, rowid asc')
+        .all(conversationId)
+        .map(toMessage);
+    },
+
+    async deleteConversation(conversationId) {
+      const db = await open();
+      db.prepare('delete from conversations where id = ?').run(conversationId);
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFakeSupabase } from '../test/fakeSupabase.js';
+import { createConversationStore } from './index.js';
+import { createMemoryStore } from './memory.js';
+import { createPostgresStore } from './postgres.js';
+import { createSqliteStore } from './sqlite.js';
+import { createSupabaseStore } from './supabase.js';
+
+// The postgres store shares its SQL schema with supabase and needs a running
+// server, so only its id check is covered here, at the end, next to the
+// supabase one.
+const stores = [
+  ['memory', () => createMemoryStore()],
+  ['sqlite', () => createSqliteStore({ filename: ':memory:' })],
+  ['supabase', () => createSupabaseStore(createFakeSupabase())],
+];
+
+const ownerId = 'device:test-device-0123456789';
+const mapAction = { action: 'directions', origin: 'Eiffel Tower, Paris, France', destination: 'Louvre Museum, Paris, France' };
+
+describe.each(stores)('%s conversation store', (_name, createStore) => {
+  it('should create a conversation', async () => {
+    const store = createStore();
+
+    const conversation = await store.createConversation({ title: 'Paris trip', ownerId });
+
+    expect(conversation).toMatchObject({ id: expect.any(String), owner_id: ownerId, title: 'Paris trip' });
+    expect(conversation.created_at).toBeTruthy();
+    expect(conversation.updated_at).toBeTruthy();
+  });
+
+  it('should rename a conversation', async () => {
+    const store = createStore();
+    const { id } = await store.createConversation({ title: 'Paris trip', ownerId });
+
+    const renamed = await store.renameConversation(id, 'Paris in spring');
+
+    expect(renamed).toMatchObject({ id, title: 'Paris in spring' });
+    expect((await store.listConversations(ownerId))[0].title).toBe('Paris in spring');
+  });
+
+  it('should return null when renaming a missing conversation', async () => {
+    const store = createStore();
+
+    expect(await store.renameConversation('00000000-0000-0000-0000-000000000000', 'Nowhere')).toBeNull();
+  });
+
+  it('should keep the places picked in a conversation', async () => {
+    const store = createStore();
+    const { id } = await store.createConversation({ title: 'Paris trip', ownerId });
+    const placeChoices = { 'old town': { id: 'osm:node:1', displayName: 'Vieux Paris', location: { lat: 48.85, lng: 2.35 } } };
+
+    expect(await store.setPlaceChoices(id, placeChoices)).toMatchObject({ id, place_choices: placeChoices });
+    expect((await store.getConversation(id)).place_choices).toEqual(placeChoices);
+    expect((await store.listConversations(ownerId))[0].place_choices).toEqual(placeChoices);
+    expect(await store.setPlaceChoices('00000000-0000-0000-0000-000000000000', placeChoices)).toBeNull();
+  });
+
+  it('should append messages and return them oldest first', async () => {
+    const store = createStore();
+    const { id } = await store.createConversation({ title: 'Paris trip', ownerId });
+
+    const user = await store.appendMessage(id, { role: 'user', content: 'Route to the Louvre' });
+    await store.appendMessage(id, { role: 'assistant', content: 'Here is the route', mapAction });
+
+    expect(user).toMatchObject({ conversation_id: id, role: 'user', content: 'Route to the Louvre', map_action: null });
+    const messages = await store.getMessages(id);
+    expect(messages.map((m) => m.content)).toEqual(['Route to the Louvre', 'Here is the route']);
+    expect(messages[1].map_action).toEqual(mapAction);
+  });
+
+  it('should keep the structured payload of assistant messages', async () => {
+    const store = createStore();
+    const { id } = await store.createConversation({ title: 'Paris trip', ownerId });
+    const places = { days: [{ key: 'Day 1', periods: { Morning: [{ options: ['Louvre Museum, Paris, France'], optional: false }] } }] };
+
+    await store.appendMessage(id, { role: 'user', content: 'Plan a day' });
+    await store.appendMessage(id, { role: 'assistant', content: 'Here is your day', places, followUpSuggestions: ['Add dinner'] });
+
+    const [user, assistant] = await store.getMessages(id);
+    expect(user).toMatchObject({ places: null, follow_up_suggestions: null });
+    expect(assistant).toMatchObject({ places, follow_up_suggestions: ['Add dinner'] });
+  });
+
+  it('should only return the messages of the requested conversation', async () => {
+    const store = createStore();
+    const paris = await store.createConversation({ title: 'Paris', ownerId });
+    const tokyo = await store.createConversation({ title: 'Tokyo', ownerId });
+    await store.appendMessage(paris.id, { role: 'user', content: 'Paris' });
+    await store.appendMessage(tokyo.id, { role: 'user', content: 'Tokyo' });
+
+    expect((await store.getMessages(tokyo.id)).map((m) => m.content)).toEqual(['Tokyo']);
+  });
+
+  it('should list the conversation with the latest message first', async () => {
+    const store = createStore();
+    const paris = await store.createConversation({ title: 'Paris', ownerId });
+    await store.createConversation({ title: 'Tokyo', ownerId });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.appendMessage(paris.id, { role: 'user', content: 'Back to Paris' });
+
+    const conversations = await store.listConversations(ownerId);
+
+    expect(conversations.map((c) => c.title)).toEqual(['Paris', 'Tokyo']);
+    expect(conversations[0].updated_at > conversations[0].created_at).toBe(true);
+  });
+
+  it('should only list the conversations of the given owner', async () => {
+    const store = createStore();
+    await store.createConversation({ title: 'Mine', ownerId });
+    await store.createConversation({ title: 'Theirs', ownerId: 'user:someone-else' });
+
+    expect((await store.listConversations(ownerId)).map((c) => c.title)).toEqual(['Mine']);
+  });
+
+  it('should get a conversation by id', async () => {
+    const store = createStore();
+    const { id } = await store.createConversation({ title: 'Paris', ownerId });
+
+    expect(await store.getConversation(id)).toMatchObject({ id, owner_id: ownerId, title: 'Paris' });
+    expect(await store.getConversation('00000000-0000-0000-0000-000000000000')).toBeNull();
+  });
+
+  it('should delete a conversation and its messages', async () => {
+    const store = createStore();
+    const paris = await store.createConversation({ title: 'Paris', ownerId });
+    const tokyo = await store.createConversation({ title: 'Tokyo', ownerId });
+    await store.appendMessage(paris.id, { role: 'user', content: 'Paris' });
+
+    await store.deleteConversation(paris.id);
+
+    expect((await store.listConversations(ownerId)).map((c) => c.id)).toEqual([tokyo.id]);
+    expect(await store.getMessages(paris.id)).toEqual([]);
+  });
+});
+
+describe('supabase conversation store', () => {
+  it('should refuse to run on the public anon key', () => {
+    const env = { STORE_PROVIDER: 'supabase', SUPABASE_URL: 'https://example.supabase.co', SUPABASE_ANON_KEY: 'anon-key' };
+
+    expect(() => createConversationStore(env)).toThrow('SUPABASE_SERVICE_ROLE_KEY');
+  });
+
+  it('should treat ids that are not uuids as missing instead of failing', async () => {
+    const store = createSupabaseStore(createFakeSupabase());
+
+    expect(await store.getConversation('not-a-uuid')).toBeNull();
+    expect(await store.renameConversation('123', 'Nowhere')).toBeNull();
+    expect(await store.setPlaceChoices('123', {})).toBeNull();
+    expect(await store.getMessages('not-a-uuid')).toEqual([]);
+    await store.deleteConversation('not-a-uuid');
+  });
+});
+
+describe('postgres conversation store', () => {
+  it('should treat ids that are not uuids as missing without querying', async () => {
+    const sql = vi.fn(async () => []);
+    const store = createPostgresStore(sql);
+
+    expect(await store.getConversation('not-a-uuid')).toBeNull();
+    expect(await store.renameConversation('123', 'Nowhere')).toBeNull();
+    expect(await store.setPlaceChoices('123', {})).toBeNull();
+    expect(await store.getMessages('not-a-uuid')).toEqual([]);
+    await store.deleteConversation('not-a-uuid');
+    expect(sql).not.toHaveBeenCalled();
+
+    expect(await store.getConversation('00000000-0000-0000-0000-000000000000')).toBeNull();
+    expect(sql).toHaveBeenCalledTimes(1);
+  });
+});
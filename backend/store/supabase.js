@@ -0,0 +1,81 @@
+import { isUuid } from './ids.js';
+
+// Conversation store backed by a Supabase client. Expects the schema from
+// migrations/postgres.
+
+export function createSupabaseStore(client) {
+  const run = async (query) => {
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  };
+
+  return {
+    name: 'supabase',
+
+    createConversation({ title, ownerId = null }) {
+      return run(client.from('conversations').insert({ title, owner_id: ownerId }).select().single());
+    },
+
+    async getConversation(conversationId) {
+      if (!isUuid(conversationId)) return null;
+      const rows = await run(client.from('conversations').select('*').eq('id', conversationId));
+      return rows[0] ?? null;
+    },
+
+    async renameConversation(conversationId, title) {
+      if (!isUuid(conversationId)) return null;
+      const rows = await run(client.from('conversations').update({ title }).eq('id', conversationId).select());
+      return rows[0] ?? null;
+    },
+
+    async setPlaceChoices(conversationId, placeChoices) {
+      if (!isUuid(conversationId)) return null;
+      const rows = await run(client.from('conversations').update({ place_choices: placeChoices }).eq('id', conversationId).select());
+      return rows[0] ?? null;
+    },
+
+    appendMessage(conversationId, { role, content, mapAction = null, places = null, followUpSuggestions = null }) {
+      return run(
+        client
+          .from('messages')
+          .insert({
+            conversation_id: conversationId,
+            role,
+            content,
+            map_action: mapAction,
+            places,
+            follow_up_suggestions: followUpSuggestions,
+          })
+          .select()
+          .single()
+      );
+    },
+
+    listConversations(ownerId) {
+      return run(
+        client
+          .from('conversations')
+          .select('*')
+          .eq('owner_id', ownerId)
+          .order('updated_at', { ascending: false })
+      );
+    },
+
+    async getMessages(conversationId) {
+      if (!isUuid(conversationId)) return [];
+      return run(
+        client
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true })
+      );
+    },
+
+    async deleteConversation(conversationId) {
+      if (!isUuid(conversationId)) return;
+      await run(client.from('conversations').delete().eq('id', conversationId));
+    },
+  };
+}
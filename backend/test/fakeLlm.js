@@ -0,0 +1,35 @@
+// Fake LLM provider: returns queued outputs in order and records every request
+
+export function createFakeLlm(outputs = []) {
+  const queue = [...outputs];
+  const calls = [];
+
+  const next = (request) => {
+    calls.push(request);
+    if (queue.length === 0) throw new Error('Fake LLM has no output queued');
+    const output = queue.shift();
+    if (output instanceof Error) throw output;
+    return typeof output === 'string' ? output : JSON.stringify(output);
+  };
+
+  return {
+    name: 'fake',
+    model: 'fake-model',
+    calls,
+
+    queue(...more) {
+      queue.push(...more);
+    },
+
+    async complete(request) {
+      return next(request);
+    },
+
+    async *stream(request) {
+      const output = next(request);
+      for (let i = 0; i < output.length; i += 10) {
+        yield output.slice(i, i + 10);
+      }
+    },
+  };
+}
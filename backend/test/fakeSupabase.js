@@ -0,0 +1,124 @@
+import { randomUUID } from 'node:crypto';
+
+// In-memory stand-in for the parts of the Supabase client the routes use:
+// from(table).insert(row).select().single(), select('*').eq().order(), update(values).eq(), delete().eq()
+// Like Postgres, it rejects filters on a uuid column with a value that is not one.
+
+const UUID_COLUMNS = ['id', 'conversation_id'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+class QueryBuilder {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.operation = 'select';
+    this.rows = null;
+    this.values = null;
+    this.filters = [];
+    this.ordering = null;
+    this.expectSingle = false;
+    this.invalid = null;
+  }
+
+  insert(rows) {
+    this.operation = 'insert';
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(values) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  select() {
+    return this;
+  }
+
+  eq(column, value) {
+    if (UUID_COLUMNS.includes(column) && !UUID_PATTERN.test(value)) {
+      this.invalid = { code: '22P02', message: `invalid input syntax for type uuid: "${value}"` };
+    }
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.ordering = { column, ascending };
+    return this;
+  }
+
+  single() {
+    this.expectSingle = true;
+    return this;
+  }
+
+  then(resolve, reject) {
+    return Promise.resolve().then(() => this.execute()).then(resolve, reject);
+  }
+
+  execute() {
+    const failure = this.db.failures[this.table]?.[this.operation];
+    if (failure) return { data: null, error: failure };
+    if (this.invalid) return { data: null, error: this.invalid };
+
+    const tableRows = this.db.tables[this.table];
+    const matches = (row) => this.filters.every((filter) => filter(row));
+    let data;
+
+    if (this.operation === 'insert') {
+      data = this.rows.map((row) => {
+        const now = new Date(Date.now() + this.db.clock++).toISOString();
+        const stored = { id: randomUUID(), created_at: now, updated_at: now, ...row };
+        tableRows.push(stored);
+        // Like the messages_touch_conversation trigger in migrations/postgres
+        if (this.table === 'messages') {
+          const conversation = this.db.tables.conversations.find((c) => c.id === stored.conversation_id);
+          if (conversation) conversation.updated_at = stored.created_at;
+        }
+        return stored;
+      });
+    } else if (this.operation === 'update') {
+      data = tableRows.filter(matches);
+      data.forEach((row) => Object.assign(row, this.values));
+    } else if (this.operation === 'delete') {
+      data = tableRows.filter(matches);
+      this.db.tables[this.table] = tableRows.filter((row) => !matches(row));
+      if (this.table === 'conversations') {
+        const ids = new Set(data.map((row) => row.id));
+        this.db.tables.messages = this.db.tables.messages.filter((row) => !ids.has(row.conversation_id));
+      }
+    } else {
+      data = tableRows.filter(matches);
+      if (this.ordering) {
+        const { column, ascending } = this.ordering;
+        data = [...data].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+      }
+    }
+
+    return { data: this.expectSingle ? data[0] ?? null : data, error: null };
+  }
+}
+
+export function createFakeSupabase() {
+  const db = {
+    tables: { conversations: [], messages: [] },
+    failures: {},
+    clock: 0,
+  };
+
+  return {
+    tables: db.tables,
+    from: (table) => new QueryBuilder(db, table),
+    // Make every `operation` on `table` return `error`, like a failed Supabase query
+    failOn(table, operation, error = { message: `${operation} on ${table} failed` }) {
+      db.failures[table] = { ...db.failures[table], [operation]: error };
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { createApp } from '../app.js';
+import { createLocalAuthenticator, hashPassword } from '../auth/localJwt.js';
+import { createMemoryStore } from '../store/memory.js';
+import { createFakeLlm } from './fakeLlm.js';
+
+export { createFakeLlm };
+
+// Every test request is an anonymous session of this device unless it says otherwise
+export const TEST_DEVICE_ID = 'test-device-0123456789';
+export const TEST_USER = { email: 'traveller@example.com', password: 'correct horse battery staple' };
+
+export function createTestAuthenticator() {
+  return createLocalAuthenticator({
+    secret: 'test-secret',
+    users: new Map([[TEST_USER.email, hashPassword(TEST_USER.password)]]),
+  });
+}
+
+// Routes, matrices and isochrones are answered from the same queue, in call order
+export function createFakeRouting(responses = []) {
+  const calls = [];
+  const next = (params) => {
+    calls.push(params);
+    const response = responses.shift();
+    if (response instanceof Error) throw response;
+    return response;
+  };
+
+  return {
+    name: 'fake',
+    configured: true,
+    calls,
+    async route(params) {
+      return next(params);
+    },
+    async matrix(params) {
+      return next(params);
+    },
+    async isochrone(params) {
+      return next(params);
+    },
+  };
+}
+
+// Searches, suggestions and reverse lookups are answered from the same queue, in call order
+export function createFakeGeocoder(responses = []) {
+  const calls = [];
+  const next = (params) => {
+    calls.push(params);
+    const response = responses.shift();
+    if (response instanceof Error) throw response;
+    return response;
+  };
+
+  return {
+    name: 'fake',
+    configured: true,
+    calls,
+    async search(params) {
+      return next(params);
+    },
+    async autocomplete(params) {
+      return next(params);
+    },
+    async reverse(params) {
+      return next(params);
+    },
+  };
+}
+
+/**
+ * Boot the app on an ephemeral port with fake dependencies. Anything passed in
+ * `deps` replaces the default fake. Returns the fakes, a `request` helper bound
+ * to the server and `close`. Headers set to null are left out of the request.
+ */
+export async function startTestApp(deps = {}) {
+  const resolved = {
+    llm: createFakeLlm(),
+    store: createMemoryStore(),
+    routing: createFakeRouting(),
+    geocoder: createFakeGeocoder(),
+    authenticator: createTestAuthenticator(),
+    ...deps,
+  };
+
+  const app = createApp(resolved);
+  const server = await new Promise((resolve) => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const request = (path, { body, ...init } = {}) => {
+    const headers = { 'Content-Type': 'application/json', 'X-Device-Id': TEST_DEVICE_ID, ...init.headers };
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: Object.fromEntries(Object.entries(headers).filter(([, value]) => value !== null)),
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  const close = () => new Promise((resolve) => server.close(resolve));
+
+  return { ...resolved, baseUrl, request, close };
+}
+
+// Read an NDJSON response body into a list of events
+export async function readNdjson(response) {
+  const text = await response.text();
+  return text.split('\n').filter(Boolean).map((line) => JSON.parse(line));
+}
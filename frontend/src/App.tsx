@@ -1,19 +1,33 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { MessageCircle, PanelLeftClose, List, ChevronDown, X, MapPin, Navigation, Loader2, AlertCircle, ExternalLink } from 'lucide-react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { MessageCircle, PanelLeftClose, List, ChevronDown, X, MapPin, Navigation, Loader2, AlertCircle } from 'lucide-react';
 import { OpenStreetMap } from '@/components/OpenStreetMap';
 import { ChatPanel } from '@/components/ChatPanel';
 import { PlacesList } from '@/components/PlacesList';
 import { SearchBar } from '@/components/SearchBar';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { AuthButton } from '@/components/AuthButton';
+import { GeocodeCacheControl } from '@/components/GeocodeCacheControl';
 import { Button } from '@/components/ui/button';
-import type { MapAction, PlaceData, SelectedPlace, DirectionResult, DirectionError, TimePeriodPlaces, PlacesDay } from '@/types';
+import type { MapAction, PlaceData, SelectedPlace, DirectionResult, DirectionError, MultiStopRouteResult, TimePeriodPlaces, PlacesDay, TravelMode, IsochroneResult } from '@/types';
 import { ItineraryFlowchart } from '@/components/ItineraryFlowchart';
+import { DayRoutePanel } from '@/components/DayRoutePanel';
+import { TravelTimesPanel } from '@/components/TravelTimesPanel';
+import { IsochroneControl } from '@/components/IsochroneControl';
+import { ImportedLayersControl } from '@/components/ImportedLayersControl';
 import { PlacesAutocomplete } from '@/components/PlacesAutocomplete';
+import { PlaceMatchPicker } from '@/components/PlaceMatchPicker';
 import { getCurrentLocation } from '@/lib/geolocation';
-import { clearPlacesCache } from '@/lib/nominatim';
+import { needsReview, placeChoiceKey } from '@/lib/placeLookup';
+import { savePlaceChoices } from '@/lib/conversations';
+import { isPointInPolygon } from '@/lib/geometry';
+import { importedPlaces, parseImportFile, ImportError, type ImportedLayer } from '@/lib/import';
+import { useAuth } from '@/hooks/useAuth';
 import Logo from '@/assets/logo.svg';
 
 function App() {
+  const { user } = useAuth();
+  // Remount the chat when the user signs in or out so it never shows another owner's conversation
+  const chatOwnerKey = user ? `user:${user.id}` : 'anonymous';
   const [mapAction, setMapAction] = useState<MapAction | null>(null);
   const [selectedPlace, setSelectedPlace] = useState<SelectedPlace | null>(null);
   const [placesList, setPlacesList] = useState<PlaceData[]>([]);
@@ -23,6 +37,18 @@ function App() {
   const [chatWidth, setChatWidth] = useState(380);
   const isResizingRef = useRef(false);
   const [directionResult, setDirectionResult] = useState<DirectionResult | null>(null);
+  // Travel mode picked in the Travel Times panel, and the stretch of its route
+  // to highlight while a turn-by-turn step is hovered
+  const [selectedRouteMode, setSelectedRouteMode] = useState<TravelMode | null>(null);
+  const [highlightedSegment, setHighlightedSegment] = useState<[number, number] | null>(null);
+  // Whole-day route from the itinerary flowchart; the error is shown in the same panel
+  const [routeResult, setRouteResult] = useState<MultiStopRouteResult | null>(null);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [isochrone, setIsochrone] = useState<IsochroneResult | null>(null);
+  const [isochroneError, setIsochroneError] = useState<string | null>(null);
+  const [isochroneOrigin, setIsochroneOrigin] = useState<PlaceData | null>(null);
+  const [importedLayers, setImportedLayers] = useState<ImportedLayer[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
   const [searchBarDirectionError, setSearchBarDirectionError] = useState<DirectionError | null>(null);
   const [searchBarShowDirections, setSearchBarShowDirections] = useState(false);
   const [searchBarExternalDestination, setSearchBarExternalDestination] = useState('');
@@ -39,17 +65,24 @@ function App() {
     day: string;
     timePeriods?: TimePeriodPlaces;
     placesDay?: PlacesDay | null;
+    conversationId?: string | null;
   } | null>(null);
 
   const [isActionPending, setIsActionPending] = useState(false);
+  // Places found / asked for while suggested places stream in; replaces the loading overlay
+  const [searchProgress, setSearchProgress] = useState<{ done: number; total: number } | null>(null);
+  // Why the last place search stopped short, shown in the search bar and the list
+  const [placesError, setPlacesError] = useState<string | null>(null);
 
   // Ref to resolve promises returned by handleMapAction
   const actionResolverRef = useRef<(() => void) | null>(null);
-
-  // Clear places cache on refresh/initialization
-  useEffect(() => {
-    clearPlacesCache();
-  }, []);
+  // Places the user picked for doubtful matches, per conversation, and the
+  // last 'searchMany' so a pick can redraw it
+  const placeChoicesRef = useRef<Record<string, Record<string, PlaceData>>>({});
+  const lastSearchManyRef = useRef<MapAction | null>(null);
+  // Conversation whose places bias lookups on the map; every new chat gets a fresh one
+  const [tripKey, setTripKey] = useState('');
+  const newChatCountRef = useRef(0);
 
   const handleMapAction = useCallback((action: MapAction) => {
     // Resolve any previous pending action
@@ -58,6 +91,13 @@ function App() {
     }
 
     setIsActionPending(true);
+    setSearchProgress(action.action === 'searchMany' && action.queries?.length ? { done: 0, total: action.queries.length } : null);
+    setPlacesError(null);
+
+    // Day routes go through the places picked in their chat too
+    if (action.action === 'route') {
+      action = { ...action, placeChoices: placeChoicesRef.current[action.conversationId ?? ''] };
+    }
 
     // Clear places list for search-related actions
     if (action.action === 'searchOne' || action.action === 'searchMany') {
@@ -65,6 +105,8 @@ function App() {
 
       // Auto-expand places list when searching many (e.g., from "Suggested" button)
       if (action.action === 'searchMany') {
+        lastSearchManyRef.current = action;
+        action = { ...action, placeChoices: placeChoicesRef.current[action.conversationId ?? ''] };
         setIsPlacesListCollapsed(false);
         if (window.innerWidth < 768) {
           setIsMobilePlacesOpen(true);
@@ -107,6 +149,7 @@ function App() {
 
   const handlePlaceClick = useCallback((place: PlaceData) => {
     if (place.location) {
+      setIsochroneOrigin(place);
       setMapAction({
         action: 'goto',
         lat: place.location.lat,
@@ -167,6 +210,10 @@ function App() {
   const handleDirectionsResult = useCallback((result: DirectionResult) => {
     setSearchBarDirectionError(null);
     setDirectionResult(result);
+    setSelectedRouteMode(result.routes[0]?.mode ?? null);
+    setHighlightedSegment(null);
+    setRouteResult(null);
+    setRouteError(null);
     setDirectionsSuccess(true);
 
     // Auto-expand places list (desktop only)
@@ -188,6 +235,114 @@ function App() {
   }, []);
 
 
+  const handleRouteResult = useCallback((result: MultiStopRouteResult) => {
+    setRouteResult(result);
+    setRouteError(null);
+    setDirectionResult(null);
+
+    if (actionResolverRef.current) {
+      actionResolverRef.current();
+      actionResolverRef.current = null;
+    }
+    setIsActionPending(false);
+  }, []);
+
+  const handleIsochroneRequest = useCallback((minutes: number, profile: IsochroneResult['profile']) => {
+    setIsochroneError(null);
+    handleMapAction({
+      action: 'isochrone',
+      source: 'button',
+      origin: isochroneOrigin?.displayName ?? 'My Location',
+      lat: isochroneOrigin?.location?.lat,
+      lng: isochroneOrigin?.location?.lng,
+      minutes,
+      profile,
+    });
+  }, [handleMapAction, isochroneOrigin]);
+
+  const handleIsochroneResult = useCallback((result: IsochroneResult) => {
+    setIsochrone(result);
+    setIsochroneError(null);
+
+    if (actionResolverRef.current) {
+      actionResolverRef.current();
+      actionResolverRef.current = null;
+    }
+    setIsActionPending(false);
+  }, []);
+
+  const handleIsochroneError = useCallback((message: string) => {
+    setIsochrone(null);
+    setIsochroneError(message);
+
+    if (actionResolverRef.current) {
+      actionResolverRef.current();
+      actionResolverRef.current = null;
+    }
+    setIsActionPending(false);
+  }, []);
+
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    const layers: ImportedLayer[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        layers.push(parseImportFile(file.name, await file.text()));
+      } catch (error) {
+        console.error('Import error:', error);
+        errors.push(error instanceof ImportError ? error.message : `Could not read ${file.name}.`);
+      }
+    }
+
+    setImportedLayers((prev) => [...prev, ...layers]);
+    setImportError(errors.length > 0 ? errors.join(' ') : null);
+    if (layers.some((layer) => layer.points.length > 0) && window.innerWidth >= 768) {
+      setIsPlacesListCollapsed(false);
+    }
+  }, []);
+
+  const visibleLayers = useMemo(() => importedLayers.filter((layer) => layer.visible), [importedLayers]);
+
+  // Search results plus the places of the visible imported layers; while a
+  // reachable area is drawn, only those inside its largest polygon
+  const visiblePlaces = useMemo(() => {
+    const places = [...placesList, ...visibleLayers.flatMap(importedPlaces)];
+    const area = isochrone?.polygons[isochrone.polygons.length - 1];
+    if (!area) return places;
+    return places.filter((place) => place.location && isPointInPolygon(place.location, area.rings));
+  }, [placesList, visibleLayers, isochrone]);
+  const reachableLabel = isochrone
+    ? `Within ${isochrone.polygons[isochrone.polygons.length - 1].minutes} min of ${isochrone.label}`
+    : null;
+
+  const handleChoosePlace = useCallback((query: string, place: PlaceData) => {
+    const search = lastSearchManyRef.current;
+    if (!search) return;
+    const conversationKey = search.conversationId ?? '';
+    const choices = {
+      ...placeChoicesRef.current[conversationKey],
+      [placeChoiceKey(query)]: { ...place, query, matchQuality: 'confirmed' as const, candidates: undefined, suspectMatch: undefined },
+    };
+    placeChoicesRef.current[conversationKey] = choices;
+    // Saved with the conversation so the pick survives a reload and shows on other devices
+    if (search.conversationId) {
+      savePlaceChoices(search.conversationId, choices).catch((error) => console.error('Failed to save place choices:', error));
+    }
+    handleMapAction(search);
+  }, [handleMapAction]);
+
+  const handleConversationChange = useCallback((conversationId: string | null, placeChoices?: Record<string, PlaceData>) => {
+    if (conversationId && placeChoices) placeChoicesRef.current[conversationId] = placeChoices;
+    setTripKey(conversationId ?? `new-${++newChatCountRef.current}`);
+  }, []);
+
+  const handleSearchProgress = useCallback((places: PlaceData[], total: number) => {
+    setPlacesList(places);
+    setSearchProgress({ done: places.length, total });
+  }, []);
+
+  const handleSearchError = useCallback((message: string) => setPlacesError(message), []);
+
   const handleSearchResults = useCallback((places: PlaceData[]) => {
     // Deduplicate by ID
     const seen = new Set<string>();
@@ -198,6 +353,7 @@ function App() {
     });
 
     setPlacesList(uniquePlaces);
+    setSearchProgress(null);
     // Resolve the map action promise
     if (actionResolverRef.current) {
       actionResolverRef.current();
@@ -216,7 +372,10 @@ function App() {
 
   const handleDirectionsError = useCallback((error: DirectionError) => {
     setDirectionResult(null);
-    if (lastDirectionSource === 'searchBar') {
+    if (mapAction?.action === 'route') {
+      setRouteResult(null);
+      setRouteError(error.message);
+    } else if (lastDirectionSource === 'searchBar') {
       setSearchBarDirectionError(error);
       if (mobileDirectionsPending) {
         setMobileDirectionError(error.message);
@@ -230,7 +389,7 @@ function App() {
       actionResolverRef.current = null;
     }
     setIsActionPending(false);
-  }, [lastDirectionSource, mobileDirectionsPending]);
+  }, [mapAction, lastDirectionSource, mobileDirectionsPending]);
 
   // Handle mobile directions success - close sheet and clear inputs
   useEffect(() => {
@@ -259,6 +418,7 @@ function App() {
             onGetDirections={handleSearchBarDirections}
             directionError={searchBarDirectionError}
             onClearDirectionError={clearSearchBarDirectionError}
+            searchError={placesError}
             directionsSuccess={directionsSuccess}
             onDirectionsSuccessHandled={clearDirectionsSuccess}
             showDirections={searchBarShowDirections}
@@ -266,7 +426,9 @@ function App() {
             externalDestination={searchBarExternalDestination}
           />
         </div>
-        <div className="shrink-0">
+        <div className="shrink-0 flex items-center">
+          <AuthButton />
+          <GeocodeCacheControl />
           <ThemeToggle />
         </div>
       </header>
@@ -312,11 +474,14 @@ function App() {
           </div>
           <div className="min-h-0 overflow-hidden">
             <ChatPanel
+              key={chatOwnerKey}
               onMapAction={handleMapAction}
               selectedPlace={selectedPlace}
               places={placesList}
               onClose={() => setIsChatOpen(false)}
               onShowFlowchart={setFlowchartData}
+              importedLayers={visibleLayers}
+              onConversationChange={handleConversationChange}
             />
           </div>
         </div>
@@ -329,56 +494,71 @@ function App() {
             onPlaceDetailsLoaded={handlePlaceDetailsLoaded}
             onDirectionsResult={handleDirectionsResult}
             onDirectionsError={handleDirectionsError}
+            onRouteResult={handleRouteResult}
+            onIsochroneResult={handleIsochroneResult}
+            onIsochroneError={handleIsochroneError}
             onSearchResults={handleSearchResults}
+            onSearchProgress={handleSearchProgress}
+            onSearchError={handleSearchError}
+            tripKey={`${chatOwnerKey}/${tripKey}`}
             placeIdToFetch={placeIdToFetch}
             resizeTrigger={`${isChatOpen}-${isPlacesListCollapsed}`}
+            selectedRouteMode={directionResult ? selectedRouteMode : null}
+            highlightedSegment={directionResult ? highlightedSegment : null}
+            isochrone={isochrone}
+            importedLayers={importedLayers}
+            onFilesDropped={handleImportFiles}
           />
 
+          {/* Imported Layers Control */}
+          <ImportedLayersControl
+            layers={importedLayers}
+            error={importError}
+            onImportFiles={handleImportFiles}
+            onToggleLayer={(id) => setImportedLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, visible: !layer.visible } : layer)))}
+            onRemoveLayer={(id) => setImportedLayers((prev) => prev.filter((layer) => layer.id !== id))}
+          />
+
+          {/* Reachable Area Control */}
+          <IsochroneControl
+            origin={isochroneOrigin}
+            result={isochrone}
+            error={isochroneError}
+            isLoading={isActionPending && mapAction?.action === 'isochrone'}
+            onRequest={handleIsochroneRequest}
+            onClear={() => {
+              setIsochrone(null);
+              setIsochroneError(null);
+            }}
+          />
+
+          {/* Whole-day Route Panel */}
+          {(routeResult || routeError) && (
+            <DayRoutePanel
+              result={routeResult}
+              error={routeError}
+              onClose={() => {
+                setRouteResult(null);
+                setRouteError(null);
+              }}
+            />
+          )}
+
           {/* Direction Results Panel */}
           {directionResult && (
-            <div className="fixed md:absolute bottom-20 md:bottom-4 left-1/2 -translate-x-1/2 bg-background border rounded-lg shadow-lg p-3 md:p-4 z-[1050] max-w-md w-[90%] sm:w-auto">
-              <div className="flex items-baseline justify-between mb-1 md:mb-2">
-                <div>
-                  <h3 className="font-semibold text-xs md:text-sm">Travel Times</h3>
-                  <p className="text-[10px] text-muted-foreground">Estimates only · Tap for live directions</p>
-                </div>
-                <button
-                  onClick={() => setDirectionResult(null)}
-                  className="text-muted-foreground hover:text-foreground text-base md:text-lg leading-none"
-                >
-                  ×
-                </button>
-              </div>
-              <div className="grid grid-cols-2 gap-1.5 md:gap-2 text-xs md:text-sm">
-                {directionResult.routes.map((route) => {
-                  const travelMode = route.mode; // driving, walking, or bicycling
-                  const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&origin=${encodeURIComponent(directionResult.origin)}&destination=${encodeURIComponent(directionResult.destination)}&travelmode=${travelMode}`;
-                  return (
-                    <a
-                      key={route.mode}
-                      href={googleMapsUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-1.5 md:gap-2 p-1.5 md:p-2 rounded bg-muted/50 hover:bg-muted transition-colors cursor-pointer"
-                      title={`Open in Google Maps (${route.mode})`}
-                    >
-                      <span className="text-sm md:text-lg">
-                        {route.mode === 'driving' && '🚗'}
-                        {route.mode === 'walking' && '🚶'}
-                        {route.mode === 'bicycling' && '🚴'}
-                      </span>
-                      <div className="flex-1">
-                        <div className="font-medium capitalize text-xs md:text-sm">{route.mode}</div>
-                        <div className="text-muted-foreground text-[10px] md:text-xs">
-                          {route.duration} · {route.distance}
-                        </div>
-                      </div>
-                      <ExternalLink className="h-3 w-3 text-muted-foreground" />
-                    </a>
-                  );
-                })}
-              </div>
-            </div>
+            <TravelTimesPanel
+              result={directionResult}
+              selectedMode={selectedRouteMode}
+              onSelectMode={(mode) => {
+                setSelectedRouteMode(mode);
+                setHighlightedSegment(null);
+              }}
+              onHighlightStep={setHighlightedSegment}
+              onClose={() => {
+                setDirectionResult(null);
+                setHighlightedSegment(null);
+              }}
+            />
           )}
 
           {/* Desktop Chat Toggle Button */}
@@ -399,13 +579,18 @@ function App() {
           <div className="flex flex-col h-full border-l bg-background">
             <div className="flex-1 overflow-hidden">
               <PlacesList
-                places={placesList}
+                places={visiblePlaces}
                 onPlaceClick={handlePlaceClick}
                 onGetDirections={handleGetDirections}
                 selectedPlaceId={null}
                 isCollapsed={isPlacesListCollapsed}
                 onCollapsedChange={setIsPlacesListCollapsed}
-                isLoading={isActionPending}
+                isLoading={isActionPending && !searchProgress}
+                progress={searchProgress}
+                error={placesError}
+                filterLabel={reachableLabel}
+                onClearFilter={() => setIsochrone(null)}
+                onChoosePlace={handleChoosePlace}
               />
             </div>
           </div>
@@ -431,11 +616,14 @@ function App() {
         </div>
         <div className="h-[calc(100%-60px)] overflow-hidden">
           <ChatPanel
+            key={chatOwnerKey}
             onMapAction={handleMapAction}
             selectedPlace={selectedPlace}
             places={placesList}
             onClose={() => setIsChatOpen(false)}
             onShowFlowchart={setFlowchartData}
+            importedLayers={visibleLayers}
+            onConversationChange={handleConversationChange}
           />
         </div>
       </div>
@@ -459,7 +647,12 @@ function App() {
         </div>
         <div className="flex items-center justify-between px-4 pb-2 border-b">
           <h3 className="font-semibold">
-            {`Places (${placesList.length})`}
+            {`Places (${visiblePlaces.length})`}
+            {searchProgress && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                Finding places {searchProgress.done} of {searchProgress.total}...
+              </span>
+            )}
           </h3>
           <Button variant="ghost" size="icon" onClick={() => setIsMobilePlacesOpen(false)}>
             <ChevronDown className="h-5 w-5" />
@@ -467,7 +660,21 @@ function App() {
         </div>
         <div className="overflow-y-auto h-[calc(100%-60px)] relative">
           <div className="p-3 space-y-2 pb-20">
-            {placesList.map((place, index) => (
+            {placesError && (
+              <p className="flex items-center gap-2 px-1 text-xs text-destructive" role="alert">
+                <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                {placesError}
+              </p>
+            )}
+            {reachableLabel && (
+              <div className="flex items-center justify-between gap-2 px-1 text-xs text-muted-foreground">
+                <span className="min-w-0 truncate">{reachableLabel}</span>
+                <button onClick={() => setIsochrone(null)} className="shrink-0 hover:text-foreground">
+                  Show all
+                </button>
+              </div>
+            )}
+            {visiblePlaces.map((place, index) => (
               <div
                 key={`${place.id}-${index}`}
                 className="w-full group p-3 rounded-xl border flex items-center gap-3 active:scale-[0.98] transition-transform bg-background"
@@ -487,22 +694,27 @@ function App() {
                       </p>
                     )}
                   </button>
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    className="h-7 text-[10px] sm:text-xs mt-2 w-full bg-muted/50 border hover:bg-primary hover:text-primary-foreground transition-all"
-                    onClick={() => handleGetDirections(place)}
-                  >
-                    <Navigation className="h-3 w-3 mr-1" />
-                    Get Directions
-                  </Button>
+                  {needsReview(place) && (
+                    <PlaceMatchPicker key={place.id} place={place} onChoose={handleChoosePlace} />
+                  )}
+                  {place.location && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="h-7 text-[10px] sm:text-xs mt-2 w-full bg-muted/50 border hover:bg-primary hover:text-primary-foreground transition-all"
+                      onClick={() => handleGetDirections(place)}
+                    >
+                      <Navigation className="h-3 w-3 mr-1" />
+                      Get Directions
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
 
           {/* Mobile Loading Overlay */}
-          {isActionPending && (
+          {isActionPending && !searchProgress && (
             <div className="absolute inset-0 bg-background/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center p-4 text-center animate-in fade-in duration-300">
               <div className="bg-background border rounded-2xl p-6 shadow-xl flex flex-col items-center gap-4">
                 <div className="relative h-8 w-8">
@@ -663,9 +875,9 @@ function App() {
           >
             <List className="h-5 w-5" />
             <span className="text-xs mt-1">Places</span>
-            {placesList.length > 0 && (
+            {visiblePlaces.length > 0 && (
               <span className="absolute top-2 right-1/4 bg-primary text-primary-foreground text-[10px] font-medium rounded-full h-4 min-w-4 flex items-center justify-center px-1">
-                {placesList.length}
+                {visiblePlaces.length}
               </span>
             )}
           </button>
@@ -683,7 +895,7 @@ function App() {
             handleMapAction({ action: 'searchOne', query: placeName });
           }}
           onDirections={(action) => {
-            handleMapAction(action);
+            handleMapAction({ ...action, conversationId: flowchartData.conversationId });
             setFlowchartData(null);
           }}
           onClose={() => setFlowchartData(null)}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AuthButton } from './AuthButton';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { authHeaders } from '@/lib/auth';
+
+vi.stubGlobal('fetch', vi.fn());
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 401, json: async () => body } as unknown as Response;
+}
+
+function renderWithAuth() {
+  return render(
+    <AuthProvider>
+      <AuthButton />
+    </AuthProvider>
+  );
+}
+
+describe('AuthButton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('should render nothing when accounts are disabled', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ provider: 'none' }));
+
+    const { container } = renderWithAuth();
+
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should sign in with a password and send the token with requests', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse({ provider: 'local' }))
+      .mockResolvedValueOnce(jsonResponse({ token: 'token-1', user: { id: 'traveller@example.com', email: 'traveller@example.com' } }));
+
+    renderWithAuth();
+    fireEvent.click(await screen.findByTitle('Sign in'));
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'traveller@example.com' } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByTitle('Signed in as traveller@example.com')).toBeInTheDocument();
+    expect(fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('/api/auth/login'),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ email: 'traveller@example.com', password: 'secret' }) })
+    );
+    expect(authHeaders().Authorization).toBe('Bearer token-1');
+    expect(localStorage.getItem('mapgpt-auth-token')).toBe('token-1');
+  });
+
+  it('should show the error when sign-in fails', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse({ provider: 'local' }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Invalid email or password' }, false));
+
+    renderWithAuth();
+    fireEvent.click(await screen.findByTitle('Sign in'));
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'traveller@example.com' } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'wrong' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('Invalid email or password')).toBeInTheDocument();
+  });
+
+  it('should restore a stored session and sign out', async () => {
+    localStorage.setItem('mapgpt-auth-token', 'token-2');
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse({ provider: 'local' }))
+      .mockResolvedValueOnce(jsonResponse({ user: { id: 'traveller@example.com', email: 'traveller@example.com' } }));
+
+    renderWithAuth();
+    fireEvent.click(await screen.findByTitle('Signed in as traveller@example.com'));
+    fireEvent.click(screen.getByText('Sign out'));
+
+    expect(await screen.findByTitle('Sign in')).toBeInTheDocument();
+    expect(localStorage.getItem('mapgpt-auth-token')).toBeNull();
+    expect(authHeaders().Authorization).toBeUndefined();
+    expect(authHeaders()['X-Device-Id']).toMatch(/^[A-Za-z0-9_-]{21}$/);
+  });
+});
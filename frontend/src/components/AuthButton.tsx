@@ -0,0 +1,103 @@
+import { useState, type FormEvent } from 'react';
+import { LogIn, LogOut, Loader2, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+
+export function AuthButton() {
+  const { provider, user, isLoading, signIn, signOut } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (provider === 'none' || isLoading) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await signIn(email.trim(), password);
+      if (result === 'email-sent') {
+        setNotice('Check your email for a sign-in link.');
+      } else {
+        setIsOpen(false);
+        setPassword('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setIsOpen(false);
+    await signOut();
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Account"
+        title={user ? `Signed in as ${user.email ?? user.id}` : 'Sign in'}
+      >
+        {user ? <UserRound className="h-5 w-5" /> : <LogIn className="h-5 w-5" />}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 rounded-lg border bg-background p-3 shadow-lg z-50">
+          {user ? (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">Signed in as</p>
+              <p className="text-sm font-medium truncate">{user.email ?? user.id}</p>
+              <Button variant="outline" size="sm" className="w-full" onClick={handleSignOut}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign out
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Sign in to keep your chats across devices. Without an account they stay on this device.
+              </p>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                aria-label="Email"
+                required
+                className="h-8 text-sm"
+              />
+              {provider === 'local' && (
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  aria-label="Password"
+                  required
+                  className="h-8 text-sm"
+                />
+              )}
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              {notice && <p className="text-xs text-muted-foreground">{notice}</p>}
+              <Button type="submit" size="sm" className="w-full" disabled={isSubmitting || !email.trim()}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {provider === 'supabase' ? 'Email me a sign-in link' : 'Sign in'}
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
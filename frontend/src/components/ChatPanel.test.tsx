@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ChatPanel } from './ChatPanel';
+import type { ImportedLayer } from '@/lib/import';
 
 // Mock fetch for API calls
 vi.stubGlobal('fetch', vi.fn());
@@ -215,4 +216,201 @@ describe('ChatPanel', () => {
     // Should display day button with place count (no automatic map actions)
     expect(screen.getByText('Day 1 (5)')).toBeInTheDocument();
   });
+
+  it('should render a streamed response and hide tag content while streaming', async () => {
+    const encoder = new TextEncoder();
+    let pushChunk: (chunk: string) => void = () => {};
+    let closeStream: () => void = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        pushChunk = (chunk) => controller.enqueue(encoder.encode(chunk));
+        closeStream = () => controller.close();
+      },
+    });
+
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: true, body } as unknown as Response);
+
+    render(
+      <ChatPanel
+        onMapAction={mockOnMapAction}
+      />
+    );
+
+    const input = screen.getByPlaceholderText('Ask about any place...');
+    fireEvent.change(input, { target: { value: 'Museums in Paris' } });
+    fireEvent.click(document.querySelector('[data-submit-btn]') as HTMLButtonElement);
+
+    pushChunk('{"type":"delta","text":"Visit the Louvre"}\n');
+    pushChunk('{"type":"delta","text":"\\n[PLACES]\\n{\\"suggested\\""}\n');
+
+    await screen.findByText('Visit the Louvre');
+    expect(screen.queryByText(/\[PLACES\]/)).not.toBeInTheDocument();
+
+    pushChunk(`${JSON.stringify({
+      type: 'done',
+      message: 'Visit the Louvre today',
+      mapAction: null,
+      followUpSuggestions: ['Tell me more about the Louvre'],
+      placesByDay: { Suggested: ['Louvre Museum, Paris, France'] },
+      placesByTimePeriod: {},
+      places: { suggested: ['Louvre Museum, Paris, France'] },
+      conversationId: 'conv-2',
+    })}\n`);
+    closeStream();
+
+    await screen.findByText('Visit the Louvre today');
+    expect(screen.getByText('Suggested (1)')).toBeInTheDocument();
+    expect(screen.getByText('Tell me more about the Louvre')).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith(expect.stringContaining('/api/chat/stream'), expect.any(Object));
+  });
+
+  it('should reopen a past conversation with its map action, places and follow-ups', async () => {
+    const jsonResponse = (body: unknown) => ({ ok: true, json: async () => body } as unknown as Response);
+    const placeChoices = {
+      'old town': { id: 'osm:node:1', displayName: 'Vieux Paris', formattedAddress: 'Paris, France', location: { lat: 48.85, lng: 2.35 }, query: 'Old town' },
+    };
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse([
+        { id: 'conv-1', title: 'Paris trip', place_choices: placeChoices, created_at: '2025-12-01T10:00:00Z', updated_at: '2025-12-01T10:05:00Z' },
+      ]))
+      .mockResolvedValueOnce(jsonResponse([
+        { id: 'm1', conversation_id: 'conv-1', role: 'user', content: 'Route to the Louvre', map_action: null, created_at: '2025-12-01T10:00:00Z' },
+        {
+          id: 'm2',
+          conversation_id: 'conv-1',
+          role: 'assistant',
+          content: 'Walk along the Seine',
+          map_action: { action: 'directions', origin: 'Eiffel Tower, Paris', destination: 'Louvre Museum, Paris' },
+          followUpSuggestions: ['Museums nearby'],
+          placesByDay: { Suggested: ['Louvre Museum, Paris'] },
+          placesByTimePeriod: null,
+          places: { suggested: ['Louvre Museum, Paris'] },
+          created_at: '2025-12-01T10:00:05Z',
+        },
+      ]));
+
+    const onConversationChange = vi.fn();
+    render(
+      <ChatPanel
+        onMapAction={mockOnMapAction}
+        onConversationChange={onConversationChange}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('Chat history'));
+    fireEvent.click(await screen.findByText('Paris trip'));
+
+    expect(await screen.findByText('Walk along the Seine')).toBeInTheDocument();
+    expect(screen.getByText('Route to the Louvre')).toBeInTheDocument();
+    expect(screen.getByText('Suggested (1)')).toBeInTheDocument();
+    expect(screen.getByText('Museums nearby')).toBeInTheDocument();
+    expect(screen.queryByTestId('conversation-history')).not.toBeInTheDocument();
+    expect(fetch).toHaveBeenLastCalledWith(expect.stringContaining('/api/conversations/conv-1/messages'), expect.any(Object));
+
+    fireEvent.click(screen.getByText('Show Route'));
+    expect(mockOnMapAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'directions', destination: 'Louvre Museum, Paris' }));
+
+    // The map keeps each conversation's trip apart, with the places picked in it
+    expect(onConversationChange).toHaveBeenLastCalledWith('conv-1', placeChoices);
+    fireEvent.click(screen.getByTitle('New chat'));
+    expect(onConversationChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should show the reachable area of an isochrone answer', async () => {
+    const jsonResponse = (body: unknown) => ({ ok: true, json: async () => body } as unknown as Response);
+    const isochrone = { action: 'isochrone', origin: 'Hotel Le Meurice, Paris', minutes: 15, profile: 'foot-walking' };
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse([
+        { id: 'conv-1', title: 'Paris walks', created_at: '2025-12-01T10:00:00Z', updated_at: '2025-12-01T10:05:00Z' },
+      ]))
+      .mockResolvedValueOnce(jsonResponse([
+        { id: 'm1', conversation_id: 'conv-1', role: 'user', content: 'What can I walk to in 15 minutes?', map_action: null, created_at: '2025-12-01T10:00:00Z' },
+        {
+          id: 'm2',
+          conversation_id: 'conv-1',
+          role: 'assistant',
+          content: 'The Louvre and the Tuileries are close by',
+          map_action: isochrone,
+          created_at: '2025-12-01T10:00:05Z',
+        },
+      ]));
+
+    render(
+      <ChatPanel
+        onMapAction={mockOnMapAction}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('Chat history'));
+    fireEvent.click(await screen.findByText('Paris walks'));
+
+    fireEvent.click(await screen.findByText('Show 15-min Reach'));
+    expect(mockOnMapAction).toHaveBeenCalledWith(isochrone);
+  });
+
+  it('should attach the imported layers to the next message only', async () => {
+    const answer = { message: 'Start at Shakespeare and Company', mapAction: null, followUpSuggestions: [], conversationId: 'conv-1' };
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => answer } as unknown as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => answer } as unknown as Response);
+    const layer: ImportedLayer = {
+      id: 'layer-1',
+      fileName: 'favorites.gpx',
+      name: 'Paris favorites',
+      visible: true,
+      points: [{ name: 'Shakespeare and Company', lat: 48.852547, lng: 2.34713 }],
+      tracks: [],
+    };
+
+    render(
+      <ChatPanel
+        onMapAction={mockOnMapAction}
+        importedLayers={[layer]}
+      />
+    );
+
+    const attach = screen.getByTitle('Send a summary of the imported places and tracks with the next message');
+    expect(attach).toHaveTextContent('Attach Paris favorites');
+    fireEvent.click(attach);
+    expect(attach).toHaveAttribute('aria-pressed', 'true');
+
+    const input = screen.getByPlaceholderText('Ask about any place...');
+    fireEvent.change(input, { target: { value: 'Plan around these saved points' } });
+    fireEvent.click(document.querySelector('[data-submit-btn]') as HTMLButtonElement);
+    await screen.findByText('Start at Shakespeare and Company');
+
+    const sent = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+    expect(sent.importedLayers).toEqual([
+      { name: 'Paris favorites', points: [{ name: 'Shakespeare and Company', lat: 48.85255, lng: 2.34713 }], tracks: [] },
+    ]);
+    expect(attach).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.change(input, { target: { value: 'And dinner?' } });
+    fireEvent.click(document.querySelector('[data-submit-btn]') as HTMLButtonElement);
+    await waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    expect(JSON.parse(vi.mocked(fetch).mock.calls[1][1]!.body as string).importedLayers).toBeUndefined();
+  });
+
+  it('should explain when the chat rate limit is reached', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      headers: new Headers({ 'Retry-After': '42' }),
+      json: async () => ({ error: 'Too many chat requests', retryAfter: 42 }),
+    } as unknown as Response);
+
+    render(
+      <ChatPanel
+        onMapAction={mockOnMapAction}
+      />
+    );
+
+    const input = screen.getByPlaceholderText('Ask about any place...');
+    fireEvent.change(input, { target: { value: 'Museums in Paris' } });
+    fireEvent.click(document.querySelector('[data-submit-btn]') as HTMLButtonElement);
+
+    expect(
+      await screen.findByText("You're sending messages too quickly. Please try again in 42 seconds.")
+    ).toBeInTheDocument();
+  });
 });
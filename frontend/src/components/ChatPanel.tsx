@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Send, Loader2, MapPin, Trash2, CalendarDays, Clock, Navigation, AlertCircle } from 'lucide-react';
+import { Send, Loader2, MapPin, SquarePen, CalendarDays, Clock, Navigation, AlertCircle, History, Timer, Paperclip } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
@@ -8,23 +8,34 @@ import type { MapAction, SelectedPlace, PlaceData, Message, PlanningPreferences,
 import { INTEREST_OPTIONS, TRAVEL_STYLES, DURATION_OPTIONS } from '@/types';
 import { API_URL, getRandomSuggestions } from '@/constants';
 import { ItineraryFlowchart } from './ItineraryFlowchart';
-import { clearPlacesCache } from '@/lib/nominatim';
+import { readChatStream, stripStreamingTags, type ChatResponsePayload } from '@/lib/chatStream';
+import { getConversationMessages, toMessage, type Conversation } from '@/lib/conversations';
+import { authHeaders } from '@/lib/auth';
+import { formatRetryAfter, RateLimitError, rateLimitErrorFrom } from '@/lib/rateLimit';
+import { summarizeLayers, type ImportedLayer } from '@/lib/import';
+import { ConversationHistory } from './ConversationHistory';
 
 interface ChatPanelProps {
   onMapAction: (action: MapAction) => void | Promise<void>;
   selectedPlace?: SelectedPlace | null;
   places?: PlaceData[];
   onClose?: () => void;
-  onShowFlowchart?: (data: { day: string; timePeriods?: TimePeriodPlaces; placesDay?: PlacesDay | null } | null) => void;
+  onShowFlowchart?: (data: { day: string; timePeriods?: TimePeriodPlaces; placesDay?: PlacesDay | null; conversationId?: string | null } | null) => void;
+  importedLayers?: ImportedLayer[]; // Visible imported layers the next message may carry
+  onConversationChange?: (conversationId: string | null, placeChoices?: Record<string, PlaceData>) => void; // Another conversation was opened, with the places picked in it, or a new chat started
 }
 
-export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, onShowFlowchart }: ChatPanelProps) {
+export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, onShowFlowchart, importedLayers = [], onConversationChange }: ChatPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [actionLoadingId, setActionLoadingId] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isPlanningMode, setIsPlanningMode] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [openingConversationId, setOpeningConversationId] = useState<string | null>(null);
+  // Attach a summary of the imported layers to the next message only
+  const [attachImports, setAttachImports] = useState(false);
   const [planningPrefs, setPlanningPrefs] = useState<PlanningPreferences>({
     duration: '',
     interests: [],
@@ -114,15 +125,18 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
       content: input.trim(),
     };
 
+    const assistantId = Date.now().toString() + '-assistant';
+
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
 
     try {
-      const response = await fetch(`${API_URL}/api/chat`, {
+      const response = await fetch(`${API_URL}/api/chat/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders(),
         },
         body: JSON.stringify({
           message: userMessage.content,
@@ -130,14 +144,36 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
           history: messages.slice(-10),
           planningMode: isPlanningMode,
           planningPreferences: isPlanningMode ? planningPrefs : undefined,
+          importedLayers: attachImports && importedLayers.length > 0 ? summarizeLayers(importedLayers) : undefined,
         }),
       });
 
+      if (response.status === 429) {
+        throw await rateLimitErrorFrom(response);
+      }
       if (!response.ok) {
         throw new Error('Failed to send message');
       }
-
-      const data = await response.json();
+      setAttachImports(false);
+
+      let data: ChatResponsePayload;
+      if (response.body) {
+        // Render the partial assistant message as text deltas arrive
+        let streamedText = '';
+        data = await readChatStream(response, (event) => {
+          if (event.type !== 'delta') return;
+          streamedText += event.text;
+          const visibleText = stripStreamingTags(streamedText);
+          setMessages((prev) => {
+            const streaming: Message = { id: assistantId, role: 'assistant', content: visibleText, isStreaming: true };
+            return prev.some((m) => m.id === assistantId)
+              ? prev.map((m) => (m.id === assistantId ? streaming : m))
+              : [...prev, streaming];
+          });
+        });
+      } else {
+        data = await response.json();
+      }
 
       // Use places from API response (renamed from placesV2)
       const placesData: Places | null = (data?.places && typeof data.places === 'object') ? (data.places as Places) : null;
@@ -203,7 +239,7 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
         : derivedPlacesByTimePeriod;
 
       const assistantMessage: Message = {
-        id: Date.now().toString() + '-assistant',
+        id: assistantId,
         role: 'assistant',
         content: data.message,
         map_action: data.mapAction,
@@ -214,16 +250,18 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
         responseTime: elapsedTimeRef.current || Math.floor((Date.now() - (startTimeRef.current || Date.now())) / 1000),
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      setMessages((prev) => [...prev.filter((m) => m.id !== assistantId), assistantMessage]);
       setConversationId(data.conversationId);
     } catch (error) {
       console.error('Chat error:', error);
       setMessages((prev) => [
-        ...prev,
+        ...prev.filter((m) => m.id !== assistantId),
         {
           id: Date.now().toString() + '-error',
           role: 'assistant',
-          content: 'Sorry, I encountered an error. Please try again.',
+          content: error instanceof RateLimitError
+            ? `You're sending messages too quickly. Please try again ${formatRetryAfter(error.retryAfterSeconds)}.`
+            : 'Sorry, I encountered an error. Please try again.',
           isError: true,
           failedMessage: userMessage.content,
         },
@@ -243,7 +281,29 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
   const clearChat = () => {
     setMessages([]);
     setConversationId(null);
-    clearPlacesCache();
+    onConversationChange?.(null);
+  };
+
+  // Reload a past conversation from the backend and make it the active one
+  const openConversation = async (conversation: Conversation) => {
+    if (isLoading) return;
+    setOpeningConversationId(conversation.id);
+    try {
+      const rows = await getConversationMessages(conversation.id);
+      setMessages(rows.map(toMessage));
+      setConversationId(conversation.id);
+      onConversationChange?.(conversation.id, conversation.place_choices ?? {});
+      setFlowchartData(null);
+      setIsHistoryOpen(false);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    } finally {
+      setOpeningConversationId(null);
+    }
+  };
+
+  const handleConversationDeleted = (deletedId: string) => {
+    if (deletedId === conversationId) clearChat();
   };
 
   const retryMessage = (failedMessage: string) => {
@@ -320,14 +380,33 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
             <CalendarDays className="h-4 w-4 mr-1" />
             <span className="text-xs">{isPlanningMode ? 'Planning' : 'Plan'}</span>
           </Button>
+          <Button
+            variant={isHistoryOpen ? "default" : "ghost"}
+            size="icon"
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+            title="Chat history"
+            className="h-8 w-8"
+          >
+            {openingConversationId ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+          </Button>
           {messages.length > 0 && (
-            <Button variant="ghost" size="icon" onClick={clearChat} className="h-8 w-8">
-              <Trash2 className="h-4 w-4" />
+            <Button variant="ghost" size="icon" onClick={clearChat} title="New chat" className="h-8 w-8">
+              <SquarePen className="h-4 w-4" />
             </Button>
           )}
         </div>
       </div>
 
+      {/* Conversation History Drawer - covers the chat body */}
+      {isHistoryOpen && (
+        <ConversationHistory
+          activeConversationId={conversationId}
+          onOpen={openConversation}
+          onDeleted={handleConversationDeleted}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
       {/* Scrollable Chat Body - positioned between header and footer */}
       <div
         className="absolute left-0 right-2 top-14 overflow-y-auto pb-6"
@@ -496,24 +575,25 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
                                 // Deduplicate places to avoid mismatch between count and results
                                 const uniquePlaces = Array.from(new Set(dayPlaces || []));
 
+                                // Another day can be picked while one is loading; the map cancels the first
                                 return (
                                   <Button
                                     key={day}
                                     variant="outline"
                                     size="sm"
                                     className="h-7 text-xs p-3 bg-background hover:bg-primary hover:text-primary-foreground border shrink-0 font-medium rounded-xl shadow-sm hover:shadow transition-all"
-                                    disabled={actionLoadingId !== null}
+                                    disabled={actionLoadingId === actionId}
                                     onClick={async () => {
                                       if (uniquePlaces.length > 0) {
                                         setActionLoadingId(actionId);
                                         try {
-                                          await onMapAction({ action: 'searchMany', queries: uniquePlaces });
+                                          await onMapAction({ action: 'searchMany', queries: uniquePlaces, conversationId });
                                           // Close chat on mobile
                                           if (window.innerWidth < 768) {
                                             onClose?.();
                                           }
                                         } finally {
-                                          setActionLoadingId(null);
+                                          setActionLoadingId((current) => (current === actionId ? null : current));
                                         }
                                       }
                                     }}
@@ -526,7 +606,7 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
                             </div>
                             <p className="text-[10px] text-muted-foreground italic flex items-center gap-1 md:gap-2 px-1">
                               <AlertCircle className="h-3 w-3" />
-                              Note: Place data might be unavailable.
+                              Places that may be wrong or were not found are marked in the list.
                             </p>
                           </div>
                         )}
@@ -561,6 +641,36 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
                           </div>
                         )}
 
+                        {/* Reachable Area Button */}
+                        {message.map_action?.action === 'isochrone' && (
+                          <div className="pt-2 border-t border-border/50">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs p-3 bg-background hover:bg-primary hover:text-primary-foreground border shrink-0 font-medium rounded-xl shadow-sm hover:shadow transition-all"
+                              disabled={actionLoadingId !== null}
+                              onClick={async () => {
+                                if (message.map_action) {
+                                  const actionId = `${message.id}-isochrone`;
+                                  setActionLoadingId(actionId);
+                                  try {
+                                    await onMapAction(message.map_action);
+                                    // Close chat on mobile
+                                    if (window.innerWidth < 768) {
+                                      onClose?.();
+                                    }
+                                  } finally {
+                                    setActionLoadingId(null);
+                                  }
+                                }
+                              }}
+                            >
+                              <Timer className="mr-2 h-4 w-4" />
+                              Show {message.map_action.minutes}-min Reach
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Response Metadata (Response Time) */}
                         {message.responseTime !== undefined && message.responseTime > 0 && (
                           <div className="pt-1.5 border-t border-border/30 flex items-center gap-1 text-[10px] text-muted-foreground/70">
@@ -573,7 +683,7 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
                   </div>
                 </div>
               ))}
-              {isLoading && (
+              {isLoading && !messages.some((m) => m.isStreaming) && (
                 <div className="flex justify-start">
                   <div className="rounded-2xl bg-muted px-4 py-3 flex items-center gap-6">
                     <Loader2 className="h-5 w-5 animate-spin" />
@@ -614,6 +724,21 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
 
         {/* Input Area */}
         <div className="border-t p-3 pb-safe">
+          {importedLayers.length > 0 && (
+            <button
+              onClick={() => setAttachImports(!attachImports)}
+              className={cn(
+                'mb-2 flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs transition-colors',
+                attachImports ? 'border-primary bg-primary/10 text-foreground' : 'text-muted-foreground hover:bg-accent'
+              )}
+              aria-pressed={attachImports}
+              title="Send a summary of the imported places and tracks with the next message"
+            >
+              <Paperclip className="h-3 w-3" />
+              {attachImports ? 'Attached: ' : 'Attach '}
+              {importedLayers.length === 1 ? importedLayers[0].name : `${importedLayers.length} imported layers`}
+            </button>
+          )}
           <div className="flex gap-2">
             <Input
               value={input}
@@ -649,7 +774,7 @@ export function ChatPanel({ onMapAction, selectedPlace, places = [], onClose, on
             if (window.innerWidth < 768) onClose?.();
           }}
           onDirections={(action) => {
-            onMapAction(action);
+            onMapAction({ ...action, conversationId });
             // Close flowchart to show directions on map
             setFlowchartData(null);
             // Close chat panel on mobile
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ConversationHistory } from './ConversationHistory';
+
+vi.stubGlobal('fetch', vi.fn());
+
+const conversations = [
+  { id: 'conv-2', title: 'Tokyo food tour', created_at: '2025-12-20T10:00:00Z', updated_at: '2025-12-21T10:00:00Z' },
+  { id: 'conv-1', title: 'Plan a 3-day trip to Paris', created_at: '2025-12-01T10:00:00Z', updated_at: '2025-12-02T10:00:00Z' },
+];
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 500, json: async () => body } as unknown as Response;
+}
+
+describe('ConversationHistory', () => {
+  const props = {
+    activeConversationId: null,
+    onOpen: vi.fn(),
+    onDeleted: vi.fn(),
+    onClose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list past conversations', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(conversations));
+
+    render(<ConversationHistory {...props} />);
+
+    expect(await screen.findByText('Tokyo food tour')).toBeInTheDocument();
+    expect(screen.getByText('Plan a 3-day trip to Paris')).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith(expect.stringContaining('/api/conversations'), expect.any(Object));
+  });
+
+  it('should show an empty state', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse([]));
+
+    render(<ConversationHistory {...props} />);
+
+    expect(await screen.findByText('No past conversations yet.')).toBeInTheDocument();
+  });
+
+  it('should show an error when loading fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: 'Failed to fetch conversations' }, false));
+
+    render(<ConversationHistory {...props} />);
+
+    expect(await screen.findByText('Could not load your conversations.')).toBeInTheDocument();
+  });
+
+  it('should open a conversation when its title is clicked', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(conversations));
+
+    render(<ConversationHistory {...props} />);
+    fireEvent.click(await screen.findByText('Tokyo food tour'));
+
+    expect(props.onOpen).toHaveBeenCalledWith(conversations[0]);
+  });
+
+  it('should rename a conversation', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(conversations))
+      .mockResolvedValueOnce(jsonResponse({ ...conversations[0], title: 'Tokyo ramen crawl' }));
+
+    render(<ConversationHistory {...props} />);
+    await screen.findByText('Tokyo food tour');
+
+    fireEvent.click(screen.getAllByTitle('Rename')[0]);
+    const input = screen.getByLabelText('Conversation title');
+    fireEvent.change(input, { target: { value: 'Tokyo ramen crawl' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(await screen.findByText('Tokyo ramen crawl')).toBeInTheDocument();
+    expect(fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('/api/conversations/conv-2'),
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ title: 'Tokyo ramen crawl' }) })
+    );
+  });
+
+  it('should delete a conversation after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValueOnce(true);
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(conversations))
+      .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+    render(<ConversationHistory {...props} />);
+    await screen.findByText('Tokyo food tour');
+
+    fireEvent.click(screen.getAllByTitle('Delete')[0]);
+
+    await waitFor(() => expect(screen.queryByText('Tokyo food tour')).not.toBeInTheDocument());
+    expect(props.onDeleted).toHaveBeenCalledWith('conv-2');
+    expect(fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('/api/conversations/conv-2'),
+      expect.objectContaining({ method: 'DELETE' })
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2, Pencil, Trash2, X, Check, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { deleteConversation, listConversations, renameConversation, type Conversation } from '@/lib/conversations';
+
+interface ConversationHistoryProps {
+  activeConversationId: string | null;
+  onOpen: (conversation: Conversation) => void;
+  onDeleted: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+function formatConversationDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: sameYear ? undefined : 'numeric',
+  });
+}
+
+export function ConversationHistory({ activeConversationId, onOpen, onDeleted, onClose }: ConversationHistoryProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listConversations()
+      .then((data) => {
+        if (!cancelled) setConversations(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load conversations:', err);
+        if (!cancelled) setError('Could not load your conversations.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const saveRename = async () => {
+    if (!editingId) return;
+    const title = editingTitle.trim();
+    const original = conversations.find((c) => c.id === editingId);
+    if (!title || title === original?.title) {
+      setEditingId(null);
+      return;
+    }
+
+    setBusyId(editingId);
+    try {
+      const updated = await renameConversation(editingId, title);
+      setConversations((prev) => prev.map((c) => (c.id === updated.id ? { ...c, title: updated.title } : c)));
+      setEditingId(null);
+    } catch (err) {
+      console.error('Failed to rename conversation:', err);
+      setError('Could not rename the conversation.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+
+    setBusyId(conversation.id);
+    try {
+      await deleteConversation(conversation.id);
+      setConversations((prev) => prev.filter((c) => c.id !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+      setError('Could not delete the conversation.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-x-0 top-14 bottom-0 z-20 flex flex-col bg-background" data-testid="conversation-history">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h3 className="font-medium text-sm flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Chat history
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8" title="Close history">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {error && (
+          <p className="mx-2 mb-2 flex items-center gap-1.5 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 && !error ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No past conversations yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={cn(
+                  'group flex items-center gap-1 rounded-lg px-2 py-1.5 hover:bg-accent',
+                  conversation.id === activeConversationId && 'bg-muted'
+                )}
+              >
+                {editingId === conversation.id ? (
+                  <>
+                    <Input
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      aria-label="Conversation title"
+                      className="h-8 flex-1 text-sm"
+                      autoFocus
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={saveRename}
+                      disabled={busyId === conversation.id}
+                      className="h-7 w-7 shrink-0"
+                      title="Save title"
+                    >
+                      <Check className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onOpen(conversation)}
+                      className="min-w-0 flex-1 text-left"
+                    >
+                      <span className="block truncate text-sm">{conversation.title}</span>
+                      <span className="block text-[11px] text-muted-foreground">
+                        {formatConversationDate(conversation.updated_at)}
+                      </span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => startRename(conversation)}
+                      disabled={busyId === conversation.id}
+                      className="h-7 w-7 shrink-0"
+                      title="Rename"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(conversation)}
+                      disabled={busyId === conversation.id}
+                      className="h-7 w-7 shrink-0"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
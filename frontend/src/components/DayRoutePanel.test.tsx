@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DayRoutePanel } from './DayRoutePanel';
+import type { MultiStopRouteResult } from '@/types';
+
+const result: MultiStopRouteResult = {
+  title: 'Day 1',
+  stops: ['Senso-ji Temple, Tokyo, Japan', 'Tokyo Skytree, Tokyo, Japan', 'Hotel Gracery Shinjuku, Tokyo, Japan'],
+  mode: 'driving',
+  duration: '42 min',
+  distance: '15.3 km',
+  durationValue: 2520,
+  distanceValue: 15300,
+  legs: [
+    { from: 'Senso-ji Temple, Tokyo, Japan', to: 'Tokyo Skytree, Tokyo, Japan', duration: '8 min', distance: '2.1 km', durationValue: 480, distanceValue: 2100 },
+    { from: 'Tokyo Skytree, Tokyo, Japan', to: 'Hotel Gracery Shinjuku, Tokyo, Japan', duration: '34 min', distance: '13.2 km', durationValue: 2040, distanceValue: 13200 },
+  ],
+};
+
+describe('DayRoutePanel', () => {
+  it('should show the day total and a line per leg', () => {
+    render(<DayRoutePanel result={result} onClose={vi.fn()} />);
+
+    expect(screen.getByText('Day 1 route')).toBeInTheDocument();
+    expect(screen.getByText(/Total 42 min · 15.3 km/)).toBeInTheDocument();
+    expect(screen.getByText(/Senso-ji Temple → Tokyo Skytree/)).toBeInTheDocument();
+    expect(screen.getByText('8 min · 2.1 km')).toBeInTheDocument();
+    expect(screen.getByText(/Tokyo Skytree → Hotel Gracery Shinjuku/)).toBeInTheDocument();
+    expect(screen.getByText('34 min · 13.2 km')).toBeInTheDocument();
+  });
+
+  it('should warn about stops found far from the others', () => {
+    render(<DayRoutePanel result={{ ...result, suspectStops: ['Tokyo Skytree, Tokyo, Japan'] }} onClose={vi.fn()} />);
+
+    expect(screen.getByText('Tokyo Skytree was found far from the other stops and may be the wrong place.')).toBeInTheDocument();
+  });
+
+  it('should show an error without a result', () => {
+    const onClose = vi.fn();
+    render(<DayRoutePanel result={null} error="No route found through these stops." onClose={onClose} />);
+
+    expect(screen.getByText('Day route')).toBeInTheDocument();
+    expect(screen.getByText('No route found through these stops.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Close route'));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
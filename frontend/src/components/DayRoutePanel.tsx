@@ -0,0 +1,78 @@
+import { Route, AlertCircle, AlertTriangle } from 'lucide-react';
+import type { MultiStopRouteResult } from '@/types';
+
+interface DayRoutePanelProps {
+  result: MultiStopRouteResult | null;
+  error?: string | null;
+  onClose: () => void;
+}
+
+const MODE_ICONS: Record<MultiStopRouteResult['mode'], string> = {
+  driving: '🚗',
+  walking: '🚶',
+  bicycling: '🚴',
+};
+
+// Short stop label: the part of the place name before the city and country
+function stopLabel(stop: string): string {
+  return stop.split(',')[0].trim();
+}
+
+export function DayRoutePanel({ result, error, onClose }: DayRoutePanelProps) {
+  return (
+    <div
+      className="fixed md:absolute bottom-20 md:bottom-4 left-1/2 -translate-x-1/2 bg-background border rounded-lg shadow-lg p-3 md:p-4 z-[1050] max-w-md w-[90%] sm:w-96"
+      data-testid="day-route-panel"
+    >
+      <div className="flex items-baseline justify-between mb-1 md:mb-2">
+        <div>
+          <h3 className="font-semibold text-xs md:text-sm flex items-center gap-1.5">
+            <Route className="h-3.5 w-3.5" />
+            {result?.title ? `${result.title} route` : 'Day route'}
+          </h3>
+          {result && (
+            <p className="text-[10px] text-muted-foreground">
+              {MODE_ICONS[result.mode]} Total {result.duration} · {result.distance} · Estimates only
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground text-base md:text-lg leading-none"
+          title="Close route"
+        >
+          ×
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-destructive">
+          <AlertCircle className="h-3.5 w-3.5" />
+          {error}
+        </p>
+      )}
+
+      {result?.suspectStops && result.suspectStops.length > 0 && (
+        <p className="flex items-start gap-1.5 mb-2 text-xs text-amber-600 dark:text-amber-500">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          {result.suspectStops.map(stopLabel).join(', ')} {result.suspectStops.length === 1 ? 'was' : 'were'} found far from the other stops and may be the wrong place.
+        </p>
+      )}
+
+      {result && (
+        <ol className="space-y-1 max-h-48 overflow-y-auto text-xs md:text-sm">
+          {result.legs.map((leg, index) => (
+            <li key={index} className="flex items-center justify-between gap-2 rounded bg-muted/50 p-1.5 md:p-2">
+              <span className="min-w-0 truncate">
+                <span className="font-medium">{index + 1}.</span> {stopLabel(leg.from)} → {stopLabel(leg.to)}
+              </span>
+              <span className="shrink-0 text-muted-foreground text-[10px] md:text-xs">
+                {leg.duration} · {leg.distance}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
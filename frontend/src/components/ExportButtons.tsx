@@ -0,0 +1,30 @@
+import { Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/export';
+
+interface ExportButtonsProps {
+  label: string;
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ExportButtons({ label, onExport, disabled = false, className }: ExportButtonsProps) {
+  return (
+    <div className={cn('flex items-center gap-1.5 text-xs text-muted-foreground', className)}>
+      <Download className="h-3.5 w-3.5 shrink-0" />
+      <span className="mr-auto">{label}</span>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={disabled}
+          className="rounded border px-1.5 py-0.5 hover:bg-muted hover:text-foreground disabled:opacity-50"
+          title={`Download as ${EXPORT_FORMATS[format].label}`}
+        >
+          {EXPORT_FORMATS[format].label}
+        </button>
+      ))}
+    </div>
+  );
+}
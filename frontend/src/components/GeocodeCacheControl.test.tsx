@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { GeocodeCacheControl } from './GeocodeCacheControl';
+import { clearPlacesCache, getPlacesCacheStats } from '@/lib/geocoding';
+
+vi.mock('@/lib/geocoding', () => ({
+  clearPlacesCache: vi.fn(),
+  getPlacesCacheStats: vi.fn(),
+}));
+
+describe('GeocodeCacheControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the cache stats and purge the cache', async () => {
+    vi.mocked(getPlacesCacheStats)
+      .mockResolvedValueOnce({ entries: 42, maxEntries: 1000, hits: 9, misses: 3, evictions: 0 })
+      .mockResolvedValueOnce({ entries: 0, maxEntries: 1000, hits: 0, misses: 0, evictions: 0 });
+    vi.mocked(clearPlacesCache).mockResolvedValue();
+    render(<GeocodeCacheControl />);
+
+    fireEvent.click(screen.getByTitle('Place search cache'));
+
+    expect(await screen.findByText('42 of 1000')).toBeInTheDocument();
+    expect(screen.getByText('9 of 12')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Clear cache'));
+
+    await waitFor(() => expect(screen.getByText('0 of 1000')).toBeInTheDocument());
+    expect(clearPlacesCache).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Clear cache').closest('button')).toBeDisabled();
+  });
+});
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { clearPlacesCache, getPlacesCacheStats } from '@/lib/geocoding';
+import type { GeocodeCacheStats } from '@/lib/geocodeCache';
+
+// Header button showing how many place searches the browser keeps, with a purge
+export function GeocodeCacheControl() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<GeocodeCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refresh = async () => setStats(await getPlacesCacheStats());
+
+  const toggle = () => {
+    if (!isOpen) refresh();
+    setIsOpen(!isOpen);
+  };
+
+  const clear = async () => {
+    setIsClearing(true);
+    try {
+      await clearPlacesCache();
+      await refresh();
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="ghost" size="icon" onClick={toggle} aria-expanded={isOpen} title="Place search cache">
+        <Database className="h-5 w-5" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-60 rounded-lg border bg-background p-3 shadow-lg space-y-2 text-xs z-[1100]" data-testid="geocode-cache">
+          <p className="font-semibold text-sm">Place search cache</p>
+          {stats ? (
+            <dl className="grid grid-cols-[1fr_auto] gap-x-3 gap-y-1 text-muted-foreground">
+              <dt>Saved searches</dt>
+              <dd className="text-right text-foreground">{stats.entries} of {stats.maxEntries}</dd>
+              <dt>Answered from cache</dt>
+              <dd className="text-right text-foreground">{stats.hits} of {stats.hits + stats.misses}</dd>
+              <dt>Dropped as least used</dt>
+              <dd className="text-right text-foreground">{stats.evictions}</dd>
+            </dl>
+          ) : (
+            <p className="text-muted-foreground">Loading...</p>
+          )}
+          <Button size="sm" variant="outline" className="w-full" onClick={clear} disabled={isClearing || stats?.entries === 0}>
+            <Trash2 className="h-3.5 w-3.5 mr-2" />
+            Clear cache
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ImportedLayersControl } from './ImportedLayersControl';
+import type { ImportedLayer } from '@/lib/import';
+
+const layers: ImportedLayer[] = [
+  {
+    id: 'layer-1',
+    fileName: 'favorites.gpx',
+    name: 'Paris favorites',
+    visible: true,
+    points: [{ name: 'Eiffel Tower', lat: 48.8584, lng: 2.2945 }],
+    tracks: [],
+  },
+  {
+    id: 'layer-2',
+    fileName: 'walk.kml',
+    name: 'Seine walk',
+    visible: false,
+    points: [],
+    tracks: [{ name: 'Seine walk', geometry: [[2.3, 48.85], [2.31, 48.86]] }],
+  },
+];
+
+const renderControl = (props: Partial<Parameters<typeof ImportedLayersControl>[0]> = {}) => {
+  const result = render(
+    <ImportedLayersControl
+      layers={layers}
+      error={null}
+      onImportFiles={vi.fn()}
+      onToggleLayer={vi.fn()}
+      onRemoveLayer={vi.fn()}
+      {...props}
+    />
+  );
+  fireEvent.click(screen.getByTitle('Imported layers'));
+  return result;
+};
+
+describe('ImportedLayersControl', () => {
+  it('should toggle and remove layers', () => {
+    const onToggleLayer = vi.fn();
+    const onRemoveLayer = vi.fn();
+    renderControl({ onToggleLayer, onRemoveLayer });
+
+    expect(screen.getByRole('checkbox', { name: 'Paris favorites' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'Seine walk' })).not.toBeChecked();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Seine walk' }));
+    expect(onToggleLayer).toHaveBeenCalledWith('layer-2');
+
+    fireEvent.click(screen.getByTitle('Remove Paris favorites'));
+    expect(onRemoveLayer).toHaveBeenCalledWith('layer-1');
+  });
+
+  it('should hand picked files over and show import errors', () => {
+    const onImportFiles = vi.fn();
+    renderControl({ layers: [], onImportFiles, error: 'notes.txt is not a GPX, GeoJSON or KML file.' });
+
+    expect(screen.getByText('Drop GPX, GeoJSON or KML files on the map, or pick them below.')).toBeInTheDocument();
+    expect(screen.getByText('notes.txt is not a GPX, GeoJSON or KML file.')).toBeInTheDocument();
+
+    const file = new File(['{}'], 'trip.geojson', { type: 'application/geo+json' });
+    fireEvent.change(screen.getByTestId('import-file-input'), { target: { files: [file] } });
+    expect(onImportFiles).toHaveBeenCalledWith([file]);
+  });
+});
@@ -0,0 +1,87 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, Layers, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ImportedLayer } from '@/lib/import';
+
+interface ImportedLayersControlProps {
+  layers: ImportedLayer[];
+  error: string | null;
+  onImportFiles: (files: File[]) => void;
+  onToggleLayer: (id: string) => void;
+  onRemoveLayer: (id: string) => void;
+}
+
+export function ImportedLayersControl({ layers, error, onImportFiles, onToggleLayer, onRemoveLayer }: ImportedLayersControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="fixed md:absolute right-4 bottom-24 md:bottom-8 z-[1000] flex flex-col-reverse items-end gap-2">
+      <Button
+        variant="secondary"
+        size="icon"
+        className="shadow-lg bg-background hover:bg-accent"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        title="Imported layers"
+      >
+        <Layers className="h-4 w-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="w-64 rounded-lg border bg-background p-3 shadow-lg space-y-2 text-xs" data-testid="imported-layers">
+          <p className="font-semibold text-sm">Imported layers</p>
+
+          {layers.length === 0 ? (
+            <p className="text-muted-foreground">Drop GPX, GeoJSON or KML files on the map, or pick them below.</p>
+          ) : (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {layers.map((layer) => (
+                <li key={layer.id} className="flex items-center gap-2">
+                  <label className="flex min-w-0 flex-1 items-center gap-2">
+                    <input type="checkbox" checked={layer.visible} onChange={() => onToggleLayer(layer.id)} />
+                    <span className="truncate" title={layer.fileName}>{layer.name}</span>
+                  </label>
+                  <span className="shrink-0 text-muted-foreground">
+                    {layer.points.length + layer.tracks.length}
+                  </span>
+                  <button
+                    onClick={() => onRemoveLayer(layer.id)}
+                    className="shrink-0 text-muted-foreground hover:text-foreground"
+                    title={`Remove ${layer.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-destructive">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          <Button size="sm" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-3.5 w-3.5 mr-2" />
+            Import file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,.geojson,.json,.kml"
+            multiple
+            className="hidden"
+            data-testid="import-file-input"
+            onChange={(e) => {
+              onImportFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
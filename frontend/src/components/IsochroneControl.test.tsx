@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { IsochroneControl } from './IsochroneControl';
+import type { IsochroneResult, PlaceData } from '@/types';
+
+const louvre: PlaceData = {
+  id: 'louvre',
+  displayName: 'Louvre Museum',
+  formattedAddress: 'Rue de Rivoli, Paris',
+  location: { lat: 48.8606, lng: 2.3376 },
+};
+
+const result: IsochroneResult = {
+  label: 'Louvre Museum',
+  center: { lat: 48.8606, lng: 2.3376 },
+  profile: 'foot-walking',
+  polygons: [{ minutes: 15, rings: [[[2.32, 48.85], [2.35, 48.85], [2.35, 48.87], [2.32, 48.85]]] }],
+};
+
+const renderControl = (props: Partial<Parameters<typeof IsochroneControl>[0]> = {}) =>
+  render(
+    <IsochroneControl
+      origin={null}
+      result={null}
+      error={null}
+      isLoading={false}
+      onRequest={vi.fn()}
+      onClear={vi.fn()}
+      {...props}
+    />
+  );
+
+describe('IsochroneControl', () => {
+  it('should request the picked time and mode around the selected place', () => {
+    const onRequest = vi.fn();
+    renderControl({ origin: louvre, onRequest });
+
+    fireEvent.click(screen.getByTitle('Reachable area'));
+    expect(screen.getByText('Around Louvre Museum')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('30 min'));
+    fireEvent.click(screen.getByTitle('Reachable by cycling'));
+    fireEvent.click(screen.getByText('Show reachable area'));
+
+    expect(onRequest).toHaveBeenCalledWith(30, 'cycling-regular');
+  });
+
+  it('should fall back to the current location', () => {
+    renderControl();
+
+    fireEvent.click(screen.getByTitle('Reachable area'));
+
+    expect(screen.getByText('Around my location')).toBeInTheDocument();
+  });
+
+  it('should describe the drawn area and clear it', () => {
+    const onClear = vi.fn();
+    renderControl({ result, onClear });
+
+    fireEvent.click(screen.getByTitle('Reachable area'));
+    expect(screen.getByText('15 min walking from Louvre Museum')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Clear'));
+    expect(onClear).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { AlertCircle, Loader2, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { IsochroneResult, PlaceData } from '@/types';
+
+type IsochroneProfile = IsochroneResult['profile'];
+
+interface IsochroneControlProps {
+  origin: PlaceData | null; // Place to draw around; the current location when null
+  result: IsochroneResult | null;
+  error: string | null;
+  isLoading: boolean;
+  onRequest: (minutes: number, profile: IsochroneProfile) => void;
+  onClear: () => void;
+}
+
+const MINUTE_OPTIONS = [10, 15, 30];
+
+const PROFILE_OPTIONS: { profile: IsochroneProfile; label: string; icon: string }[] = [
+  { profile: 'foot-walking', label: 'walking', icon: '🚶' },
+  { profile: 'cycling-regular', label: 'cycling', icon: '🚴' },
+  { profile: 'driving-car', label: 'driving', icon: '🚗' },
+];
+
+const profileLabel = (profile: IsochroneProfile) =>
+  PROFILE_OPTIONS.find((option) => option.profile === profile)?.label ?? profile;
+
+export function IsochroneControl({ origin, result, error, isLoading, onRequest, onClear }: IsochroneControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [minutes, setMinutes] = useState(15);
+  const [profile, setProfile] = useState<IsochroneProfile>('foot-walking');
+  const largest = result?.polygons[result.polygons.length - 1];
+
+  return (
+    <div className="fixed md:absolute right-4 top-[7rem] md:top-14 z-[1000] flex flex-col items-end gap-2">
+      <Button
+        variant="secondary"
+        size="icon"
+        className="shadow-lg bg-background hover:bg-accent"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        title="Reachable area"
+      >
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Timer className="h-4 w-4" />}
+      </Button>
+
+      {isOpen && (
+        <div className="w-64 rounded-lg border bg-background p-3 shadow-lg space-y-2 text-xs" data-testid="isochrone-control">
+          <p className="font-semibold text-sm">Reachable area</p>
+          <p className="text-muted-foreground truncate">
+            Around {origin ? origin.displayName : 'my location'}
+          </p>
+
+          <div className="flex gap-1.5">
+            {MINUTE_OPTIONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setMinutes(option)}
+                className={cn('flex-1 rounded border px-2 py-1', minutes === option ? 'border-foreground/20 bg-muted font-medium' : 'border-transparent bg-muted/50 hover:bg-muted')}
+                aria-pressed={minutes === option}
+              >
+                {option} min
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-1.5">
+            {PROFILE_OPTIONS.map((option) => (
+              <button
+                key={option.profile}
+                onClick={() => setProfile(option.profile)}
+                className={cn('flex-1 rounded border px-2 py-1', profile === option.profile ? 'border-foreground/20 bg-muted font-medium' : 'border-transparent bg-muted/50 hover:bg-muted')}
+                aria-pressed={profile === option.profile}
+                title={`Reachable by ${option.label}`}
+              >
+                {option.icon}
+              </button>
+            ))}
+          </div>
+
+          <Button size="sm" className="w-full" disabled={isLoading} onClick={() => onRequest(minutes, profile)}>
+            Show reachable area
+          </Button>
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-destructive">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {result && largest && (
+            <div className="flex items-center justify-between gap-2 border-t pt-2 text-muted-foreground">
+              <span className="min-w-0 truncate">
+                {largest.minutes} min {profileLabel(result.profile)} from {result.label}
+              </span>
+              <button onClick={onClear} className="shrink-0 hover:text-foreground">
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
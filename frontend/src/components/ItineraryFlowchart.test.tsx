@@ -1,8 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, within } from '@testing-library/react';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
 import { ItineraryFlowchart } from './ItineraryFlowchart';
+import { lookupPlace } from '@/lib/placeLookup';
+import { getMultiStopRoute, optimizeStopOrder } from '@/lib/routing';
+import { downloadExport } from '@/lib/export';
 import type { TimePeriodPlaces, PlaceData, PlacesDay } from '@/types';
 
+vi.mock('@/lib/placeLookup', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/placeLookup')>()),
+  lookupPlace: vi.fn(),
+}));
+
+vi.mock('@/lib/routing', () => ({
+  getMultiStopRoute: vi.fn(),
+  optimizeStopOrder: vi.fn(),
+}));
+
+vi.mock('@/lib/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/export')>()),
+  downloadExport: vi.fn(),
+}));
+
 const mockTimePeriods: TimePeriodPlaces = {
   Morning: ['Senso-ji Temple Tokyo, Japan', 'Nakamise Street Tokyo, Japan'],
   Afternoon: ['Tokyo Skytree Tokyo, Japan', 'Ueno Park Tokyo, Japan'],
@@ -346,4 +364,274 @@ describe('ItineraryFlowchart', () => {
     // Should have directions button for Tokyo Skytree (from Senso-ji Temple)
     expect(screen.getByText('Get Directions')).toBeInTheDocument();
   });
+
+  it('should route the whole day through the selected stops in order', () => {
+    const day: PlacesDay = {
+      key: 'Day 1',
+      periods: {
+        Morning: [
+          { options: ['Senso-ji Temple Tokyo, Japan'] },
+          { options: ['Asakusa Shrine Tokyo, Japan', 'Hoppy Street Tokyo, Japan'] },
+        ],
+        Evening: [{ options: ['Shibuya Crossing Tokyo, Japan'] }],
+        Accommodation: [{ options: ['Hotel Gracery Shinjuku Tokyo, Japan'] }],
+      },
+    };
+
+    render(
+      <ItineraryFlowchart
+        day="Day 1"
+        placesDay={day}
+        places={mockPlaces}
+        onPlaceClick={mockOnPlaceClick}
+        onDirections={mockOnDirections}
+        onClose={mockOnClose}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Hoppy Street'));
+    fireEvent.click(screen.getByText('Route whole day'));
+
+    expect(mockOnDirections).toHaveBeenCalledWith({
+      action: 'route',
+      title: 'Day 1',
+      waypoints: [
+        'Senso-ji Temple Tokyo, Japan',
+        'Hoppy Street Tokyo, Japan',
+        'Shibuya Crossing Tokyo, Japan',
+        'Hotel Gracery Shinjuku Tokyo, Japan',
+      ],
+    });
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('should not offer a day route for a single stop', () => {
+    render(
+      <ItineraryFlowchart
+        day="Day 1"
+        timePeriods={{ Morning: ['Senso-ji Temple Tokyo, Japan'] }}
+        places={mockPlaces}
+        onPlaceClick={mockOnPlaceClick}
+        onDirections={mockOnDirections}
+        onClose={mockOnClose}
+      />
+    );
+
+    expect(screen.queryByText('Route whole day')).not.toBeInTheDocument();
+  });
+
+  describe('optimize order', () => {
+    const day: PlacesDay = {
+      key: 'Day 1',
+      periods: {
+        Morning: [
+          { options: ['Senso-ji Temple Tokyo, Japan'] },
+          { options: ['Asakusa Shrine Tokyo, Japan', 'Hoppy Street Tokyo, Japan'] },
+          { options: ['Ueno Park Tokyo, Japan'] },
+        ],
+        Accommodation: [{ options: ['Hotel Gracery Shinjuku Tokyo, Japan'] }],
+      },
+    };
+
+    const renderDay = () =>
+      render(
+        <ItineraryFlowchart
+          day="Day 1"
+          placesDay={day}
+          places={mockPlaces}
+          onPlaceClick={mockOnPlaceClick}
+          onDirections={mockOnDirections}
+          onClose={mockOnClose}
+        />
+      );
+
+    beforeEach(() => {
+      vi.mocked(lookupPlace).mockImplementation(async (query: string) => ({
+        id: `osm:node:${query.length}`, displayName: query, formattedAddress: query, location: { lat: 35.7, lng: 139.8 },
+      }));
+    });
+
+    it('should preview the saving and reorder the stops when applied', async () => {
+      vi.mocked(optimizeStopOrder).mockResolvedValueOnce({
+        order: [[2, 0, 1]],
+        duration: 1800,
+        originalDuration: 2700,
+      });
+      renderDay();
+
+      fireEvent.click(screen.getByText('Hoppy Street'));
+      fireEvent.click(screen.getByText('Optimize order'));
+
+      expect(await screen.findByText('New order saves 15 min')).toBeInTheDocument();
+      expect(lookupPlace).toHaveBeenCalledWith('Hoppy Street Tokyo, Japan', { countryCode: 'jp' });
+      // Senso-ji Temple is already on the map
+      expect(lookupPlace).not.toHaveBeenCalledWith('Senso-ji Temple Tokyo, Japan', expect.anything());
+      expect(vi.mocked(optimizeStopOrder).mock.calls[0][0]).toHaveLength(1);
+      expect(vi.mocked(optimizeStopOrder).mock.calls[0][0][0]).toHaveLength(3);
+      expect(vi.mocked(optimizeStopOrder).mock.calls[0][1]).toEqual({ lat: 35.7, lng: 139.8 });
+
+      fireEvent.click(screen.getByText('Apply'));
+      expect(screen.queryByTestId('order-proposal')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Route whole day'));
+      expect(mockOnDirections).toHaveBeenCalledWith({
+        action: 'route',
+        title: 'Day 1',
+        waypoints: [
+          'Ueno Park Tokyo, Japan',
+          'Senso-ji Temple Tokyo, Japan',
+          'Hoppy Street Tokyo, Japan',
+          'Hotel Gracery Shinjuku Tokyo, Japan',
+        ],
+      });
+    });
+
+    it('should keep the current order when the proposal is declined', async () => {
+      vi.mocked(optimizeStopOrder).mockResolvedValueOnce({
+        order: [[2, 0, 1]],
+        duration: 1800,
+        originalDuration: 2700,
+      });
+      renderDay();
+
+      fireEvent.click(screen.getByText('Optimize order'));
+      fireEvent.click(await screen.findByText('Keep current'));
+      fireEvent.click(screen.getByText('Route whole day'));
+
+      expect(mockOnDirections).toHaveBeenCalledWith(expect.objectContaining({
+        waypoints: [
+          'Senso-ji Temple Tokyo, Japan',
+          'Asakusa Shrine Tokyo, Japan',
+          'Ueno Park Tokyo, Japan',
+          'Hotel Gracery Shinjuku Tokyo, Japan',
+        ],
+      }));
+    });
+
+    it('should say when the order is already the fastest', async () => {
+      vi.mocked(optimizeStopOrder).mockResolvedValueOnce({
+        order: [[0, 1, 2]],
+        duration: 1800,
+        originalDuration: 1800,
+      });
+      renderDay();
+
+      fireEvent.click(screen.getByText('Optimize order'));
+
+      expect(await screen.findByText('This order is already the fastest.')).toBeInTheDocument();
+      expect(screen.queryByText('Apply')).not.toBeInTheDocument();
+    });
+
+    it('should show an error when a stop cannot be found', async () => {
+      vi.mocked(lookupPlace).mockResolvedValue(null);
+      renderDay();
+
+      fireEvent.click(screen.getByText('Optimize order'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Could not find Asakusa Shrine Tokyo, Japan.')).toBeInTheDocument();
+      });
+      expect(optimizeStopOrder).not.toHaveBeenCalled();
+    });
+
+    it('should not offer to optimize a single stop per period', () => {
+      render(
+        <ItineraryFlowchart
+          day="Day 1"
+          timePeriods={{ Morning: ['Senso-ji Temple Tokyo, Japan'], Evening: ['Shibuya Crossing Tokyo, Japan'] }}
+          places={mockPlaces}
+          onPlaceClick={mockOnPlaceClick}
+          onDirections={mockOnDirections}
+          onClose={mockOnClose}
+        />
+      );
+
+      expect(screen.getByText('Route whole day')).toBeInTheDocument();
+      expect(screen.queryByText('Optimize order')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('export', () => {
+    const renderDay = () =>
+      render(
+        <ItineraryFlowchart
+          day="Day 1"
+          timePeriods={{
+            Morning: ['Senso-ji Temple', 'Nakamise Street Tokyo, Japan'],
+            Accommodation: ['Hotel Gracery Shinjuku Tokyo, Japan'],
+          }}
+          places={mockPlaces}
+          onPlaceClick={mockOnPlaceClick}
+          onDirections={mockOnDirections}
+          onClose={mockOnClose}
+        />
+      );
+
+    beforeEach(() => {
+      vi.mocked(lookupPlace).mockImplementation(async (query: string) => ({
+        id: `osm:node:${query.length}`, displayName: query, formattedAddress: query, location: { lat: 35.7, lng: 139.8 },
+      }));
+    });
+
+    it('should download the stops with their periods and the route through them', async () => {
+      vi.mocked(getMultiStopRoute).mockResolvedValueOnce({
+        geometry: [[139.7967, 35.7148], [139.8, 35.7]],
+      } as Awaited<ReturnType<typeof getMultiStopRoute>>);
+      renderDay();
+
+      fireEvent.click(screen.getByTitle('Download as GPX'));
+
+      await waitFor(() => expect(downloadExport).toHaveBeenCalled());
+      expect(downloadExport).toHaveBeenCalledWith({
+        name: 'Day 1',
+        points: [
+          { name: 'Senso-ji Temple', period: 'Morning', lat: 35.7148, lng: 139.7967 },
+          { name: 'Nakamise Street Tokyo, Japan', period: 'Morning', lat: 35.7, lng: 139.8 },
+          { name: 'Hotel Gracery Shinjuku Tokyo, Japan', period: 'Stay', lat: 35.7, lng: 139.8 },
+        ],
+        tracks: [{ name: 'Day 1 route', geometry: [[139.7967, 35.7148], [139.8, 35.7]] }],
+      }, 'gpx');
+      // Senso-ji Temple is already on the map
+      expect(lookupPlace).not.toHaveBeenCalledWith('Senso-ji Temple', expect.anything());
+    });
+
+    it('should use the place picked for a stop instead of looking it up again', async () => {
+      vi.mocked(getMultiStopRoute).mockResolvedValueOnce(null);
+      const picked: PlaceData = {
+        id: 'osm:node:42',
+        displayName: 'Nakamise-dori',
+        formattedAddress: 'Nakamise-dori, Asakusa, Tokyo, Japan',
+        location: { lat: 35.7115, lng: 139.7964 },
+        query: 'Nakamise Street Tokyo, Japan',
+        matchQuality: 'confirmed',
+      };
+      render(
+        <ItineraryFlowchart
+          day="Day 1"
+          timePeriods={{ Morning: ['Senso-ji Temple', 'Nakamise Street Tokyo, Japan'] }}
+          places={[...mockPlaces, picked]}
+          onPlaceClick={mockOnPlaceClick}
+          onDirections={mockOnDirections}
+          onClose={mockOnClose}
+        />
+      );
+
+      fireEvent.click(screen.getByTitle('Download as GPX'));
+
+      await waitFor(() => expect(downloadExport).toHaveBeenCalled());
+      expect(vi.mocked(downloadExport).mock.calls[0][0].points[1]).toMatchObject({ lat: 35.7115, lng: 139.7964 });
+      expect(lookupPlace).not.toHaveBeenCalled();
+    });
+
+    it('should export the stops alone when no route is found', async () => {
+      vi.mocked(getMultiStopRoute).mockResolvedValueOnce(null);
+      renderDay();
+
+      fireEvent.click(screen.getByTitle('Download as KML'));
+
+      await waitFor(() => expect(downloadExport).toHaveBeenCalled());
+      expect(vi.mocked(downloadExport).mock.calls[0][0].tracks).toEqual([]);
+      expect(vi.mocked(downloadExport).mock.calls[0][1]).toBe('kml');
+    });
+  });
 });
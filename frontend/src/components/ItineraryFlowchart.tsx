@@ -1,9 +1,14 @@
 import { useMemo, useState, type ReactNode } from 'react';
-import { Sunrise, Sun, Sunset, Hotel, ChevronRight, X, Calendar, Star, ArrowRight, Check, Navigation, Clock } from 'lucide-react';
+import { Sunrise, Sun, Sunset, Hotel, ChevronRight, X, Calendar, Star, ArrowRight, Check, Navigation, Clock, Route, Shuffle, Loader2 } from 'lucide-react';
 // All icons used: Calendar (header), Star (rating), ChevronRight (arrow), ArrowRight (alternatives label), Check (selected option)
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { lookupPlace, placeChoiceKey, tripCountryCode } from '@/lib/placeLookup';
+import { getMultiStopRoute, optimizeStopOrder } from '@/lib/routing';
+import { downloadExport, type ExportFormat, type ExportPoint, type ExportTrack } from '@/lib/export';
+import { ExportButtons } from '@/components/ExportButtons';
+import { formatRetryAfter, RateLimitError } from '@/lib/rateLimit';
 import type { TimePeriodPlaces, PlaceData, MapAction, PlacesDay, PlacesStop } from '@/types';
 
 interface ItineraryFlowchartProps {
@@ -27,8 +32,22 @@ const TIME_PERIOD_CONFIG = {
 
 type TimePeriodKey = keyof typeof TIME_PERIOD_CONFIG;
 
+// A proposed stop order from "Optimize order": for each period, the current
+// index of the stop that goes at each position
+interface OrderProposal {
+  order: Partial<Record<TimePeriodKey, number[]>>;
+  savingMinutes: number;
+}
+
 export function ItineraryFlowchart({ day, timePeriods, placesDay, places, onPlaceClick, onDirections, onClose }: Omit<ItineraryFlowchartProps, 'directionSummaries' | 'onRequestTravelTime'>) {
   const [selectedAlternativeIndex, setSelectedAlternativeIndex] = useState<Record<string, number>>({});
+  // Accepted "Optimize order" result: for each period, the original index of the stop at each position
+  const [stopOrder, setStopOrder] = useState<Partial<Record<TimePeriodKey, number[]>>>({});
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [orderProposal, setOrderProposal] = useState<OrderProposal | null>(null);
+  const [optimizeError, setOptimizeError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const cleanPlaceName = (placeName: string) => {
     let cleaned = placeName.replace(/\*\*/g, '').trim();
@@ -85,6 +104,22 @@ export function ItineraryFlowchart({ day, timePeriods, placesDay, places, onPlac
     return nodes;
   };
 
+  // Where a stop is: the place already looked up or picked for it when there is
+  // one, otherwise a lookup in the trip's country like the map makes
+  const locateStop = async (name: string): Promise<{ lat: number; lng: number }> => {
+    const key = placeChoiceKey(name);
+    const needle = normalizeForMatch(name);
+    const known = places.find((place) => place.location && (
+      (place.query !== undefined && placeChoiceKey(place.query) === key) ||
+      place.displayName.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim() === needle
+    ));
+    if (known?.location) return known.location;
+
+    const place = await lookupPlace(name, { countryCode: tripCountryCode(places) });
+    if (!place?.location) throw new Error(`Could not find ${name}.`);
+    return place.location;
+  };
+
   // Find matching PlaceData for a place name
   const findPlaceData = (placeName: string): PlaceData | undefined => {
     const needle = normalizeForMatch(placeName);
@@ -238,12 +273,13 @@ export function ItineraryFlowchart({ day, timePeriods, placesDay, places, onPlac
     const result: Record<string, Stop[]> = {};
     for (const period of activityPeriods) {
       const stops = buildPeriodStops(period);
+      const order = stopOrder[period];
       if (stops.length > 0) {
-        result[period] = stops;
+        result[period] = order && order.length === stops.length ? order.map((index) => stops[index]) : stops;
       }
     }
     return result;
-  }, [placesDay, timePeriods]);
+  }, [placesDay, timePeriods, stopOrder]);
 
   // Accommodation stops (separate section, no directions)
   const accommodationStops = useMemo(() => {
@@ -256,6 +292,130 @@ export function ItineraryFlowchart({ day, timePeriods, placesDay, places, onPlac
   const nonEmptyPeriods = activityPeriods.filter(p => (stopsByPeriod[p]?.length ?? 0) > 0);
   const totalStops = Object.values(stopsByPeriod).reduce((acc, stops) => acc + stops.length, 0) + accommodationStops.length;
 
+  const selectedOption = (stopKey: string, stop: Stop) => {
+    const idx = selectedAlternativeIndex[stopKey] ?? 0;
+    return stop.options[Math.min(idx, stop.options.length - 1)] || stop.options[0];
+  };
+
+  // Morning -> Afternoon -> Evening -> Accommodation with the chosen alternatives, for "Route whole day"
+  const dayRouteStops = [
+    ...nonEmptyPeriods.flatMap((period) =>
+      stopsByPeriod[period]
+        .map((stop, stopIdx) => ({ stop, stopKey: `${period}:::${stopIdx}` }))
+        .filter(({ stop }) => !stop.isSuggestion)
+        .map(({ stop, stopKey }) => cleanPlaceName(selectedOption(stopKey, stop)))
+    ),
+    ...(accommodationStops.length > 0 ? [cleanPlaceName(selectedOption('Accommodation:::0', accommodationStops[0]))] : []),
+  ];
+
+  // Positions of the stops "Optimize order" may move; suggestions keep their place
+  const movableSlots = (period: TimePeriodKey) =>
+    stopsByPeriod[period].map((stop, stopIdx) => (stop.isSuggestion ? -1 : stopIdx)).filter((stopIdx) => stopIdx >= 0);
+  const canOptimize = nonEmptyPeriods.some((period) => movableSlots(period).length >= 2);
+
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    setOptimizeError(null);
+    setOrderProposal(null);
+    try {
+      const slots = nonEmptyPeriods.map(movableSlots);
+      const periodCoords: { lat: number; lng: number }[][] = [];
+      for (const [p, period] of nonEmptyPeriods.entries()) {
+        const coords = [];
+        for (const stopIdx of slots[p]) {
+          const stop = stopsByPeriod[period][stopIdx];
+          coords.push(await locateStop(cleanPlaceName(selectedOption(`${period}:::${stopIdx}`, stop))));
+        }
+        periodCoords.push(coords);
+      }
+      const end = accommodationStops.length > 0
+        ? await locateStop(cleanPlaceName(selectedOption('Accommodation:::0', accommodationStops[0])))
+        : null;
+
+      const result = await optimizeStopOrder(periodCoords, end);
+      if (!result) throw new Error('Could not optimize the order of this day.');
+
+      // Map the new order of the movable stops back onto each period's positions
+      const order: OrderProposal['order'] = {};
+      nonEmptyPeriods.forEach((period, p) => {
+        const positions = stopsByPeriod[period].map((_, stopIdx) => stopIdx);
+        result.order[p].forEach((slot, k) => {
+          positions[slots[p][k]] = slots[p][slot];
+        });
+        order[period] = positions;
+      });
+
+      const saving = result.originalDuration === null ? 0 : result.originalDuration - result.duration;
+      setOrderProposal({ order, savingMinutes: Math.round(saving / 60) });
+    } catch (err) {
+      console.error('Failed to optimize stop order:', err);
+      setOptimizeError(err instanceof RateLimitError
+        ? `Too many route requests. Please try again ${formatRetryAfter(err.retryAfterSeconds)}.`
+        : err instanceof Error ? err.message : 'Could not optimize the order of this day.');
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  // Download the day's stops, labeled with their period, and the route through them
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const stops = [
+        ...nonEmptyPeriods.flatMap((period) =>
+          stopsByPeriod[period]
+            .map((stop, stopIdx) => ({ stop, stopKey: `${period}:::${stopIdx}` }))
+            .filter(({ stop }) => !stop.isSuggestion)
+            .map(({ stop, stopKey }) => ({ name: cleanPlaceName(selectedOption(stopKey, stop)), period: TIME_PERIOD_CONFIG[period].label }))
+        ),
+        ...(accommodationStops.length > 0
+          ? [{ name: cleanPlaceName(selectedOption('Accommodation:::0', accommodationStops[0])), period: TIME_PERIOD_CONFIG.Accommodation.label }]
+          : []),
+      ];
+
+      const points: ExportPoint[] = [];
+      for (const stop of stops) {
+        const location = await locateStop(stop.name);
+        points.push({ ...stop, lat: location.lat, lng: location.lng });
+      }
+
+      const tracks: ExportTrack[] = [];
+      if (points.length >= 2) {
+        const route = await getMultiStopRoute(points);
+        if (route) tracks.push({ name: `${day} route`, geometry: route.geometry });
+      }
+
+      downloadExport({ name: day, points, tracks }, format);
+    } catch (err) {
+      console.error('Failed to export day:', err);
+      setExportError(err instanceof RateLimitError
+        ? `Too many route requests. Please try again ${formatRetryAfter(err.retryAfterSeconds)}.`
+        : err instanceof Error ? err.message : 'Could not export this day.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Accept the proposal: compose it with any earlier order and carry the chosen alternatives along
+  const applyOrderProposal = () => {
+    if (!orderProposal) return;
+    const nextStopOrder = { ...stopOrder };
+    const nextSelected = { ...selectedAlternativeIndex };
+    for (const [period, positions] of Object.entries(orderProposal.order) as [TimePeriodKey, number[]][]) {
+      const current = stopOrder[period] ?? positions.map((_, stopIdx) => stopIdx);
+      nextStopOrder[period] = positions.map((stopIdx) => current[stopIdx]);
+      positions.forEach((stopIdx, newIdx) => {
+        const selected = selectedAlternativeIndex[`${period}:::${stopIdx}`];
+        if (selected === undefined) delete nextSelected[`${period}:::${newIdx}`];
+        else nextSelected[`${period}:::${newIdx}`] = selected;
+      });
+    }
+    setStopOrder(nextStopOrder);
+    setSelectedAlternativeIndex(nextSelected);
+    setOrderProposal(null);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="relative w-full md:max-w-lg md:mx-4 bg-background md:rounded-2xl rounded-t-2xl shadow-2xl overflow-hidden max-h-[90vh] md:max-h-[85vh] animate-in slide-in-from-bottom-4 duration-300">
@@ -278,6 +438,61 @@ export function ItineraryFlowchart({ day, timePeriods, placesDay, places, onPlac
               <X className="h-5 w-5" />
             </Button>
           </div>
+          {dayRouteStops.length >= 2 && (
+            <div className="relative space-y-2 px-4 pb-4 md:px-5">
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1 rounded-full"
+                  onClick={() => {
+                    onDirections({ action: 'route', waypoints: dayRouteStops, title: day });
+                    onClose();
+                  }}
+                >
+                  <Route className="h-4 w-4 mr-2" />
+                  Route whole day
+                </Button>
+                {canOptimize && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 rounded-full"
+                    onClick={handleOptimize}
+                    disabled={isOptimizing}
+                  >
+                    {isOptimizing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Shuffle className="h-4 w-4 mr-2" />}
+                    Optimize order
+                  </Button>
+                )}
+              </div>
+
+              {optimizeError && <p className="text-xs text-destructive">{optimizeError}</p>}
+
+              {orderProposal && (
+                <div className="flex items-center justify-between gap-2 rounded-xl border bg-background/80 p-2 text-sm" data-testid="order-proposal">
+                  {orderProposal.savingMinutes >= 1 ? (
+                    <>
+                      <span>New order saves {orderProposal.savingMinutes} min</span>
+                      <div className="flex gap-1">
+                        <Button size="sm" className="h-7 rounded-full" onClick={applyOrderProposal}>Apply</Button>
+                        <Button size="sm" variant="ghost" className="h-7 rounded-full" onClick={() => setOrderProposal(null)}>
+                          Keep current
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <span>This order is already the fastest.</span>
+                      <Button size="sm" variant="ghost" className="h-7 rounded-full" onClick={() => setOrderProposal(null)}>OK</Button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <ExportButtons label={isExporting ? 'Preparing export...' : 'Export day'} onExport={handleExport} disabled={isExporting} />
+              {exportError && <p className="text-xs text-destructive">{exportError}</p>}
+            </div>
+          )}
         </div>
 
         {/* Timeline Content */}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, waitFor } from '@testing-library/react';
+import { OpenStreetMap } from './OpenStreetMap';
+import { isSearchCached, searchPlaces } from '@/lib/geocoding';
+import { placeChoiceKey } from '@/lib/placeLookup';
+import { getMultiStopRoute } from '@/lib/routing';
+import type { MapAction, PlaceData } from '@/types';
+
+// The shared setup mocks only part of react-leaflet and of the map
+vi.mock('react-leaflet', () => ({
+  MapContainer: ({ children }: { children: React.ReactNode }) => children,
+  TileLayer: () => null,
+  Marker: ({ children }: { children: React.ReactNode }) => children,
+  Popup: ({ children }: { children: React.ReactNode }) => children,
+  Polyline: () => null,
+  Polygon: () => null,
+  CircleMarker: () => null,
+  useMap: () => ({
+    setView: vi.fn(),
+    fitBounds: vi.fn(),
+    invalidateSize: vi.fn(),
+    getBounds: () => ({ getWest: () => -180, getSouth: () => -90, getEast: () => 180, getNorth: () => 90 }),
+  }),
+}));
+
+vi.mock('@/lib/geocoding', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/geocoding')>()),
+  searchPlaces: vi.fn(),
+  isSearchCached: vi.fn(),
+}));
+
+vi.mock('@/lib/routing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/routing')>()),
+  getMultiStopRoute: vi.fn(),
+}));
+
+describe('OpenStreetMap', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isSearchCached).mockResolvedValue(false);
+    vi.mocked(searchPlaces).mockResolvedValue([
+      { id: 'osm:node:1', name: 'Louvre Museum', label: 'Louvre Museum, Paris, France', lat: 48.8606, lng: 2.3376 },
+    ]);
+    vi.mocked(getMultiStopRoute).mockResolvedValue({
+      mode: 'driving',
+      duration: '10 mins',
+      distance: '3 km',
+      durationValue: 600,
+      distanceValue: 3000,
+      geometry: [],
+      steps: [],
+      alternatives: [],
+      legs: [],
+    });
+  });
+
+  it('should route through the place the user picked for a stop instead of looking it up', async () => {
+    const picked: PlaceData = {
+      id: 'picked',
+      displayName: 'Old Town',
+      formattedAddress: 'Old Town, Edinburgh, United Kingdom',
+      location: { lat: 55.95, lng: -3.19 },
+      matchQuality: 'confirmed',
+    };
+    const mapAction: MapAction = {
+      action: 'route',
+      waypoints: ['Old Town', 'Louvre Museum'],
+      placeChoices: { [placeChoiceKey('Old Town')]: picked },
+      _timestamp: 1,
+    };
+    const onRouteResult = vi.fn();
+
+    render(<OpenStreetMap mapAction={mapAction} onRouteResult={onRouteResult} />);
+
+    await waitFor(() => expect(onRouteResult).toHaveBeenCalled());
+    expect(vi.mocked(searchPlaces).mock.calls.map(([query]) => query)).not.toContain('Old Town');
+    expect(getMultiStopRoute).toHaveBeenCalledWith([{ lat: 55.95, lng: -3.19 }, { lat: 48.8606, lng: 2.3376 }], undefined, expect.anything());
+  });
+});
@@ -1,14 +1,16 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
+import { Fragment, useEffect, useRef, useState, useCallback } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Polygon, CircleMarker, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { Locate, Loader2 } from 'lucide-react';
-import type { MapAction, PlaceData, DirectionResult, DirectionError } from '@/types';
+import { Locate, Loader2, Upload } from 'lucide-react';
+import type { MapAction, PlaceData, DirectionResult, DirectionError, MultiStopRouteResult, TravelMode, IsochroneResult } from '@/types';
 import { MAX_ROUTE_DISTANCE } from '@/types';
-import { MAP_DEFAULTS } from '@/constants';
+import { MAP_DEFAULTS, ROUTE_MODE_COLORS, SUSPECT_MATCH_DISTANCE_KM } from '@/constants';
 import { getCurrentLocation } from '@/lib/geolocation';
 import { Button } from '@/components/ui/button';
-import { searchPlaces, nominatimToPlaceData } from '@/lib/nominatim';
-import { getAllDirections, type RouteResult } from '@/lib/routing';
+import { flagSuspectMatches, lookupPlace, matchPlaces, needsReview, tripCountryCode, viewboxFromBounds, type LookupBias } from '@/lib/placeLookup';
+import { getAllDirections, getMultiStopRoute, getIsochrones, type RouteResult } from '@/lib/routing';
+import { rateLimitMessage, RateLimitError } from '@/lib/rateLimit';
+import type { ImportedLayer } from '@/lib/import';
 
 // Fix Leaflet default marker icon issue
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
@@ -37,41 +39,108 @@ const currentLocationIcon = L.divIcon({
     iconAnchor: [10, 10],
 });
 
+// A drawn route: one per travel mode for directions, or a single line without a mode for a day route
+interface RouteLine {
+    mode?: TravelMode;
+    geometry: [number, number][]; // [lat, lng] pairs
+    alternatives: [number, number][][]; // Other routes the engine found for this mode
+}
+
+// Reachable areas are drawn in one color, the larger ones fainter
+const ISOCHRONE_COLOR = '#7C3AED';
+const IMPORTED_LAYER_COLOR = '#0891B2';
+
+// Recently resolved places whose country biases the next lookups
+const MAX_CONTEXT_PLACES = 20;
+
+// Convert [lng, lat] to [lat, lng]
+const toLatLngs = (geometry: [number, number][]) => geometry.map((coord): [number, number] => [coord[1], coord[0]]);
+
 interface OpenStreetMapProps {
     mapAction?: MapAction | null;
     onPlaceSelect?: (place: PlaceData) => void;
     onPlaceDetailsLoaded?: (place: PlaceData) => void;
     onDirectionsResult?: (result: DirectionResult) => void;
     onDirectionsError?: (error: DirectionError) => void;
+    onRouteResult?: (result: MultiStopRouteResult) => void;
+    onIsochroneResult?: (result: IsochroneResult) => void;
+    onIsochroneError?: (message: string) => void;
     onSearchResults?: (places: PlaceData[]) => void;
+    onSearchProgress?: (places: PlaceData[], total: number) => void; // Places a 'searchMany' has found so far, in query order
+    onSearchError?: (message: string) => void; // A place search the server asked to wait with
+    tripKey?: string; // Conversation whose resolved places bias lookups; each key keeps its own
     placeIdToFetch?: string | null;
     resizeTrigger?: any; // To trigger map.invalidateSize()
+    selectedRouteMode?: TravelMode | null; // Travel mode whose route is emphasized and fitted
+    highlightedSegment?: [number, number] | null; // [from, to] indices into the selected route, e.g. a hovered step
+    isochrone?: IsochroneResult | null; // Reachable area to draw
+    importedLayers?: ImportedLayer[]; // Layers imported from files; only visible ones are drawn
+    onFilesDropped?: (files: File[]) => void;
 }
 
 // Component to handle map actions that require map instance
 function MapController({
     mapAction,
     setMarkers,
-    setRouteGeometry,
+    routeLines,
+    setRouteLines,
+    selectedRouteMode,
     onDirectionsResult,
     onDirectionsError,
+    onRouteResult,
+    onIsochroneResult,
+    onIsochroneError,
     onPlaceDetailsLoaded,
     onSearchResults,
+    onSearchProgress,
+    onSearchError,
+    tripKey = '',
     resizeTrigger,
+    importedLayers,
 }: {
     mapAction?: MapAction | null;
     markers: Array<{ position: [number, number]; title?: string; id?: string }>;
     setMarkers: React.Dispatch<React.SetStateAction<Array<{ position: [number, number]; title?: string; id?: string }>>>;
-    routeGeometry: [number, number][];
-    setRouteGeometry: React.Dispatch<React.SetStateAction<[number, number][]>>;
+    routeLines: RouteLine[];
+    setRouteLines: React.Dispatch<React.SetStateAction<RouteLine[]>>;
+    selectedRouteMode?: TravelMode | null;
     onDirectionsResult?: (result: DirectionResult) => void;
     onDirectionsError?: (error: DirectionError) => void;
+    onRouteResult?: (result: MultiStopRouteResult) => void;
+    onIsochroneResult?: (result: IsochroneResult) => void;
+    onIsochroneError?: (message: string) => void;
     onPlaceDetailsLoaded?: (place: PlaceData) => void;
     onSearchResults?: (places: PlaceData[]) => void;
+    onSearchProgress?: (places: PlaceData[], total: number) => void;
+    onSearchError?: (message: string) => void;
+    tripKey?: string;
     resizeTrigger?: any;
+    importedLayers?: ImportedLayer[];
 }) {
     const map = useMap();
     const processedActionRef = useRef<string | null>(null);
+    const fittedModeRef = useRef<TravelMode | null>(null);
+    const fittedLayerIdsRef = useRef(new Set<string>());
+    // Places resolved so far per conversation, so one trip's country never filters the next
+    const contextPlacesRef = useRef<Record<string, PlaceData[]>>({});
+    const lookupControllerRef = useRef<AbortController | null>(null);
+
+    // Favor the visible area and the country of the places resolved so far
+    const lookupBias = useCallback((): LookupBias => {
+        const bounds = map.getBounds();
+        return {
+            viewbox: viewboxFromBounds({ west: bounds.getWest(), south: bounds.getSouth(), east: bounds.getEast(), north: bounds.getNorth() }),
+            countryCode: tripCountryCode(contextPlacesRef.current[tripKey] ?? []),
+        };
+    }, [map, tripKey]);
+
+    const rememberPlaces = useCallback((places: PlaceData[]) => {
+        const context = contextPlacesRef.current;
+        context[tripKey] = [...(context[tripKey] ?? []), ...places].slice(-MAX_CONTEXT_PLACES);
+    }, [tripKey]);
+
+    // Stop lookups when the map goes away
+    useEffect(() => () => lookupControllerRef.current?.abort(), []);
 
     // Invalidate map size when sidebar opens/closes
     useEffect(() => {
@@ -80,6 +149,30 @@ function MapController({
         }, 300); // Wait for CSS transitions
     }, [resizeTrigger, map]);
 
+    // Fit the map to a travel mode's route when it is picked in the Travel Times panel
+    useEffect(() => {
+        if (!selectedRouteMode || selectedRouteMode === fittedModeRef.current) return;
+        const line = routeLines.find((l) => l.mode === selectedRouteMode);
+        if (!line || line.geometry.length === 0) return;
+        fittedModeRef.current = selectedRouteMode;
+        map.fitBounds(L.latLngBounds(line.geometry), { padding: [50, 50] });
+    }, [selectedRouteMode, routeLines, map]);
+
+    // Fit the map to a layer when it is imported
+    useEffect(() => {
+        const added = (importedLayers ?? []).filter((layer) => !fittedLayerIdsRef.current.has(layer.id));
+        if (added.length === 0) return;
+        added.forEach((layer) => fittedLayerIdsRef.current.add(layer.id));
+        const layer = added[added.length - 1];
+        const positions: [number, number][] = [
+            ...layer.points.map((point): [number, number] => [point.lat, point.lng]),
+            ...layer.tracks.flatMap((track) => toLatLngs(track.geometry)),
+        ];
+        if (positions.length > 0) {
+            map.fitBounds(L.latLngBounds(positions), { padding: [50, 50], maxZoom: 16 });
+        }
+    }, [importedLayers, map]);
+
     useEffect(() => {
         if (!mapAction) return;
 
@@ -88,22 +181,28 @@ function MapController({
         if (processedActionRef.current === actionId) return;
         processedActionRef.current = actionId;
 
+        // Any new action but moving the view cancels lookups still running for the previous one
+        if (mapAction.action !== 'goto') {
+            lookupControllerRef.current?.abort();
+            lookupControllerRef.current = new AbortController();
+        }
+        // Each step below returns once a newer action has taken over
+        const signal = (lookupControllerRef.current ?? new AbortController()).signal;
+
         const handleAction = async () => {
             switch (mapAction.action) {
                 case 'searchOne':
                     if (mapAction.query) {
                         try {
-                            const results = await searchPlaces(mapAction.query, {
-                                limit: 1,
-                                bounded: false // Bias only, don't strictly limit
-                            });
+                            const place = await lookupPlace(mapAction.query, lookupBias(), signal);
+                            if (signal.aborted) return;
 
-                            if (results.length > 0) {
-                                const place = nominatimToPlaceData(results[0]);
+                            if (place) {
+                                rememberPlaces([place]);
                                 const position: [number, number] = [place.location!.lat, place.location!.lng];
 
                                 setMarkers([{ position, title: place.displayName, id: place.id }]);
-                                setRouteGeometry([]);
+                                setRouteLines([]);
                                 map.setView(position, 16);
 
                                 onPlaceDetailsLoaded?.(place);
@@ -112,7 +211,9 @@ function MapController({
                                 onSearchResults?.([]);
                             }
                         } catch (error) {
+                            if (signal.aborted) return;
                             console.error('Search error:', error);
+                            if (error instanceof RateLimitError) onSearchError?.(rateLimitMessage(error));
                             onSearchResults?.([]);
                         }
                     } else {
@@ -122,50 +223,47 @@ function MapController({
 
                 case 'searchMany':
                     if (mapAction.queries && mapAction.queries.length > 0) {
-                        try {
-                            const newMarkers: Array<{ position: [number, number]; title?: string; id?: string }> = [];
-                            const bounds = L.latLngBounds([]);
-                            const foundPlaces: PlaceData[] = [];
-
-                            // Process queries sequentially with delay to avoid Nominatim rate limits
-                            for (let query of mapAction.queries) {
-                                try {
-                                    const results = await searchPlaces(query, {
-                                        limit: 1,
-                                        bounded: false // Bias only
-                                    });
-                                    if (results.length > 0) {
-                                        const place = nominatimToPlaceData(results[0]);
-                                        foundPlaces.push(place);
-                                        const position: [number, number] = [place.location!.lat, place.location!.lng];
-                                        newMarkers.push({ position, title: place.displayName, id: place.id });
-                                        bounds.extend(position);
-                                        onPlaceDetailsLoaded?.(place);
-                                    }
-                                    // Small delay between requests
-                                    await new Promise(resolve => setTimeout(resolve, 300));
-                                } catch (err) {
-                                    console.error(`Error searching for ${query}:`, err);
-                                }
-                            }
+                        const queries = mapAction.queries;
+                        const found: (PlaceData | undefined)[] = new Array(queries.length);
+                        const markersOf = (places: (PlaceData | undefined)[]) => places.flatMap((place) =>
+                            place?.location ? [{ position: [place.location.lat, place.location.lng] as [number, number], title: place.displayName, id: place.id }] : []);
 
-                            if (newMarkers.length > 0) {
-                                setMarkers(newMarkers);
-                                setRouteGeometry([]);
-                                if (newMarkers.length === 1) {
-                                    map.setView(newMarkers[0].position, 16);
-                                } else {
-                                    map.fitBounds(bounds, { padding: [50, 50] });
-                                }
+                        setRouteLines([]);
+                        setMarkers([]);
+                        try {
+                            // Show each place on the map and in the list as soon as it is found
+                            let foundPlaces = await matchPlaces(queries, lookupBias(), {
+                                choices: mapAction.placeChoices,
+                                signal,
+                                onMatch: (place, index) => {
+                                    found[index] = place;
+                                    const soFar = found.filter((entry): entry is PlaceData => entry !== undefined);
+                                    setMarkers(markersOf(found));
+                                    onSearchProgress?.(soFar, queries.length);
+                                },
+                            });
 
-                                // Use the foundPlaces we already collected
-                                onSearchResults?.(foundPlaces);
-                            } else {
-                                onSearchResults?.([]);
+                            foundPlaces = flagSuspectMatches(foundPlaces, SUSPECT_MATCH_DISTANCE_KM);
+                            rememberPlaces(foundPlaces.filter((place) => place.location && !needsReview(place)));
+                            const newMarkers = markersOf(foundPlaces);
+                            if (newMarkers.length === 1) {
+                                map.setView(newMarkers[0].position, 16);
+                            } else if (newMarkers.length > 1) {
+                                map.fitBounds(L.latLngBounds(newMarkers.map((marker) => marker.position)), { padding: [50, 50] });
                             }
+                            // Unresolved names are listed too, for the user to search again
+                            onSearchResults?.(foundPlaces);
                         } catch (error) {
+                            // Another action took over; it reports its own results
+                            if (signal.aborted) return;
                             console.error('Search many error:', error);
-                            onSearchResults?.([]);
+                            if (error instanceof RateLimitError) {
+                                // Keep what was found before the server asked to wait
+                                onSearchError?.(rateLimitMessage(error));
+                                onSearchResults?.(found.filter((entry): entry is PlaceData => entry !== undefined));
+                            } else {
+                                onSearchResults?.([]);
+                            }
                         }
                     } else {
                         onSearchResults?.([]);
@@ -176,7 +274,7 @@ function MapController({
                     if (mapAction.lat !== undefined && mapAction.lng !== undefined) {
                         const position: [number, number] = [mapAction.lat, mapAction.lng];
                         setMarkers([{ position, title: mapAction.title }]);
-                        setRouteGeometry([]);
+                        setRouteLines([]);
                         map.setView(position, mapAction.zoom || 15);
                     }
                     break;
@@ -191,27 +289,25 @@ function MapController({
 
                 case 'directions':
                     if (mapAction.origin && mapAction.destination) {
-                        setRouteGeometry([]);
+                        setRouteLines([]);
                         setMarkers([]);
 
                         try {
-                            // Resolve origin and destination using searchPlaces for full data
-                            const [originResults, destResults] = await Promise.all([
+                            // Resolve origin and destination for full place data
+                            const bias = lookupBias();
+                            const [originPlace, destPlace] = await Promise.all([
                                 mapAction.origin.toLowerCase() === 'my location'
-                                    ? getCurrentLocation({ reverseGeocode: true }).then(loc => [{
-                                        place_id: 0,
-                                        display_name: loc.address || 'My Location',
-                                        lat: loc.latitude.toString(),
-                                        lon: loc.longitude.toString(),
-                                        type: 'location',
-                                        class: 'user'
-                                    }])
-                                    : searchPlaces(mapAction.origin, { limit: 1 }),
-                                searchPlaces(mapAction.destination, { limit: 1 })
+                                    ? getCurrentLocation({ reverseGeocode: true }).then((loc): PlaceData => ({
+                                        id: 'my-location',
+                                        displayName: 'My Location',
+                                        formattedAddress: loc.address || 'My Location',
+                                        location: { lat: loc.latitude, lng: loc.longitude },
+                                        types: ['location', 'user'],
+                                    }))
+                                    : lookupPlace(mapAction.origin, bias, signal),
+                                lookupPlace(mapAction.destination, bias, signal)
                             ]);
-
-                            const originPlace = originResults.length > 0 ? nominatimToPlaceData(originResults[0] as any) : null;
-                            const destPlace = destResults.length > 0 ? nominatimToPlaceData(destResults[0] as any) : null;
+                            if (signal.aborted) return;
 
                             if (!originPlace || !destPlace) {
                                 onDirectionsError?.({
@@ -222,12 +318,14 @@ function MapController({
                                 });
                                 return;
                             }
+                            rememberPlaces([originPlace, destPlace]);
 
                             const originCoords = { lat: originPlace.location!.lat, lng: originPlace.location!.lng };
                             const destCoords = { lat: destPlace.location!.lat, lng: destPlace.location!.lng };
 
                             // Get all routes
-                            const routes = await getAllDirections(originCoords, destCoords);
+                            const routes = await getAllDirections(originCoords, destCoords, { signal });
+                            if (signal.aborted) return;
 
                             if (routes.length === 0) {
                                 onDirectionsError?.({
@@ -258,12 +356,14 @@ function MapController({
                                 return;
                             }
 
-                            // Use first route (driving) for display
-                            const primaryRoute = validRoutes[0];
-                            const geometry = primaryRoute.geometry.map(
-                                (coord): [number, number] => [coord[1], coord[0]] // Convert [lng, lat] to [lat, lng]
-                            );
-                            setRouteGeometry(geometry);
+                            // Draw every mode; the map fits the first one (driving) until another is picked
+                            setRouteLines(validRoutes.map((r) => ({
+                                mode: r.mode,
+                                geometry: toLatLngs(r.geometry),
+                                alternatives: r.alternatives.map((alternative) => toLatLngs(alternative.geometry)),
+                            })));
+                            const geometry = toLatLngs(validRoutes[0].geometry);
+                            fittedModeRef.current = validRoutes[0].mode;
 
                             // Add origin and destination markers
                             setMarkers([
@@ -289,16 +389,153 @@ function MapController({
                                     distance: r.distance,
                                     durationValue: r.durationValue,
                                     distanceValue: r.distanceValue,
+                                    geometry: r.geometry,
+                                    steps: r.steps,
+                                    alternatives: r.alternatives,
                                 })),
                             });
                         } catch (error) {
+                            if (signal.aborted) return;
                             console.error('Directions error:', error);
-                            onDirectionsError?.({
-                                type: 'UNKNOWN_ERROR',
-                                message: 'Failed to get directions. Please try again.',
-                                origin: mapAction.origin,
-                                destination: mapAction.destination,
+                            if (error instanceof RateLimitError) {
+                                onDirectionsError?.({
+                                    type: 'OVER_QUERY_LIMIT',
+                                    message: rateLimitMessage(error),
+                                    origin: mapAction.origin,
+                                    destination: mapAction.destination,
+                                });
+                            } else {
+                                onDirectionsError?.({
+                                    type: 'UNKNOWN_ERROR',
+                                    message: 'Failed to get directions. Please try again.',
+                                    origin: mapAction.origin,
+                                    destination: mapAction.destination,
+                                });
+                            }
+                        }
+                    }
+                    break;
+
+                case 'route':
+                    if (mapAction.waypoints && mapAction.waypoints.length >= 2) {
+                        const stops = mapAction.waypoints;
+                        const origin = stops[0];
+                        const destination = stops[stops.length - 1];
+                        setRouteLines([]);
+                        setMarkers([]);
+
+                        try {
+                            let stopPlaces = await matchPlaces(stops, lookupBias(), { choices: mapAction.placeChoices, signal });
+                            if (signal.aborted) return;
+                            const missing = stopPlaces.findIndex((place) => !place.location);
+                            if (missing !== -1) {
+                                onDirectionsError?.({
+                                    type: 'INVALID_REQUEST',
+                                    message: `Could not find ${stops[missing]}.`,
+                                    origin,
+                                    destination,
+                                });
+                                return;
+                            }
+                            stopPlaces = flagSuspectMatches(stopPlaces, SUSPECT_MATCH_DISTANCE_KM);
+                            rememberPlaces(stopPlaces.filter((place) => !place.suspectMatch));
+
+                            const route = await getMultiStopRoute(stopPlaces.map((place) => place.location!), undefined, { signal });
+                            if (signal.aborted) return;
+                            if (!route) {
+                                onDirectionsError?.({
+                                    type: 'NO_ROUTE',
+                                    message: 'No route found through these stops.',
+                                    origin,
+                                    destination,
+                                });
+                                return;
+                            }
+
+                            const geometry = toLatLngs(route.geometry);
+                            setRouteLines([{ geometry, alternatives: [] }]);
+                            setMarkers(stopPlaces.map((place, index) => ({
+                                position: [place.location!.lat, place.location!.lng],
+                                title: `${index + 1}. ${place.displayName}`,
+                                id: place.id,
+                            })));
+                            if (geometry.length > 0) {
+                                map.fitBounds(L.latLngBounds(geometry), { padding: [50, 50] });
+                            }
+
+                            onRouteResult?.({
+                                title: mapAction.title,
+                                stops,
+                                suspectStops: stops.filter((_, index) => stopPlaces[index].suspectMatch),
+                                mode: route.mode,
+                                duration: route.duration,
+                                distance: route.distance,
+                                durationValue: route.durationValue,
+                                distanceValue: route.distanceValue,
+                                legs: route.legs.map((leg, index) => ({ from: stops[index], to: stops[index + 1], ...leg })),
                             });
+                        } catch (error) {
+                            if (signal.aborted) return;
+                            console.error('Route error:', error);
+                            onDirectionsError?.(error instanceof RateLimitError
+                                ? {
+                                    type: 'OVER_QUERY_LIMIT',
+                                    message: rateLimitMessage(error),
+                                    origin,
+                                    destination,
+                                }
+                                : {
+                                    type: 'UNKNOWN_ERROR',
+                                    message: 'Failed to get the route. Please try again.',
+                                    origin,
+                                    destination,
+                                });
+                        }
+                    }
+                    break;
+
+                case 'isochrone':
+                    if (mapAction.minutes) {
+                        const label = mapAction.origin || 'My Location';
+                        const profile = mapAction.profile ?? 'driving-car';
+
+                        try {
+                            // Center on the given coordinates, the current location or the named place
+                            let center: { lat: number; lng: number };
+                            if (mapAction.lat !== undefined && mapAction.lng !== undefined) {
+                                center = { lat: mapAction.lat, lng: mapAction.lng };
+                            } else if (label.toLowerCase() === 'my location') {
+                                const location = await getCurrentLocation({ reverseGeocode: false });
+                                if (signal.aborted) return;
+                                center = { lat: location.latitude, lng: location.longitude };
+                            } else {
+                                const place = await lookupPlace(label, lookupBias(), signal);
+                                if (signal.aborted) return;
+                                if (!place) {
+                                    onIsochroneError?.(`Could not find ${label}.`);
+                                    return;
+                                }
+                                center = place.location!;
+                            }
+
+                            const polygons = await getIsochrones(center, [mapAction.minutes], profile, { signal });
+                            if (signal.aborted) return;
+                            if (!polygons || polygons.length === 0) {
+                                onIsochroneError?.('Could not find the reachable area.');
+                                return;
+                            }
+
+                            const outer = toLatLngs(polygons[polygons.length - 1].rings[0]);
+                            if (outer.length > 0) {
+                                map.fitBounds(L.latLngBounds(outer), { padding: [50, 50] });
+                            }
+                            onIsochroneResult?.({ label, center, profile, polygons });
+                        } catch (error) {
+                            if (signal.aborted) return;
+                            console.error('Isochrone error:', error);
+                            onIsochroneError?.(error instanceof RateLimitError
+                                ? rateLimitMessage(error)
+                                : 'Failed to get the reachable area. Please try again.');
                         }
                     }
                     break;
@@ -308,7 +545,7 @@ function MapController({
         };
 
         handleAction();
-    }, [mapAction, map, setMarkers, setRouteGeometry, onDirectionsResult, onDirectionsError, onPlaceDetailsLoaded, onSearchResults]);
+    }, [mapAction, map, setMarkers, setRouteLines, onDirectionsResult, onDirectionsError, onRouteResult, onIsochroneResult, onIsochroneError, onPlaceDetailsLoaded, onSearchResults, onSearchProgress, onSearchError, lookupBias, rememberPlaces]);
 
     return null;
 }
@@ -319,15 +556,30 @@ export function OpenStreetMap({
     onPlaceDetailsLoaded,
     onDirectionsResult,
     onDirectionsError,
+    onRouteResult,
+    onIsochroneResult,
+    onIsochroneError,
     onSearchResults,
+    onSearchProgress,
+    onSearchError,
+    tripKey,
     placeIdToFetch: _placeIdToFetch,
     resizeTrigger,
+    selectedRouteMode,
+    highlightedSegment,
+    isochrone,
+    importedLayers = [],
+    onFilesDropped,
 }: OpenStreetMapProps) {
     const [markers, setMarkers] = useState<Array<{ position: [number, number]; title?: string; id?: string }>>([]);
-    const [routeGeometry, setRouteGeometry] = useState<[number, number][]>([]);
+    const [routeLines, setRouteLines] = useState<RouteLine[]>([]);
+    const selectedLine = routeLines.find((line) => line.mode === selectedRouteMode) ?? routeLines[0];
+    const lineColor = (line: RouteLine) => (line.mode ? ROUTE_MODE_COLORS[line.mode] : ROUTE_MODE_COLORS.driving);
     const [currentLocation, setCurrentLocation] = useState<[number, number] | null>(null);
     const [isLocating, setIsLocating] = useState(false);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
     const mapRef = useRef<L.Map | null>(null);
+    const visibleLayers = importedLayers.filter((layer) => layer.visible);
 
     const handleLocateMe = useCallback(async () => {
         setIsLocating(true);
@@ -349,8 +601,28 @@ export function OpenStreetMap({
     // Detect mobile for control positioning
     const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
 
+    // Only react to files being dragged, not to text or map elements
+    const isFileDrag = (e: React.DragEvent) => Boolean(onFilesDropped) && Array.from(e.dataTransfer.types).includes('Files');
+
     return (
-        <div className="relative h-full w-full">
+        <div
+            className="relative h-full w-full"
+            data-testid="map-drop-zone"
+            onDragOver={(e) => {
+                if (!isFileDrag(e)) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+            }}
+            onDrop={(e) => {
+                if (!isFileDrag(e)) return;
+                e.preventDefault();
+                setIsDraggingFiles(false);
+                onFilesDropped?.(Array.from(e.dataTransfer.files));
+            }}
+        >
             <MapContainer
                 center={[MAP_DEFAULTS.CENTER.lat, MAP_DEFAULTS.CENTER.lng]}
                 zoom={MAP_DEFAULTS.ZOOM}
@@ -367,20 +639,89 @@ export function OpenStreetMap({
                     mapAction={mapAction}
                     markers={markers}
                     setMarkers={setMarkers}
-                    routeGeometry={routeGeometry}
-                    setRouteGeometry={setRouteGeometry}
+                    routeLines={routeLines}
+                    setRouteLines={setRouteLines}
+                    selectedRouteMode={selectedRouteMode}
                     onDirectionsResult={onDirectionsResult}
                     onDirectionsError={onDirectionsError}
+                    onRouteResult={onRouteResult}
+                    onIsochroneResult={onIsochroneResult}
+                    onIsochroneError={onIsochroneError}
                     onPlaceDetailsLoaded={onPlaceDetailsLoaded}
                     onSearchResults={onSearchResults}
+                    onSearchProgress={onSearchProgress}
+                    onSearchError={onSearchError}
+                    tripKey={tripKey}
                     resizeTrigger={resizeTrigger}
+                    importedLayers={importedLayers}
                 />
 
-                {/* Route polyline */}
-                {routeGeometry.length > 0 && (
+                {/* Imported layers: tracks as lines, saved places as dots */}
+                {visibleLayers.map((layer) => (
+                    <Fragment key={layer.id}>
+                        {layer.tracks.map((track, index) => (
+                            <Polyline
+                                key={`${layer.id}-track-${index}`}
+                                positions={toLatLngs(track.geometry)}
+                                pathOptions={{ color: IMPORTED_LAYER_COLOR, weight: 4, opacity: 0.8 }}
+                            >
+                                <Popup>{track.name}</Popup>
+                            </Polyline>
+                        ))}
+                        {layer.points.map((point, index) => (
+                            <CircleMarker
+                                key={`${layer.id}-point-${index}`}
+                                center={[point.lat, point.lng]}
+                                radius={6}
+                                pathOptions={{ color: 'white', weight: 2, fillColor: IMPORTED_LAYER_COLOR, fillOpacity: 1 }}
+                            >
+                                <Popup>{point.period ? `${point.name} (${point.period})` : point.name}</Popup>
+                            </CircleMarker>
+                        ))}
+                    </Fragment>
+                ))}
+
+                {/* Reachable areas, largest first so the smaller ones stay on top */}
+                {isochrone && [...isochrone.polygons].reverse().map((polygon, index) => (
+                    <Polygon
+                        key={`isochrone-${polygon.minutes}`}
+                        positions={polygon.rings.map(toLatLngs)}
+                        pathOptions={{ color: ISOCHRONE_COLOR, weight: 2, fillOpacity: 0.1 + 0.1 * index }}
+                    />
+                ))}
+
+                {/* Other travel modes, faded */}
+                {routeLines.filter((line) => line !== selectedLine).map((line) => (
                     <Polyline
-                        positions={routeGeometry}
-                        pathOptions={{ color: '#4285F4', weight: 5, opacity: 0.8 }}
+                        key={`route-${line.mode}`}
+                        positions={line.geometry}
+                        pathOptions={{ color: lineColor(line), weight: 4, opacity: 0.4 }}
+                    />
+                ))}
+
+                {/* Alternatives of the selected mode, dashed */}
+                {selectedLine?.alternatives.map((alternative, index) => (
+                    <Polyline
+                        key={`alternative-${selectedLine.mode}-${index}`}
+                        positions={alternative}
+                        pathOptions={{ color: lineColor(selectedLine), weight: 4, opacity: 0.6, dashArray: '8 8' }}
+                    />
+                ))}
+
+                {/* Selected route polyline */}
+                {selectedLine && selectedLine.geometry.length > 0 && (
+                    <Polyline
+                        key={`selected-${selectedLine.mode}`}
+                        positions={selectedLine.geometry}
+                        pathOptions={{ color: lineColor(selectedLine), weight: 6, opacity: 0.9 }}
+                    />
+                )}
+
+                {/* Highlighted stretch of the selected route */}
+                {highlightedSegment && selectedLine && selectedLine.geometry.length > 0 && (
+                    <Polyline
+                        positions={selectedLine.geometry.slice(highlightedSegment[0], Math.max(highlightedSegment[1], highlightedSegment[0] + 1) + 1)}
+                        pathOptions={{ color: '#DB2777', weight: 8, opacity: 0.95 }}
                     />
                 )}
 
@@ -399,6 +740,16 @@ export function OpenStreetMap({
                 )}
             </MapContainer>
 
+            {/* Drop target for imported files */}
+            {isDraggingFiles && (
+                <div className="absolute inset-0 z-[1100] flex items-center justify-center bg-background/70 border-2 border-dashed border-primary pointer-events-none">
+                    <p className="flex items-center gap-2 font-medium">
+                        <Upload className="h-5 w-5" />
+                        Drop GPX, GeoJSON or KML files to add them as layers
+                    </p>
+                </div>
+            )}
+
             {/* Current Location Button */}
             <Button
                 variant="secondary"
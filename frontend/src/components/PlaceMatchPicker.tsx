@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { searchPlaces, toPlaceData } from '@/lib/geocoding';
+import { rateLimitMessage, RateLimitError } from '@/lib/rateLimit';
+import type { PlaceData } from '@/types';
+
+interface PlaceMatchPickerProps {
+  place: PlaceData; // A looked up place that needs checking, see needsReview
+  onChoose: (query: string, place: PlaceData) => void;
+}
+
+// Lets the user replace a doubtful or missing match with one of the other
+// candidates, or with the result of a search of their own
+export function PlaceMatchPicker({ place, onChoose }: PlaceMatchPickerProps) {
+  const query = place.query ?? place.displayName;
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchText, setSearchText] = useState(query);
+  const [candidates, setCandidates] = useState<PlaceData[]>(place.candidates ?? []);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const message = place.matchQuality === 'unresolved'
+    ? `Nothing found for “${query}”`
+    : place.matchQuality === 'low'
+      ? `May not be the “${query}” the assistant meant`
+      : 'Far from the other places, this may be the wrong match';
+
+  const searchAgain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchText.trim()) return;
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const results = await searchPlaces(searchText.trim(), { limit: 5 });
+      setCandidates(results.map(toPlaceData));
+      if (results.length === 0) setSearchError('No places found, try another name.');
+    } catch (error) {
+      setSearchError(error instanceof RateLimitError ? rateLimitMessage(error) : 'Search failed, try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 text-xs">
+      <p className="flex items-center gap-1 text-amber-600 dark:text-amber-500">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        <span className="min-w-0 flex-1">{message}</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className="shrink-0 underline underline-offset-2 hover:text-foreground"
+        >
+          {place.matchQuality === 'unresolved' ? 'Search again' : 'Choose the right place'}
+        </button>
+      </p>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2" data-testid="place-match-picker">
+          {candidates.length > 0 && (
+            <ul className="space-y-1">
+              {candidates.map((candidate) => (
+                <li key={candidate.id}>
+                  <button
+                    type="button"
+                    onClick={() => onChoose(query, candidate)}
+                    className="w-full rounded-md border px-2 py-1.5 text-left hover:bg-muted"
+                  >
+                    <span className="block truncate font-medium">{candidate.displayName}</span>
+                    <span className="block truncate text-muted-foreground">{candidate.formattedAddress}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={searchAgain} className="flex gap-1.5">
+            <Input
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              aria-label={`Search again for ${query}`}
+              className="h-8 text-xs"
+            />
+            <Button type="submit" size="sm" variant="outline" className="h-8 shrink-0" disabled={isSearching} title="Search">
+              {isSearching ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Search className="h-3.5 w-3.5" />}
+            </Button>
+          </form>
+          {searchError && <p className="text-muted-foreground">{searchError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, cleanup } from '@testing-library/react';
 import { PlacesAutocomplete } from './PlacesAutocomplete';
+import { autocompletePlaces } from '@/lib/geocoding';
+import { RateLimitError } from '@/lib/rateLimit';
+
+vi.mock('@/lib/geocoding', () => ({
+  autocompletePlaces: vi.fn(async () => []),
+}));
 
 // Mock Google Maps API with a class-based Autocomplete
 class MockAutocomplete {
@@ -252,4 +258,38 @@ describe('PlacesAutocomplete', () => {
 
     expect(screen.queryByTitle('Clear')).not.toBeInTheDocument();
   });
+
+  it('should suggest places from the autocomplete endpoint and hand the chosen one over', async () => {
+    // Earlier tests' debounced searches may still land, so only answer this query
+    vi.mocked(autocompletePlaces).mockImplementation(async (query) => (query === 'senso' ? [
+      { id: 'osm:node:1', name: 'Senso-ji', label: 'Senso-ji, Asakusa, Tokyo, Japan', lat: 35.7148, lng: 139.7967 },
+      { id: 'osm:way:2', name: 'Senso-ji', label: 'Senso-ji, Asakusa, Tokyo, Japan', lat: 35.7147, lng: 139.7966 },
+    ] : []));
+    const onChange = vi.fn();
+    const onPlaceSelect = vi.fn();
+    render(<PlacesAutocomplete value="senso" onChange={onChange} onPlaceSelect={onPlaceSelect} countryRestriction="jp" />);
+
+    const suggestion = await screen.findByText('Asakusa, Tokyo, Japan', {}, { timeout: 2000 });
+    expect(autocompletePlaces).toHaveBeenCalledWith('senso', { limit: 10, countryCode: 'jp' });
+    // Duplicates with the same label are shown once
+    expect(screen.getAllByText('Senso-ji')).toHaveLength(1);
+
+    fireEvent.click(suggestion);
+    expect(onChange).toHaveBeenCalledWith('Senso-ji, Asakusa, Tokyo, Japan');
+    const place = onPlaceSelect.mock.calls[0][0];
+    expect(place.name).toBe('Senso-ji');
+    expect([place.geometry.location.lat(), place.geometry.location.lng()]).toEqual([35.7148, 139.7967]);
+  });
+
+  it('should say when the server asks to wait instead of showing no suggestions', async () => {
+    vi.mocked(autocompletePlaces).mockImplementation(async (query) => {
+      if (query === 'kyoto') throw new RateLimitError('Too many place searches', 30);
+      return [];
+    });
+    render(<PlacesAutocomplete value="kyoto" onChange={vi.fn()} />);
+
+    expect(await screen.findByRole('alert', {}, { timeout: 2000 })).toHaveTextContent(
+      'Too many place searches. Please try again in 30 seconds.'
+    );
+  });
 });
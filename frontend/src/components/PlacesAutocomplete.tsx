@@ -2,7 +2,8 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { Loader2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { searchPlaces, type NominatimSearchResult } from '@/lib/nominatim';
+import { autocompletePlaces, type GeocodeResult } from '@/lib/geocoding';
+import { rateLimitMessage, RateLimitError } from '@/lib/rateLimit';
 
 interface PlacesAutocompleteProps {
   value: string;
@@ -35,9 +36,10 @@ export function PlacesAutocomplete({
 }: PlacesAutocompleteProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const [suggestions, setSuggestions] = useState<NominatimSearchResult[]>([]);
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Debounced search
@@ -49,20 +51,22 @@ export function PlacesAutocomplete({
     if (!query.trim() || query.length < 2) {
       setSuggestions([]);
       setShowDropdown(false);
+      setSearchError(null);
       return;
     }
 
     debounceRef.current = setTimeout(async () => {
       setIsLoading(true);
+      setSearchError(null);
       try {
-        const results = await searchPlaces(query, {
+        const results = await autocompletePlaces(query, {
           limit: 10, // Fetch more to allow for deduplication
           countryCode: countryRestriction,
         });
         
-        // Deduplicate results by display_name
-        const uniqueResults = results.reduce((acc: NominatimSearchResult[], current) => {
-          const isDuplicate = acc.some(item => item.display_name === current.display_name);
+        // Deduplicate results by label
+        const uniqueResults = results.reduce((acc: GeocodeResult[], current) => {
+          const isDuplicate = acc.some(item => item.label === current.label);
           if (!isDuplicate) {
             acc.push(current);
           }
@@ -74,6 +78,7 @@ export function PlacesAutocomplete({
       } catch (error) {
         console.error('Search error:', error);
         setSuggestions([]);
+        if (error instanceof RateLimitError) setSearchError(rateLimitMessage(error));
       } finally {
         setIsLoading(false);
       }
@@ -106,8 +111,8 @@ export function PlacesAutocomplete({
     onChange(e.target.value);
   };
 
-  const handleSuggestionClick = (suggestion: NominatimSearchResult) => {
-    const address = suggestion.display_name;
+  const handleSuggestionClick = (suggestion: GeocodeResult) => {
+    const address = suggestion.label;
     onChange(address);
     setSuggestions([]);
     setShowDropdown(false);
@@ -116,11 +121,11 @@ export function PlacesAutocomplete({
     if (onPlaceSelect) {
       onPlaceSelect({
         formatted_address: address,
-        name: suggestion.display_name.split(',')[0],
+        name: suggestion.name,
         geometry: {
           location: {
-            lat: () => parseFloat(suggestion.lat),
-            lng: () => parseFloat(suggestion.lon),
+            lat: () => suggestion.lat,
+            lng: () => suggestion.lng,
           },
         },
       });
@@ -165,6 +170,12 @@ export function PlacesAutocomplete({
           </button>
         )}
 
+        {searchError && (
+          <p role="alert" className="absolute top-full left-0 right-0 mt-1 px-3 py-2 text-xs text-red-600 bg-white border border-gray-200 rounded-md shadow-lg z-[1101]">
+            {searchError}
+          </p>
+        )}
+
         {/* Dropdown suggestions */}
         {showDropdown && suggestions.length > 0 && (
           <div
@@ -173,16 +184,16 @@ export function PlacesAutocomplete({
           >
             {suggestions.map((suggestion) => (
               <button
-                key={suggestion.place_id}
+                key={suggestion.id}
                 type="button"
                 onClick={() => handleSuggestionClick(suggestion)}
                 className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 focus:bg-gray-100 focus:outline-none border-b border-gray-100 last:border-b-0"
               >
                 <div className="font-medium text-gray-900 truncate">
-                  {suggestion.display_name.split(',')[0]}
+                  {suggestion.name}
                 </div>
                 <div className="text-xs text-gray-500 truncate">
-                  {suggestion.display_name.split(',').slice(1).join(',').trim()}
+                  {suggestion.label.split(',').slice(1).join(',').trim()}
                 </div>
               </button>
             ))}
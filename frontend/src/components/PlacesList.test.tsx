@@ -1,8 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { PlacesList } from './PlacesList';
+import { searchPlaces } from '@/lib/geocoding';
 import type { PlaceData } from '@/types';
 
+vi.mock('@/lib/geocoding', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/geocoding')>()),
+  searchPlaces: vi.fn(),
+}));
+
 const mockPlaces: PlaceData[] = [
   {
     id: 'place-1',
@@ -81,6 +87,36 @@ describe('PlacesList', () => {
     expect(screen.getByText('Fetching places...')).toBeInTheDocument();
   });
 
+  it('should show the places found so far with a progress count', () => {
+    render(
+      <PlacesList
+        places={mockPlaces.slice(0, 2)}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+        isLoading={false}
+        progress={{ done: 2, total: 15 }}
+      />
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('Finding places 2 of 15...');
+    expect(screen.getByText('Senso-ji Temple')).toBeInTheDocument();
+    expect(screen.queryByText('Fetching places...')).not.toBeInTheDocument();
+  });
+
+  it('should say why a search stopped short', () => {
+    render(
+      <PlacesList
+        places={mockPlaces.slice(0, 2)}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+        error="Too many place searches. Please try again in 45 seconds."
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Too many place searches. Please try again in 45 seconds.');
+    expect(screen.getByText('Senso-ji Temple')).toBeInTheDocument();
+  });
+
   it('should call onPlaceClick when a place is clicked', () => {
     render(
       <PlacesList
@@ -97,6 +133,62 @@ describe('PlacesList', () => {
     }
   });
 
+  it('should flag suspect matches', () => {
+    render(
+      <PlacesList
+        places={[mockPlaces[0], { ...mockPlaces[1], suspectMatch: true }]}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+      />
+    );
+
+    expect(screen.getAllByText('Far from the other places, this may be the wrong match')).toHaveLength(1);
+  });
+
+  it('should offer the other candidates for a doubtful match', () => {
+    const onChoosePlace = vi.fn();
+    const replica: PlaceData = { id: 'place-9', displayName: 'Tokyo Tower Replica', formattedAddress: 'Nagoya, Japan', location: { lat: 35.17, lng: 136.9 } };
+    render(
+      <PlacesList
+        places={[{ ...mockPlaces[0], query: 'Tokyo Tower', matchQuality: 'low', candidates: [replica] }, mockPlaces[1]]}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+        onChoosePlace={onChoosePlace}
+      />
+    );
+
+    expect(screen.getByText('May not be the “Tokyo Tower” the assistant meant')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Choose the right place'));
+    fireEvent.click(screen.getByText('Tokyo Tower Replica'));
+
+    expect(onChoosePlace).toHaveBeenCalledWith('Tokyo Tower', replica);
+  });
+
+  it('should let the user search again for a name nothing was found for', async () => {
+    const onChoosePlace = vi.fn();
+    vi.mocked(searchPlaces).mockResolvedValueOnce([
+      { id: 'osm:node:7', name: 'Omoide Yokocho', label: 'Omoide Yokocho, Shinjuku, Tokyo, Japan', lat: 35.693, lng: 139.699 },
+    ]);
+    render(
+      <PlacesList
+        places={[{ id: 'unresolved:memory lane', displayName: 'Memory Lane', formattedAddress: '', location: null, query: 'Memory Lane', matchQuality: 'unresolved', candidates: [] }]}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+        onChoosePlace={onChoosePlace}
+      />
+    );
+
+    expect(screen.getByText('Nothing found for “Memory Lane”')).toBeInTheDocument();
+    expect(screen.queryByText('Get Directions')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Search again'));
+    fireEvent.change(screen.getByLabelText('Search again for Memory Lane'), { target: { value: 'Omoide Yokocho' } });
+    fireEvent.click(screen.getByTitle('Search'));
+
+    fireEvent.click(await screen.findByText('Omoide Yokocho'));
+    expect(searchPlaces).toHaveBeenCalledWith('Omoide Yokocho', { limit: 5 });
+    await waitFor(() => expect(onChoosePlace).toHaveBeenCalledWith('Memory Lane', expect.objectContaining({ id: 'osm:node:7' })));
+  });
+
   it('should filter places by search query', () => {
     render(
       <PlacesList
@@ -209,4 +301,22 @@ describe('PlacesList', () => {
     expect(screen.getByText('Senso-ji Temple')).toBeInTheDocument();
     expect(screen.getByText('Shibuya Crossing')).toBeInTheDocument();
   });
+
+  it('should show the active filter and clear it', () => {
+    const onClearFilter = vi.fn();
+    render(
+      <PlacesList
+        places={mockPlaces.slice(0, 1)}
+        onPlaceClick={mockOnPlaceClick}
+        onGetDirections={vi.fn()}
+        filterLabel="Within 15 min of Tokyo Tower"
+        onClearFilter={onClearFilter}
+      />
+    );
+
+    expect(screen.getByText('Within 15 min of Tokyo Tower')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Show all'));
+    expect(onClearFilter).toHaveBeenCalled();
+  });
 });
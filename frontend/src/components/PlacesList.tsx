@@ -1,10 +1,12 @@
 import { useState, useRef, useCallback, useMemo } from 'react';
-import { MapPin, ChevronRight, Search, X, Navigation } from 'lucide-react';
+import { MapPin, ChevronRight, Search, X, Navigation, Timer, AlertTriangle, AlertCircle, Loader2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import type { PlaceData } from '@/types';
 import { PANEL_DIMENSIONS } from '@/constants';
+import { needsReview } from '@/lib/placeLookup';
+import { PlaceMatchPicker } from './PlaceMatchPicker';
 
 interface PlacesListProps {
   places: PlaceData[];
@@ -14,6 +16,11 @@ interface PlacesListProps {
   onCollapsedChange?: (collapsed: boolean) => void;
   onGetDirections: (place: PlaceData) => void;
   isLoading?: boolean;
+  progress?: { done: number; total: number } | null; // Shown instead of the loading overlay while places stream in
+  error?: string | null; // Why the last search stopped short, e.g. the rate limit
+  filterLabel?: string | null; // Shown while the list is narrowed down, e.g. to a reachable area
+  onClearFilter?: () => void;
+  onChoosePlace?: (query: string, place: PlaceData) => void; // The user's pick for a doubtful or missing match
 }
 
 
@@ -25,7 +32,12 @@ export function PlacesList({
   selectedPlaceId,
   isCollapsed: controlledCollapsed,
   onCollapsedChange,
-  isLoading = false
+  isLoading = false,
+  progress,
+  error,
+  filterLabel,
+  onClearFilter,
+  onChoosePlace
 }: PlacesListProps) {
   const [width, setWidth] = useState<number>(PANEL_DIMENSIONS.DEFAULT_WIDTH);
   const [internalCollapsed, setInternalCollapsed] = useState(false);
@@ -150,6 +162,37 @@ export function PlacesList({
             </button>
           )}
         </div>
+        {progress && (
+          <div className="space-y-1" role="status">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin" />
+              Finding places {progress.done} of {progress.total}...
+            </div>
+            <div className="h-1 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-destructive" role="alert">
+            <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+            <span className="min-w-0 flex-1">{error}</span>
+          </div>
+        )}
+        {filterLabel && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Timer className="h-3.5 w-3.5 shrink-0" />
+            <span className="min-w-0 flex-1 truncate">{filterLabel}</span>
+            {onClearFilter && (
+              <button type="button" onClick={onClearFilter} className="shrink-0 hover:text-foreground">
+                Show all
+              </button>
+            )}
+          </div>
+        )}
       </div>
       <div className="flex-1 relative min-h-0">
         <ScrollArea className="h-full">
@@ -192,23 +235,34 @@ export function PlacesList({
                             {place.types[0]?.replace(/_/g, ' ')}
                           </p>
                         )}
+                        {place.suspectMatch && !onChoosePlace && (
+                          <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-500 mt-1">
+                            <AlertTriangle className="h-3 w-3 shrink-0" />
+                            Far from the other places, this may be the wrong match
+                          </p>
+                        )}
                       </button>
+                      {onChoosePlace && needsReview(place) && (
+                        <PlaceMatchPicker key={place.id} place={place} onChoose={onChoosePlace} />
+                      )}
 
                       {/* Get Directions Button */}
-                      <div className="mt-3">
-                        <Button
-                          size="sm"
-                          variant="secondary"
-                          className="h-8 text-xs w-full bg-background border hover:bg-primary hover:text-primary-foreground group-hover:border-primary/50 transition-all font-medium"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onGetDirections(place);
-                          }}
-                        >
-                          <Navigation className="h-3.5 w-3.5 mr-1.5" />
-                          Get Directions
-                        </Button>
-                      </div>
+                      {place.location && (
+                        <div className="mt-3">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            className="h-8 text-xs w-full bg-background border hover:bg-primary hover:text-primary-foreground group-hover:border-primary/50 transition-all font-medium"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onGetDirections(place);
+                            }}
+                          >
+                            <Navigation className="h-3.5 w-3.5 mr-1.5" />
+                            Get Directions
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RouteSteps } from './RouteSteps';
+import type { RouteStep } from '@/types';
+
+const steps: RouteStep[] = [
+  { instruction: 'Head out on Quai Branly', name: 'Quai Branly', maneuver: 'depart', duration: '2 min', distance: '1.2 km', durationValue: 140, distanceValue: 1200, wayPoints: [0, 4] },
+  { instruction: 'Turn right onto Rue de Rivoli', name: 'Rue de Rivoli', maneuver: 'right', duration: '4 min', distance: '2.3 km', durationValue: 262, distanceValue: 2310, wayPoints: [4, 9] },
+  { instruction: 'Arrive at your destination', name: '', maneuver: 'arrive', duration: '0 min', distance: '0 m', durationValue: 0, distanceValue: 0, wayPoints: [9, 9] },
+];
+
+describe('RouteSteps', () => {
+  it('should start collapsed and list the steps when expanded', () => {
+    render(<RouteSteps steps={steps} onHighlight={vi.fn()} />);
+
+    expect(screen.queryByText('Turn right onto Rue de Rivoli')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Show 3 steps'));
+
+    expect(screen.getByText('Head out on Quai Branly')).toBeInTheDocument();
+    expect(screen.getByText('Turn right onto Rue de Rivoli')).toBeInTheDocument();
+    expect(screen.getByText('2.3 km')).toBeInTheDocument();
+    expect(screen.getByText('Arrive at your destination')).toBeInTheDocument();
+    expect(screen.queryByText('0 m')).not.toBeInTheDocument();
+  });
+
+  it('should highlight the hovered step and clear it when the pointer leaves', () => {
+    const onHighlight = vi.fn();
+    render(<RouteSteps steps={steps} onHighlight={onHighlight} />);
+    fireEvent.click(screen.getByText('Show 3 steps'));
+
+    fireEvent.mouseEnter(screen.getByText('Turn right onto Rue de Rivoli').closest('li')!);
+    expect(onHighlight).toHaveBeenLastCalledWith([4, 9]);
+
+    fireEvent.mouseLeave(screen.getByRole('list'));
+    expect(onHighlight).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should clear the highlight when collapsed', () => {
+    const onHighlight = vi.fn();
+    render(<RouteSteps steps={steps} onHighlight={onHighlight} />);
+    fireEvent.click(screen.getByText('Show 3 steps'));
+    fireEvent.mouseEnter(screen.getByText('Head out on Quai Branly').closest('li')!);
+
+    fireEvent.click(screen.getByText('Hide steps'));
+
+    expect(onHighlight).toHaveBeenLastCalledWith(null);
+    expect(screen.queryByText('Head out on Quai Branly')).not.toBeInTheDocument();
+  });
+
+  it('should render nothing without steps', () => {
+    const { container } = render(<RouteSteps steps={[]} onHighlight={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  ChevronDown,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  MapPin,
+  Navigation,
+  RotateCw,
+  Undo2,
+  type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RouteManeuver, RouteStep } from '@/types';
+
+interface RouteStepsProps {
+  steps: RouteStep[];
+  // Called with the hovered step's stretch of the route geometry, or null when the pointer leaves
+  onHighlight: (wayPoints: [number, number] | null) => void;
+}
+
+const MANEUVER_ICONS: Record<RouteManeuver, LucideIcon> = {
+  'depart': Navigation,
+  'arrive': Flag,
+  'waypoint': MapPin,
+  'straight': ArrowUp,
+  'left': CornerUpLeft,
+  'right': CornerUpRight,
+  'slight-left': ArrowUpLeft,
+  'slight-right': ArrowUpRight,
+  'sharp-left': CornerUpLeft,
+  'sharp-right': CornerUpRight,
+  'keep-left': ArrowUpLeft,
+  'keep-right': ArrowUpRight,
+  'u-turn': Undo2,
+  'roundabout': RotateCw,
+  'exit-roundabout': ArrowUpRight,
+  'other': ArrowUp,
+};
+
+export function RouteSteps({ steps, onHighlight }: RouteStepsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  if (steps.length === 0) return null;
+
+  const highlight = (index: number | null) => {
+    setHoveredIndex(index);
+    onHighlight(index === null ? null : steps[index].wayPoints);
+  };
+
+  return (
+    <div className="mt-2 border-t pt-2" data-testid="route-steps">
+      <button
+        onClick={() => {
+          if (isOpen) highlight(null);
+          setIsOpen(!isOpen);
+        }}
+        className="flex w-full items-center justify-between text-xs text-muted-foreground hover:text-foreground"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? 'Hide steps' : `Show ${steps.length} ${steps.length === 1 ? 'step' : 'steps'}`}
+        <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', isOpen && 'rotate-180')} />
+      </button>
+
+      {isOpen && (
+        <ol className="mt-1 max-h-48 space-y-0.5 overflow-y-auto text-xs" onMouseLeave={() => highlight(null)}>
+          {steps.map((step, index) => {
+            const Icon = MANEUVER_ICONS[step.maneuver] ?? ArrowUp;
+            return (
+              <li
+                key={index}
+                onMouseEnter={() => highlight(index)}
+                className={cn(
+                  'flex items-start gap-2 rounded p-1.5 transition-colors',
+                  hoveredIndex === index ? 'bg-muted' : 'hover:bg-muted/50'
+                )}
+              >
+                <Icon className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span className="min-w-0 flex-1">{step.instruction}</span>
+                {step.distanceValue > 0 && (
+                  <span className="shrink-0 text-[10px] text-muted-foreground">{step.distance}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ interface SearchBarProps {
   onGetDirections: (origin: string, destination: string) => void;
   directionError?: DirectionError | null;
   onClearDirectionError?: () => void;
+  searchError?: string | null; // A place search that failed, e.g. because of the rate limit
   directionsSuccess?: boolean;
   onDirectionsSuccessHandled?: () => void;
   // External control props
@@ -24,6 +25,7 @@ export function SearchBar({
   onGetDirections,
   directionError,
   onClearDirectionError,
+  searchError,
   directionsSuccess,
   onDirectionsSuccessHandled,
   showDirections: controlledShowDirections,
@@ -212,11 +214,11 @@ export function SearchBar({
       </div>
 
       {/* Error Messages - Desktop only (mobile uses directions sheet) */}
-      {(originError || destinationError || directionError) && (
+      {(originError || destinationError || directionError || searchError) && (
         <div className="hidden md:flex items-center gap-1.5 text-destructive text-xs leading-none mt-1">
           <AlertCircle className="h-3 w-3 shrink-0" />
           <span>
-            {originError || destinationError || directionError?.message}
+            {originError || destinationError || directionError?.message || searchError}
           </span>
           {directionError && (
             <button
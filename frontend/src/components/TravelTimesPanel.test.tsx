@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TravelTimesPanel } from './TravelTimesPanel';
+import { downloadExport } from '@/lib/export';
+import type { DirectionResult } from '@/types';
+
+vi.mock('@/lib/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/export')>()),
+  downloadExport: vi.fn(),
+}));
+
+const result: DirectionResult = {
+  origin: 'Eiffel Tower',
+  destination: 'Louvre',
+  originPlace: { id: 'eiffel', displayName: 'Eiffel Tower', formattedAddress: 'Champ de Mars, Paris', location: { lat: 48.8584, lng: 2.2945 } },
+  destinationPlace: { id: 'louvre', displayName: 'Louvre', formattedAddress: '', location: { lat: 48.8606, lng: 2.3376 } },
+  routes: [
+    {
+      mode: 'driving',
+      duration: '12 min',
+      distance: '4.1 km',
+      durationValue: 720,
+      distanceValue: 4100,
+      geometry: [[2.2945, 48.8584], [2.3376, 48.8606]],
+      steps: [
+        { instruction: 'Head out on Quai Branly', name: 'Quai Branly', maneuver: 'depart', duration: '12 min', distance: '4.1 km', durationValue: 720, distanceValue: 4100, wayPoints: [0, 5] },
+      ],
+      alternatives: [
+        { duration: '18 min', distance: '5.0 km', durationValue: 1080, distanceValue: 5000 },
+        { duration: '15 min', distance: '4.6 km', durationValue: 900, distanceValue: 4600 },
+      ],
+    },
+    {
+      mode: 'walking',
+      duration: '45 min',
+      distance: '3.4 km',
+      durationValue: 2700,
+      distanceValue: 3400,
+      steps: [
+        { instruction: 'Walk along the Seine', name: 'Port de la Bourdonnais', maneuver: 'depart', duration: '45 min', distance: '3.4 km', durationValue: 2700, distanceValue: 3400, wayPoints: [0, 9] },
+      ],
+      alternatives: [],
+    },
+  ],
+};
+
+const renderPanel = (props: Partial<Parameters<typeof TravelTimesPanel>[0]> = {}) =>
+  render(
+    <TravelTimesPanel
+      result={result}
+      selectedMode="driving"
+      onSelectMode={vi.fn()}
+      onHighlightStep={vi.fn()}
+      onClose={vi.fn()}
+      {...props}
+    />
+  );
+
+describe('TravelTimesPanel', () => {
+  it('should show each mode with its travel time and alternatives', () => {
+    renderPanel();
+
+    expect(screen.getByText('12 min · 4.1 km')).toBeInTheDocument();
+    expect(screen.getByText('45 min · 3.4 km')).toBeInTheDocument();
+    expect(screen.getByText('2 alternatives · from 15 min')).toBeInTheDocument();
+    expect(screen.getByTitle('Open in Google Maps (walking)')).toHaveAttribute(
+      'href',
+      'https://www.google.com/maps/dir/?api=1&origin=Eiffel%20Tower&destination=Louvre&travelmode=walking'
+    );
+  });
+
+  it('should select a mode when it is clicked', () => {
+    const onSelectMode = vi.fn();
+    renderPanel({ onSelectMode });
+
+    expect(screen.getByTitle('Show the driving route')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByTitle('Show the walking route')).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(screen.getByTitle('Show the walking route'));
+    expect(onSelectMode).toHaveBeenCalledWith('walking');
+  });
+
+  it('should list the steps of the selected mode', () => {
+    renderPanel({ selectedMode: 'walking' });
+
+    fireEvent.click(screen.getByText('Show 1 step'));
+
+    expect(screen.getByText('Walk along the Seine')).toBeInTheDocument();
+    expect(screen.queryByText('Head out on Quai Branly')).not.toBeInTheDocument();
+  });
+
+  it('should fall back to the first mode when none is selected', () => {
+    renderPanel({ selectedMode: null });
+
+    expect(screen.getByTitle('Show the driving route')).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should export the selected route with its start and end', () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByTitle('Download as GeoJSON'));
+
+    expect(downloadExport).toHaveBeenCalledWith({
+      name: 'Eiffel Tower to Louvre (driving)',
+      points: [
+        { name: 'Eiffel Tower', lat: 48.8584, lng: 2.2945, description: 'Champ de Mars, Paris' },
+        { name: 'Louvre', lat: 48.8606, lng: 2.3376, description: undefined },
+      ],
+      tracks: [{ name: 'Eiffel Tower to Louvre (driving)', geometry: [[2.2945, 48.8584], [2.3376, 48.8606]] }],
+    }, 'geojson');
+  });
+
+  it('should not offer an export without the route geometry', () => {
+    renderPanel({ selectedMode: 'walking' });
+
+    expect(screen.queryByTitle('Download as GPX')).not.toBeInTheDocument();
+  });
+});
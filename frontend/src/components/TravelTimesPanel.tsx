@@ -0,0 +1,112 @@
+import { ExternalLink } from 'lucide-react';
+import { ROUTE_MODE_COLORS } from '@/constants';
+import { RouteSteps } from '@/components/RouteSteps';
+import { ExportButtons } from '@/components/ExportButtons';
+import { downloadExport, type ExportFormat, type ExportPoint } from '@/lib/export';
+import type { DirectionResult, RouteSummary, TravelMode } from '@/types';
+
+interface TravelTimesPanelProps {
+  result: DirectionResult;
+  selectedMode: TravelMode | null;
+  onSelectMode: (mode: TravelMode) => void;
+  onHighlightStep: (wayPoints: [number, number] | null) => void;
+  onClose: () => void;
+}
+
+const MODE_ICONS: Record<TravelMode, string> = {
+  driving: '🚗',
+  walking: '🚶',
+  bicycling: '🚴',
+};
+
+export function TravelTimesPanel({ result, selectedMode, onSelectMode, onHighlightStep, onClose }: TravelTimesPanelProps) {
+  const selectedRoute = result.routes.find((route) => route.mode === selectedMode) ?? result.routes[0];
+
+  // The selected mode's route with its start and end markers
+  const handleExport = (format: ExportFormat) => {
+    if (!selectedRoute?.geometry) return;
+    const name = `${result.origin} to ${result.destination} (${selectedRoute.mode})`;
+    const points = [result.originPlace, result.destinationPlace].flatMap((place): ExportPoint[] =>
+      place?.location
+        ? [{ name: place.displayName, lat: place.location.lat, lng: place.location.lng, description: place.formattedAddress || undefined }]
+        : []
+    );
+    downloadExport({ name, points, tracks: [{ name, geometry: selectedRoute.geometry }] }, format);
+  };
+
+  return (
+    <div
+      className="fixed md:absolute bottom-20 md:bottom-4 left-1/2 -translate-x-1/2 bg-background border rounded-lg shadow-lg p-3 md:p-4 z-[1050] max-w-md w-[90%] sm:w-auto"
+      data-testid="travel-times-panel"
+    >
+      <div className="flex items-baseline justify-between mb-1 md:mb-2">
+        <div>
+          <h3 className="font-semibold text-xs md:text-sm">Travel Times</h3>
+          <p className="text-[10px] text-muted-foreground">Estimates only · Pick a mode to show its route</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground text-base md:text-lg leading-none"
+          title="Close travel times"
+        >
+          ×
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 md:gap-2 text-xs md:text-sm">
+        {result.routes.map((route) => {
+          const isSelected = route === selectedRoute;
+          const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&origin=${encodeURIComponent(result.origin)}&destination=${encodeURIComponent(result.destination)}&travelmode=${route.mode}`;
+          const alternatives = route.alternatives ?? [];
+          const fastestAlternative = alternatives.reduce<RouteSummary | null>(
+            (fastest, alternative) => (!fastest || alternative.durationValue < fastest.durationValue ? alternative : fastest),
+            null
+          );
+          return (
+            <div
+              key={route.mode}
+              className={`flex items-center gap-1.5 md:gap-2 p-1.5 md:p-2 rounded border transition-colors ${isSelected ? 'border-foreground/20 bg-muted' : 'border-transparent bg-muted/50 hover:bg-muted'}`}
+            >
+              <button
+                onClick={() => onSelectMode(route.mode)}
+                className="flex flex-1 items-center gap-1.5 md:gap-2 text-left"
+                aria-pressed={isSelected}
+                title={`Show the ${route.mode} route`}
+              >
+                <span className="text-sm md:text-lg">{MODE_ICONS[route.mode]}</span>
+                <div className="flex-1">
+                  <div className="font-medium capitalize text-xs md:text-sm flex items-center gap-1.5">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: ROUTE_MODE_COLORS[route.mode] }} />
+                    {route.mode}
+                  </div>
+                  <div className="text-muted-foreground text-[10px] md:text-xs">
+                    {route.duration} · {route.distance}
+                  </div>
+                  {fastestAlternative && (
+                    <div className="text-muted-foreground text-[10px]">
+                      {alternatives.length === 1 ? '1 alternative' : `${alternatives.length} alternatives`} · from {fastestAlternative.duration}
+                    </div>
+                  )}
+                </div>
+              </button>
+              <a
+                href={googleMapsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-muted-foreground hover:text-foreground"
+                title={`Open in Google Maps (${route.mode})`}
+              >
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </div>
+          );
+        })}
+      </div>
+      {selectedRoute?.steps && (
+        <RouteSteps key={selectedRoute.mode} steps={selectedRoute.steps} onHighlight={onHighlightStep} />
+      )}
+      {selectedRoute?.geometry && (
+        <ExportButtons label={`Export ${selectedRoute.mode} route`} onExport={handleExport} className="mt-2 border-t pt-2" />
+      )}
+    </div>
+  );
+}
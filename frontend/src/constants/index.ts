@@ -35,6 +35,22 @@ export const MAP_DEFAULTS = {
   MAP_ID: '8d1d947eb36d2fcbd801e5af',
 } as const;
 
+// A place found farther than this from every other stop of the same lookup is flagged as a suspect match
+export const SUSPECT_MATCH_DISTANCE_KM = Number(import.meta.env.VITE_SUSPECT_MATCH_DISTANCE_KM) || 100;
+
+// Place searches kept in the browser (IndexedDB) between visits
+export const GEOCODE_CACHE = {
+  MAX_ENTRIES: Number(import.meta.env.VITE_GEOCODE_CACHE_SIZE) || 1000,
+  TTL_MS: (Number(import.meta.env.VITE_GEOCODE_CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60) * 1000,
+} as const;
+
+// Route line color per travel mode, shared by the map and the Travel Times panel
+export const ROUTE_MODE_COLORS = {
+  driving: '#4285F4',
+  walking: '#16A34A',
+  bicycling: '#EA580C',
+} as const;
+
 // Helper function
 export function getRandomSuggestions(count: number): string[] {
   const shuffled = [...CHAT_SUGGESTIONS].sort(() => Math.random() - 0.5);
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuthContext } from '@/hooks/useAuth';
+import {
+  fetchAuthConfig,
+  fetchCurrentUser,
+  getStoredLocalToken,
+  loginWithPassword,
+  setAccessToken,
+  storeLocalToken,
+  type AuthProviderName,
+  type AuthUser,
+} from '@/lib/auth';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [provider, setProvider] = useState<AuthProviderName>('none');
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const supabaseRef = useRef<SupabaseClient | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const init = async () => {
+      const config = await fetchAuthConfig();
+      if (cancelled) return;
+      setProvider(config.provider);
+
+      if (config.provider === 'supabase' && config.supabaseUrl && config.supabaseAnonKey) {
+        // Only load supabase-js when the backend uses Supabase Auth
+        const { createClient } = await import('@supabase/supabase-js');
+        if (cancelled) return;
+        const supabase = createClient(config.supabaseUrl, config.supabaseAnonKey);
+        supabaseRef.current = supabase;
+
+        const { data } = await supabase.auth.getSession();
+        setAccessToken(data.session?.access_token ?? null);
+        setUser(data.session ? { id: data.session.user.id, email: data.session.user.email ?? null } : null);
+
+        const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+          setAccessToken(session?.access_token ?? null);
+          setUser(session ? { id: session.user.id, email: session.user.email ?? null } : null);
+        });
+        unsubscribe = () => listener.subscription.unsubscribe();
+      } else if (config.provider === 'local') {
+        const token = getStoredLocalToken();
+        if (!token) return;
+        setAccessToken(token);
+        const current = await fetchCurrentUser();
+        if (cancelled) return;
+        if (!current) {
+          // Expired or revoked: fall back to the anonymous session
+          setAccessToken(null);
+          storeLocalToken(null);
+        }
+        setUser(current);
+      }
+    };
+
+    init()
+      .catch((error) => console.error('Failed to initialise sign-in:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const signIn = useCallback(async (email: string, password?: string): Promise<'signed-in' | 'email-sent'> => {
+    if (provider === 'supabase' && supabaseRef.current) {
+      const { error } = await supabaseRef.current.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.origin },
+      });
+      if (error) throw error;
+      return 'email-sent';
+    }
+
+    if (provider === 'local') {
+      const session = await loginWithPassword(email, password ?? '');
+      storeLocalToken(session.token);
+      setAccessToken(session.token);
+      setUser(session.user);
+      return 'signed-in';
+    }
+
+    throw new Error('Sign-in is not enabled on this server');
+  }, [provider]);
+
+  const signOut = useCallback(async () => {
+    if (provider === 'supabase' && supabaseRef.current) {
+      await supabaseRef.current.auth.signOut();
+    }
+    storeLocalToken(null);
+    setAccessToken(null);
+    setUser(null);
+  }, [provider]);
+
+  return (
+    <AuthContext.Provider value={{ provider, user, isLoading, signIn, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -1 +1,2 @@
 export { useGeolocation } from './useGeolocation';
+export { useAuth } from './useAuth';
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { AuthProviderName, AuthUser } from '@/lib/auth';
+
+export interface AuthContextType {
+  provider: AuthProviderName;
+  user: AuthUser | null;
+  isLoading: boolean;
+  // Resolves 'email-sent' when the provider signs in through an emailed link
+  signIn: (email: string, password?: string) => Promise<'signed-in' | 'email-sent'>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Current user and sign-in actions, provided by AuthProvider
+ */
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
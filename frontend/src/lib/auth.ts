@@ -0,0 +1,77 @@
+// Identity sent with chat and history requests: the signed-in user's access
+// token when there is one, and always a device id so anonymous sessions keep
+// their own conversations.
+
+import { nanoid } from 'nanoid';
+import { API_URL } from '@/constants';
+
+const DEVICE_ID_KEY = 'mapgpt-device-id';
+const LOCAL_TOKEN_KEY = 'mapgpt-auth-token';
+
+export type AuthProviderName = 'supabase' | 'local' | 'none';
+
+export interface AuthConfig {
+  provider: AuthProviderName;
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+let accessToken: string | null = null;
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = nanoid();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+export function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Device-Id': getDeviceId() };
+  if (accessToken) headers.Authorization = `Bearer ${accessToken}`;
+  return headers;
+}
+
+export async function fetchAuthConfig(): Promise<AuthConfig> {
+  const response = await fetch(`${API_URL}/api/auth/config`);
+  if (!response.ok) throw new Error('Failed to load sign-in settings');
+  return response.json();
+}
+
+export async function fetchCurrentUser(): Promise<AuthUser | null> {
+  const response = await fetch(`${API_URL}/api/auth/me`, { headers: authHeaders() });
+  if (!response.ok) return null;
+  const data: { user: AuthUser | null } = await response.json();
+  return data.user;
+}
+
+// Password sign-in for the self-hosted (local) provider
+export async function loginWithPassword(email: string, password: string): Promise<{ token: string; user: AuthUser }> {
+  const response = await fetch(`${API_URL}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || 'Failed to sign in');
+  return data;
+}
+
+export function getStoredLocalToken(): string | null {
+  return localStorage.getItem(LOCAL_TOKEN_KEY);
+}
+
+export function storeLocalToken(token: string | null) {
+  if (token) localStorage.setItem(LOCAL_TOKEN_KEY, token);
+  else localStorage.removeItem(LOCAL_TOKEN_KEY);
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readChatStream, stripStreamingTags } from './chatStream';
+
+function ndjsonResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+}
+
+const donePayload = {
+  message: 'Visit **Louvre Museum**',
+  mapAction: null,
+  followUpSuggestions: ['Tell me more about the Louvre'],
+  placesByDay: { Suggested: ['Louvre Museum, Paris, France'] },
+  placesByTimePeriod: {},
+  places: { suggested: ['Louvre Museum, Paris, France'] },
+  conversationId: 'conv-1',
+};
+
+describe('chatStream', () => {
+  describe('stripStreamingTags', () => {
+    it('should leave plain text untouched', () => {
+      expect(stripStreamingTags('Visit the **Eiffel Tower**')).toBe('Visit the **Eiffel Tower**');
+    });
+
+    it('should hide everything from the [PLACES] tag onwards', () => {
+      expect(stripStreamingTags('Visit **Louvre**\n\n[PLACES]\n{"suggested":["Lou')).toBe('Visit **Louvre**');
+    });
+
+    it('should hide everything from the [FOLLOWUP] tag onwards', () => {
+      expect(stripStreamingTags('Visit **Louvre**\n[FOLLOWUP]\n- Tell me more')).toBe('Visit **Louvre**');
+    });
+
+    it('should hide a partially received tag', () => {
+      expect(stripStreamingTags('Visit **Louvre**\n[PLA')).toBe('Visit **Louvre**');
+      expect(stripStreamingTags('Visit **Louvre**\n[FOLLOW')).toBe('Visit **Louvre**');
+    });
+
+    it('should keep brackets that cannot start a hidden tag', () => {
+      expect(stripStreamingTags('Open [daily]')).toBe('Open [daily]');
+    });
+
+    it('should hide an unfinished map action block', () => {
+      expect(stripStreamingTags('Here is the route\n{"action": "direc')).toBe('Here is the route');
+    });
+  });
+
+  describe('readChatStream', () => {
+    it('should emit delta events and resolve with the final payload', async () => {
+      const onEvent = vi.fn();
+      const response = ndjsonResponse([
+        '{"type":"delta","text":"Visit "}\n',
+        '{"type":"delta","text":"**Louvre Museum**"}\n',
+        `${JSON.stringify({ type: 'done', ...donePayload })}\n`,
+      ]);
+
+      const result = await readChatStream(response, onEvent);
+
+      expect(onEvent).toHaveBeenCalledTimes(3);
+      expect(onEvent).toHaveBeenNthCalledWith(1, { type: 'delta', text: 'Visit ' });
+      expect(onEvent).toHaveBeenNthCalledWith(2, { type: 'delta', text: '**Louvre Museum**' });
+      expect(result.conversationId).toBe('conv-1');
+      expect(result.placesByDay).toEqual({ Suggested: ['Louvre Museum, Paris, France'] });
+    });
+
+    it('should handle events split across chunks', async () => {
+      const onEvent = vi.fn();
+      const doneLine = JSON.stringify({ type: 'done', ...donePayload });
+      const response = ndjsonResponse([
+        '{"type":"del',
+        'ta","text":"Hi"}\n' + doneLine.slice(0, 20),
+        doneLine.slice(20),
+      ]);
+
+      const result = await readChatStream(response, onEvent);
+
+      expect(onEvent).toHaveBeenNthCalledWith(1, { type: 'delta', text: 'Hi' });
+      expect(result.message).toBe('Visit **Louvre Museum**');
+    });
+
+    it('should reject when the stream reports an error', async () => {
+      const response = ndjsonResponse([
+        '{"type":"delta","text":"Hi"}\n',
+        '{"type":"error","error":"Failed to process chat message"}\n',
+      ]);
+
+      await expect(readChatStream(response, vi.fn())).rejects.toThrow('Failed to process chat message');
+    });
+
+    it('should reject when the stream ends without a final event', async () => {
+      const response = ndjsonResponse(['{"type":"delta","text":"Hi"}\n']);
+
+      await expect(readChatStream(response, vi.fn())).rejects.toThrow(/ended before/);
+    });
+  });
+});
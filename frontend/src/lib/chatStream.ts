@@ -0,0 +1,105 @@
+// Client for the streaming chat endpoint (POST /api/chat/stream)
+// The backend answers with newline-delimited JSON events.
+
+import type { MapAction, Places, TimePeriodPlaces } from '@/types';
+
+export interface ChatResponsePayload {
+  message: string;
+  mapAction: MapAction | null;
+  followUpSuggestions: string[];
+  placesByDay: Record<string, string[]> | null;
+  placesByTimePeriod: Record<string, TimePeriodPlaces> | null;
+  places: Places | null;
+  conversationId: string;
+}
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | ({ type: 'done' } & ChatResponsePayload)
+  | { type: 'error'; error: string };
+
+const HIDDEN_TAGS = ['[PLACES]', '[FOLLOWUP]'];
+
+/**
+ * Remove content that should not be shown while a response is still streaming:
+ * everything from the first [PLACES]/[FOLLOWUP] tag onwards, a tag that has only
+ * been partially received (e.g. "[PLA") and an unfinished map action JSON block.
+ */
+export function stripStreamingTags(text: string): string {
+  let visible = text;
+
+  for (const tag of HIDDEN_TAGS) {
+    const idx = visible.indexOf(tag);
+    if (idx !== -1) visible = visible.slice(0, idx);
+  }
+
+  const lastBracket = visible.lastIndexOf('[');
+  if (lastBracket !== -1) {
+    const tail = visible.slice(lastBracket);
+    if (HIDDEN_TAGS.some(tag => tag.startsWith(tail))) {
+      visible = visible.slice(0, lastBracket);
+    }
+  }
+
+  const lastBrace = visible.lastIndexOf('{');
+  if (lastBrace !== -1 && visible.indexOf('}', lastBrace) === -1) {
+    const tail = visible.slice(lastBrace);
+    if (/^\{\s*("|$)/.test(tail)) {
+      visible = visible.slice(0, lastBrace);
+    }
+  }
+
+  return visible.trimEnd();
+}
+
+/**
+ * Read an NDJSON chat stream, calling onEvent for every event as it arrives.
+ * Resolves with the final payload, rejects if the stream reports an error or
+ * ends without a final event.
+ */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<ChatResponsePayload> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: ChatResponsePayload | null = null;
+
+  const flushLines = (lines: string[]) => {
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ChatStreamEvent;
+      if (event.type === 'error') {
+        throw new Error(event.error || 'Chat stream failed');
+      }
+      if (event.type === 'done') {
+        result = event;
+      }
+      onEvent(event);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    flushLines(lines);
+  }
+
+  buffer += decoder.decode();
+  flushLines([buffer]);
+
+  if (!result) {
+    throw new Error('Chat stream ended before the response was complete');
+  }
+
+  return result;
+}
@@ -0,0 +1,85 @@
+// Client for the conversation history endpoints (/api/conversations)
+
+import { API_URL } from '@/constants';
+import { authHeaders } from '@/lib/auth';
+import type { MapAction, Message, PlaceData, Places, TimePeriodPlaces } from '@/types';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  place_choices?: Record<string, PlaceData> | null; // Places the user picked, by placeChoiceKey
+  created_at: string;
+  updated_at: string;
+}
+
+// A message as returned by GET /api/conversations/:id/messages. Assistant
+// messages also carry the structured payload /api/chat returned for them.
+export interface StoredMessage {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  map_action: MapAction | null;
+  created_at: string;
+  followUpSuggestions?: string[] | null;
+  placesByDay?: Record<string, string[]> | null;
+  placesByTimePeriod?: Record<string, TimePeriodPlaces> | null;
+  places?: Places | null;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_URL}/api/conversations${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init?.headers },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function listConversations(): Promise<Conversation[]> {
+  return request<Conversation[]>('');
+}
+
+export function getConversationMessages(conversationId: string): Promise<StoredMessage[]> {
+  return request<StoredMessage[]>(`/${encodeURIComponent(conversationId)}/messages`);
+}
+
+export function renameConversation(conversationId: string, title: string): Promise<Conversation> {
+  return request<Conversation>(`/${encodeURIComponent(conversationId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ title }),
+  });
+}
+
+export function savePlaceChoices(conversationId: string, placeChoices: Record<string, PlaceData>): Promise<Conversation> {
+  return request<Conversation>(`/${encodeURIComponent(conversationId)}/place-choices`, {
+    method: 'PUT',
+    body: JSON.stringify({ placeChoices }),
+  });
+}
+
+export async function deleteConversation(conversationId: string): Promise<void> {
+  await request<{ success: boolean }>(`/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
+}
+
+/**
+ * Turn a stored message row back into the Message the chat panel renders, so
+ * "Show Route", day buttons and follow-ups work on reopened conversations.
+ */
+export function toMessage(row: StoredMessage): Message {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    map_action: row.map_action ?? null,
+    followUpSuggestions: row.followUpSuggestions ?? undefined,
+    placesByDay: row.placesByDay ?? null,
+    placesByTimePeriod: row.placesByTimePeriod ?? null,
+    places: row.places ?? null,
+  };
+}
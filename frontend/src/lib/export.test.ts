@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { toGpx, toGeoJson, toKml, exportFileName, type ExportDocument } from './export';
+
+const day: ExportDocument = {
+  name: 'Day 1 & Paris',
+  points: [
+    { name: 'Eiffel Tower', lat: 48.8584, lng: 2.2945, period: 'Morning' },
+    { name: 'Louvre <Museum>', lat: 48.8606, lng: 2.3376, period: 'Afternoon', description: 'Rue de Rivoli' },
+    { name: 'Hotel Le Meurice', lat: 48.8651, lng: 2.3281 },
+  ],
+  tracks: [{ name: 'Day 1 route', geometry: [[2.2945, 48.8584], [2.3376, 48.8606]] }],
+};
+
+describe('export', () => {
+  it('should write GPX waypoints with their period and a track', () => {
+    const gpx = toGpx(day);
+
+    expect(gpx).toContain('<metadata><name>Day 1 &amp; Paris</name></metadata>');
+    expect(gpx).toContain('<wpt lat="48.8584" lon="2.2945">');
+    expect(gpx).toContain('<name>Louvre &lt;Museum&gt;</name>');
+    expect(gpx).toContain('<desc>Rue de Rivoli</desc>');
+    expect(gpx).toContain('<type>Morning</type>');
+    expect(gpx).toContain('<trkpt lat="48.8606" lon="2.3376"/>');
+    // Waypoints come before tracks in GPX 1.1
+    expect(gpx.indexOf('<wpt')).toBeLessThan(gpx.indexOf('<trk>'));
+  });
+
+  it('should write GeoJSON points and a line string', () => {
+    const geojson = JSON.parse(toGeoJson(day));
+
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features).toHaveLength(4);
+    expect(geojson.features[0]).toEqual({
+      type: 'Feature',
+      properties: { name: 'Eiffel Tower', period: 'Morning' },
+      geometry: { type: 'Point', coordinates: [2.2945, 48.8584] },
+    });
+    expect(geojson.features[2].properties).toEqual({ name: 'Hotel Le Meurice' });
+    expect(geojson.features[3].geometry).toEqual({ type: 'LineString', coordinates: [[2.2945, 48.8584], [2.3376, 48.8606]] });
+  });
+
+  it('should group KML placemarks by period', () => {
+    const kml = toKml(day);
+
+    expect(kml).toContain('<name>Morning</name>');
+    expect(kml.indexOf('<name>Morning</name>')).toBeLessThan(kml.indexOf('<name>Eiffel Tower</name>'));
+    expect(kml.indexOf('<name>Afternoon</name>')).toBeLessThan(kml.indexOf('<name>Louvre &lt;Museum&gt;</name>'));
+    expect(kml).toContain('<Point><coordinates>2.3281,48.8651</coordinates></Point>');
+    expect(kml).toContain('<LineString><coordinates>2.2945,48.8584 2.3376,48.8606</coordinates></LineString>');
+  });
+
+  it('should derive file names from the document name', () => {
+    expect(exportFileName('Day 1 & Paris', 'gpx')).toBe('day-1-paris.gpx');
+    expect(exportFileName('Eiffel Tower to Louvre (walking)', 'geojson')).toBe('eiffel-tower-to-louvre-walking.geojson');
+    expect(exportFileName('東京', 'kml')).toBe('trip.kml');
+  });
+});
@@ -0,0 +1,158 @@
+// Trip export to GPX, GeoJSON and KML for GPS and offline map apps (Garmin, OsmAnd, Organic Maps)
+
+export type ExportFormat = 'gpx' | 'geojson' | 'kml';
+
+export interface ExportPoint {
+  name: string;
+  lat: number;
+  lng: number;
+  period?: string; // Itinerary time period, e.g. "Morning"
+  description?: string;
+}
+
+export interface ExportTrack {
+  name: string;
+  geometry: [number, number][]; // [lng, lat] pairs
+}
+
+// What gets exported: a route, the markers along it or a whole itinerary day
+export interface ExportDocument {
+  name: string;
+  points: ExportPoint[];
+  tracks: ExportTrack[];
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * GPX 1.1: markers become waypoints (with the period as their type) and
+ * routes become tracks
+ */
+export function toGpx(doc: ExportDocument): string {
+  const waypoints = doc.points.map((point) => [
+    `  <wpt lat="${point.lat}" lon="${point.lng}">`,
+    `    <name>${escapeXml(point.name)}</name>`,
+    ...(point.description ? [`    <desc>${escapeXml(point.description)}</desc>`] : []),
+    ...(point.period ? [`    <type>${escapeXml(point.period)}</type>`] : []),
+    '  </wpt>',
+  ]);
+  const tracks = doc.tracks.map((track) => [
+    '  <trk>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    '    <trkseg>',
+    ...track.geometry.map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"/>`),
+    '    </trkseg>',
+    '  </trk>',
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="MapGPT" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(doc.name)}</name></metadata>`,
+    ...waypoints.flat(),
+    ...tracks.flat(),
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * GeoJSON FeatureCollection of Point and LineString features
+ */
+export function toGeoJson(doc: ExportDocument): string {
+  const features = [
+    ...doc.points.map((point) => ({
+      type: 'Feature',
+      properties: {
+        name: point.name,
+        ...(point.period ? { period: point.period } : {}),
+        ...(point.description ? { description: point.description } : {}),
+      },
+      geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+    })),
+    ...doc.tracks.map((track) => ({
+      type: 'Feature',
+      properties: { name: track.name },
+      geometry: { type: 'LineString', coordinates: track.geometry },
+    })),
+  ];
+
+  return `${JSON.stringify({ type: 'FeatureCollection', name: doc.name, features }, null, 2)}\n`;
+}
+
+/**
+ * KML 2.2: markers are grouped in one folder per period, routes become LineStrings
+ */
+export function toKml(doc: ExportDocument): string {
+  const placemark = (point: ExportPoint, indent: string) => [
+    `${indent}<Placemark>`,
+    `${indent}  <name>${escapeXml(point.name)}</name>`,
+    ...(point.description ? [`${indent}  <description>${escapeXml(point.description)}</description>`] : []),
+    `${indent}  <Point><coordinates>${point.lng},${point.lat}</coordinates></Point>`,
+    `${indent}</Placemark>`,
+  ];
+
+  // Keep periods in the order their first stop appears
+  const periods = [...new Set(doc.points.map((point) => point.period).filter((period): period is string => Boolean(period)))];
+  const folders = periods.map((period) => [
+    '    <Folder>',
+    `      <name>${escapeXml(period)}</name>`,
+    ...doc.points.filter((point) => point.period === period).flatMap((point) => placemark(point, '      ')),
+    '    </Folder>',
+  ]);
+  const loosePoints = doc.points.filter((point) => !point.period).map((point) => placemark(point, '    '));
+  const tracks = doc.tracks.map((track) => [
+    '    <Placemark>',
+    `      <name>${escapeXml(track.name)}</name>`,
+    `      <LineString><coordinates>${track.geometry.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LineString>`,
+    '    </Placemark>',
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(doc.name)}</name>`,
+    ...folders.flat(),
+    ...loosePoints.flat(),
+    ...tracks.flat(),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string; serialize: (doc: ExportDocument) => string }> = {
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml', serialize: toGpx },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json', serialize: toGeoJson },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', serialize: toKml },
+};
+
+/**
+ * File name for an export, e.g. "Day 1 - Paris" -> "day-1-paris.gpx"
+ */
+export function exportFileName(name: string, format: ExportFormat): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'trip';
+  return `${slug}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Serialize the document and hand it to the browser as a download
+ */
+export function downloadExport(doc: ExportDocument, format: ExportFormat): void {
+  const { serialize, mimeType } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([serialize(doc)], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(doc.name, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
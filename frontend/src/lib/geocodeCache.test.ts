@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createGeocodeCache, createMemoryEntryStore, type CacheEntryStore } from './geocodeCache';
+import type { GeocodeResult } from './geocoding';
+
+const result = (name: string): GeocodeResult[] => [{ id: `osm:node:${name}`, name, label: `${name}, Tokyo, Japan`, lat: 35.7, lng: 139.7 }];
+
+describe('geocodeCache', () => {
+  it('should drop the least recently used entries past the size limit', async () => {
+    let time = 0;
+    const store = createMemoryEntryStore();
+    const cache = createGeocodeCache(store, { maxEntries: 2, ttlMs: 60_000, now: () => ++time });
+
+    await cache.set('senso-ji', result('Senso-ji'));
+    await cache.set('skytree', result('Skytree'));
+    expect(await cache.get('senso-ji')).toEqual(result('Senso-ji')); // Now more recent than skytree
+    await cache.set('shibuya', result('Shibuya'));
+
+    expect(await cache.has('skytree')).toBe(false);
+    expect(await cache.has('senso-ji')).toBe(true);
+    expect(await cache.has('shibuya')).toBe(true);
+    expect(await cache.stats()).toEqual({ entries: 2, maxEntries: 2, hits: 1, misses: 0, evictions: 1 });
+  });
+
+  it('should treat entries past their TTL as misses and remove them', async () => {
+    let time = 1_000;
+    const store = createMemoryEntryStore();
+    const cache = createGeocodeCache(store, { maxEntries: 10, ttlMs: 500, now: () => time });
+
+    await cache.set('senso-ji', result('Senso-ji'));
+    time += 400;
+    expect(await cache.get('senso-ji')).not.toBeNull();
+    time += 200; // Reading does not extend the TTL
+    expect(await cache.get('senso-ji')).toBeNull();
+
+    expect(await store.count()).toBe(0);
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should purge every entry and reset the counters', async () => {
+    const cache = createGeocodeCache(createMemoryEntryStore(), { maxEntries: 10, ttlMs: 60_000 });
+    await cache.set('senso-ji', result('Senso-ji'));
+    await cache.get('skytree');
+
+    await cache.clear();
+
+    expect(await cache.stats()).toEqual({ entries: 0, maxEntries: 10, hits: 0, misses: 0, evictions: 0 });
+  });
+
+  it('should answer with a miss when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: CacheEntryStore = {
+      ...createMemoryEntryStore(),
+      get: () => Promise.reject(new Error('QuotaExceededError')),
+      put: () => Promise.reject(new Error('QuotaExceededError')),
+    };
+    const cache = createGeocodeCache(broken, { maxEntries: 10, ttlMs: 60_000 });
+
+    await expect(cache.set('senso-ji', result('Senso-ji'))).resolves.toBeUndefined();
+    expect(await cache.get('senso-ji')).toBeNull();
+    expect(await cache.has('senso-ji')).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+// Geocode results kept in the browser between visits: an IndexedDB store
+// bounded to the most recently used entries, each expiring after a while.
+// Falls back to memory where IndexedDB is unavailable (some private windows, tests).
+import type { GeocodeResult } from './geocoding';
+
+export interface CacheEntry {
+  key: string;
+  data: GeocodeResult[];
+  storedAt: number; // ms, for the TTL
+  usedAt: number; // ms, for the LRU order
+}
+
+// Where entries live; createGeocodeCache decides what to keep
+export interface CacheEntryStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  count(): Promise<number>;
+  leastRecentlyUsed(limit: number): Promise<string[]>; // Keys, least recently used first
+  clear(): Promise<void>;
+}
+
+export interface GeocodeCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number; // Since the page loaded
+  misses: number;
+  evictions: number;
+}
+
+export interface GeocodeCache {
+  get(key: string): Promise<GeocodeResult[] | null>;
+  has(key: string): Promise<boolean>; // Like get, without counting or refreshing the entry
+  set(key: string, data: GeocodeResult[]): Promise<void>;
+  stats(): Promise<GeocodeCacheStats>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'mapgpt';
+const DB_VERSION = 1;
+const STORE_NAME = 'geocode';
+const USED_AT_INDEX = 'usedAt';
+
+export function createMemoryEntryStore(): CacheEntryStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async put(entry) {
+      entries.set(entry.key, entry);
+    },
+    async delete(keys) {
+      keys.forEach((key) => entries.delete(key));
+    },
+    async count() {
+      return entries.size;
+    },
+    async leastRecentlyUsed(limit) {
+      return [...entries.values()]
+        .sort((a, b) => a.usedAt - b.usedAt)
+        .slice(0, limit)
+        .map((entry) => entry.key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbEntryStore(factory: IDBFactory = indexedDB): CacheEntryStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(USED_AT_INDEX, 'usedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null; // Try again next time
+        reject(request.error);
+      };
+    });
+    return database;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    // Awaited together, so a failing run does not leave `done` rejecting unhandled
+    const [result] = await Promise.all([run(transaction.objectStore(STORE_NAME)), done]);
+    return result;
+  };
+
+  return {
+    get(key) {
+      return withStore('readonly', (store) => requestResult(store.get(key) as IDBRequest<CacheEntry | undefined>));
+    },
+    async put(entry) {
+      await withStore('readwrite', (store) => requestResult(store.put(entry)));
+    },
+    async delete(keys) {
+      await withStore('readwrite', (store) => Promise.all(keys.map((key) => requestResult(store.delete(key)))));
+    },
+    count() {
+      return withStore('readonly', (store) => requestResult(store.count()));
+    },
+    leastRecentlyUsed(limit) {
+      return withStore('readonly', (store) => new Promise<string[]>((resolve, reject) => {
+        const keys: string[] = [];
+        const request = store.index(USED_AT_INDEX).openKeyCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || keys.length >= limit) return resolve(keys);
+          keys.push(cursor.primaryKey as string);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      }));
+    },
+    async clear() {
+      await withStore('readwrite', (store) => requestResult(store.clear()));
+    },
+  };
+}
+
+/**
+ * IndexedDB where the browser has it, memory otherwise
+ */
+export function createDefaultEntryStore(): CacheEntryStore {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbEntryStore() : createMemoryEntryStore();
+}
+
+/**
+ * Cache of search results over an entry store. Entries older than `ttlMs` are
+ * misses; past `maxEntries` the least recently used ones are dropped. Store
+ * failures count as misses, so a broken cache never breaks a search.
+ */
+export function createGeocodeCache(
+  store: CacheEntryStore,
+  { maxEntries, ttlMs, now = Date.now }: { maxEntries: number; ttlMs: number; now?: () => number }
+): GeocodeCache {
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const fresh = async (key: string): Promise<CacheEntry | undefined> => {
+    const entry = await store.get(key);
+    if (entry && now() - entry.storedAt > ttlMs) {
+      await store.delete([key]);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    async get(key) {
+      try {
+        const entry = await fresh(key);
+        if (!entry) {
+          misses++;
+          return null;
+        }
+        hits++;
+        await store.put({ ...entry, usedAt: now() });
+        return entry.data;
+      } catch (e) {
+        console.error('Geocode cache read failed:', e);
+        misses++;
+        return null;
+      }
+    },
+
+    async has(key) {
+      try {
+        return (await fresh(key)) !== undefined;
+      } catch {
+        return false;
+      }
+    },
+
+    async set(key, data) {
+      try {
+        const time = now();
+        await store.put({ key, data, storedAt: time, usedAt: time });
+        const excess = (await store.count()) - maxEntries;
+        if (excess > 0) {
+          await store.delete(await store.leastRecentlyUsed(excess));
+          evictions += excess;
+        }
+      } catch (e) {
+        console.error('Geocode cache write failed:', e);
+      }
+    },
+
+    async stats() {
+      let entries = 0;
+      try {
+        entries = await store.count();
+      } catch {
+        // Reported as empty
+      }
+      return { entries, maxEntries, hits, misses, evictions };
+    },
+
+    async clear() {
+      await store.clear();
+      hits = 0;
+      misses = 0;
+      evictions = 0;
+    },
+  };
+}
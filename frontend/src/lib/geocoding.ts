@@ -0,0 +1,240 @@
+// Geocoding through the backend (/api/geocode), which picks the engine
+// (Nominatim, Photon or Pelias), queues requests to it and caches results for
+// every user. Places come back in the same shape whichever engine found them.
+import { API_URL, GEOCODE_CACHE } from '../constants';
+import { authHeaders } from './auth';
+import { rateLimitErrorFrom, RateLimitError } from './rateLimit';
+import { createDefaultEntryStore, createGeocodeCache, type GeocodeCacheStats } from './geocodeCache';
+import type { PlaceData } from '../types';
+
+export interface GeocodeResult {
+  id: string;
+  name: string;
+  label: string; // Full one-line description
+  lat: number;
+  lng: number;
+  category?: string;
+  type?: string;
+  bbox?: [number, number, number, number]; // [west, south, east, north]
+  address?: {
+    road?: string;
+    city?: string;
+    state?: string;
+    postcode?: string;
+    country?: string;
+    countryCode?: string;
+  };
+}
+
+export interface SearchOptions {
+  limit?: number;
+  countryCode?: string;
+  viewbox?: string;
+  bounded?: boolean;
+  signal?: AbortSignal; // Cancels the request; searchPlaces then rejects instead of returning no places
+}
+
+// Throws RateLimitError when the geocoding budget is spent (429) or the
+// server's queue to the geocoder is full (503 with Retry-After)
+async function geocodeFetch(path: string, params: URLSearchParams, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${API_URL}/api/geocode/${path}?${params.toString()}`, {
+    headers: authHeaders(),
+    signal,
+  });
+  if (response.status === 429 || (response.status === 503 && response.headers.has('Retry-After'))) {
+    const { retryAfterSeconds } = await rateLimitErrorFrom(response);
+    throw new RateLimitError('Too many place searches', retryAfterSeconds);
+  }
+  return response;
+}
+
+function searchParams(query: string, options?: SearchOptions): URLSearchParams {
+  const params = new URLSearchParams({
+    q: query,
+    limit: (options?.limit ?? 5).toString(),
+  });
+
+  if (options?.countryCode) {
+    params.set('countrycodes', options.countryCode);
+  }
+
+  if (options?.viewbox) {
+    params.set('viewbox', options.viewbox);
+  }
+
+  if (options?.bounded) {
+    params.set('bounded', '1');
+  }
+
+  return params;
+}
+
+const placesCache = createGeocodeCache(createDefaultEntryStore(), {
+  maxEntries: GEOCODE_CACHE.MAX_ENTRIES,
+  ttlMs: GEOCODE_CACHE.TTL_MS,
+});
+
+// Searches with another limit, or biased to another country or area, are cached apart
+function cacheKey(query: string, options?: SearchOptions): string {
+  return [
+    query.trim().toLowerCase(),
+    options?.limit ?? 5,
+    options?.countryCode ?? '',
+    options?.viewbox ?? '',
+    options?.bounded ? 1 : 0,
+  ].join('|');
+}
+
+// Earlier versions kept one localStorage key per search
+const LEGACY_CACHE_KEY_PREFIX = 'mapgpt_geocode_cache_';
+
+function removeLegacyCache() {
+  try {
+    const keysToRemove = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(LEGACY_CACHE_KEY_PREFIX)) {
+        keysToRemove.push(key);
+      }
+    }
+    keysToRemove.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // LocalStorage might be unavailable
+  }
+}
+
+removeLegacyCache();
+
+/**
+ * Empty the places cache
+ */
+export async function clearPlacesCache(): Promise<void> {
+  try {
+    await placesCache.clear();
+  } catch (e) {
+    console.error('Failed to clear places cache:', e);
+  }
+}
+
+/**
+ * Size of the places cache and how well it has served this visit
+ */
+export function getPlacesCacheStats(): Promise<GeocodeCacheStats> {
+  return placesCache.stats();
+}
+
+/**
+ * Whether searchPlaces has results for this search without asking the server
+ */
+export function isSearchCached(query: string, options?: SearchOptions): Promise<boolean> {
+  return placesCache.has(cacheKey(query, options));
+}
+
+/**
+ * Search for places, for resolving names the user or the assistant gave.
+ * Throws RateLimitError when the server asks to wait.
+ */
+export async function searchPlaces(
+  query: string,
+  options?: SearchOptions
+): Promise<GeocodeResult[]> {
+  const limit = options?.limit ?? 5;
+
+  // Check cache first
+  const key = cacheKey(query, options);
+  const cached = await placesCache.get(key);
+  if (cached) {
+    return cached.slice(0, limit);
+  }
+
+  try {
+    const response = await geocodeFetch('search', searchParams(query, options), options?.signal);
+
+    if (!response.ok) {
+      throw new Error(`Place search failed: ${response.status}`);
+    }
+
+    const results = await response.json();
+
+    // Cache the results
+    if (results && Array.isArray(results) && results.length > 0) {
+      await placesCache.set(key, results);
+    }
+
+    return results;
+  } catch (error) {
+    if (error instanceof RateLimitError || options?.signal?.aborted) throw error;
+    console.error('Place search error:', error);
+    return [];
+  }
+}
+
+/**
+ * Suggest places for a partially typed query, from the backend's type-ahead engine.
+ * Throws RateLimitError when the server asks to wait.
+ */
+export async function autocompletePlaces(
+  query: string,
+  options?: SearchOptions
+): Promise<GeocodeResult[]> {
+  try {
+    const response = await geocodeFetch('autocomplete', searchParams(query, options));
+
+    if (!response.ok) {
+      throw new Error(`Place suggestions failed: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    console.error('Place suggestions error:', error);
+    return [];
+  }
+}
+
+/**
+ * Reverse geocode coordinates to address
+ */
+export async function reverseGeocode(
+  lat: number,
+  lon: number
+): Promise<GeocodeResult | null> {
+  const params = new URLSearchParams({
+    lat: lat.toString(),
+    lon: lon.toString(),
+  });
+
+  try {
+    const response = await geocodeFetch('reverse', params);
+
+    // No address at this position
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Reverse geocoding failed: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Reverse geocoding error:', error);
+    return null;
+  }
+}
+
+/**
+ * Convert a geocoding result to place data
+ */
+export function toPlaceData(result: GeocodeResult): PlaceData {
+  return {
+    id: result.id,
+    displayName: result.name,
+    formattedAddress: result.label,
+    location: {
+      lat: result.lat,
+      lng: result.lng,
+    },
+    types: [result.type, result.category].filter((type): type is string => Boolean(type)),
+  };
+}
@@ -1,5 +1,5 @@
 // Geolocation utilities
-import { reverseGeocode } from './nominatim';
+import { reverseGeocode } from './geocoding';
 
 export interface GeolocationError {
   code: 'PERMISSION_DENIED' | 'POSITION_UNAVAILABLE' | 'TIMEOUT' | 'NOT_SUPPORTED';
@@ -13,7 +13,7 @@ export interface GeolocationResult {
 }
 
 /**
- * Get the current user location with optional reverse geocoding (using Nominatim)
+ * Get the current user location with optional reverse geocoding
  */
 export async function getCurrentLocation(options?: {
   reverseGeocode?: boolean;
@@ -41,7 +41,7 @@ export async function getCurrentLocation(options?: {
           try {
             const result = await reverseGeocode(latitude, longitude);
             if (result) {
-              address = result.display_name;
+              address = result.label;
             }
           } catch {
             // Geocoding failed, continue without address
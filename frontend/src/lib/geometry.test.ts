@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isPointInPolygon, lineLength } from './geometry';
+
+const square: [number, number][] = [[2.3, 48.8], [2.4, 48.8], [2.4, 48.9], [2.3, 48.9], [2.3, 48.8]];
+const hole: [number, number][] = [[2.34, 48.84], [2.36, 48.84], [2.36, 48.86], [2.34, 48.86], [2.34, 48.84]];
+
+describe('isPointInPolygon', () => {
+  it('should find points inside the outer ring', () => {
+    expect(isPointInPolygon({ lat: 48.82, lng: 2.32 }, [square])).toBe(true);
+    expect(isPointInPolygon({ lat: 48.95, lng: 2.32 }, [square])).toBe(false);
+    expect(isPointInPolygon({ lat: 48.82, lng: 2.45 }, [square])).toBe(false);
+  });
+
+  it('should leave out points inside a hole', () => {
+    expect(isPointInPolygon({ lat: 48.85, lng: 2.35 }, [square, hole])).toBe(false);
+    expect(isPointInPolygon({ lat: 48.82, lng: 2.32 }, [square, hole])).toBe(true);
+  });
+
+  it('should contain nothing without rings', () => {
+    expect(isPointInPolygon({ lat: 48.85, lng: 2.35 }, [])).toBe(false);
+  });
+});
+
+describe('lineLength', () => {
+  it('should add up the great-circle distance of each segment', () => {
+    // One degree of latitude is about 111.2 km
+    expect(lineLength([[2.35, 48], [2.35, 49], [2.35, 50]])).toBeCloseTo(222390, -2);
+  });
+
+  it('should be zero for a single point', () => {
+    expect(lineLength([[2.35, 48.85]])).toBe(0);
+    expect(lineLength([])).toBe(0);
+  });
+});
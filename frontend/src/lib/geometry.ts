@@ -0,0 +1,40 @@
+/**
+ * Whether a point lies inside a polygon given as an outer ring followed by
+ * holes, each a list of [lng, lat] pairs (GeoJSON order)
+ */
+export function isPointInPolygon(point: { lat: number; lng: number }, rings: [number, number][][]): boolean {
+  if (rings.length === 0) return false;
+  const [outer, ...holes] = rings;
+  return isPointInRing(point, outer) && !holes.some((hole) => isPointInRing(point, hole));
+}
+
+// Ray casting: count how many ring edges a ray going east from the point crosses
+function isPointInRing({ lat, lng }: { lat: number; lng: number }, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+/**
+ * Length in meters of a line of [lng, lat] pairs, along great circles
+ */
+export function lineLength(line: [number, number][]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let length = 0;
+  for (let i = 1; i < line.length; i++) {
+    const [lng1, lat1] = line[i - 1];
+    const [lng2, lat2] = line[i];
+    const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2
+      + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+    length += 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+  }
+  return length;
+}
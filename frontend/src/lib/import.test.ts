@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseImportFile, importedPlaces, summarizeLayers, ImportError } from './import';
+import { toGeoJson, toGpx, toKml, type ExportDocument } from './export';
+
+const day: ExportDocument = {
+  name: 'Day 1',
+  points: [
+    { name: 'Eiffel Tower', lat: 48.8584, lng: 2.2945, period: 'Morning' },
+    { name: 'Louvre', lat: 48.8606, lng: 2.3376, period: 'Afternoon', description: 'Rue de Rivoli' },
+  ],
+  tracks: [{ name: 'Day 1 route', geometry: [[2.2945, 48.8584], [2.3376, 48.8606]] }],
+};
+
+describe('import', () => {
+  it.each([
+    ['day.gpx', toGpx],
+    ['day.geojson', toGeoJson],
+    ['day.kml', toKml],
+  ])('should read back %s as written by the export', (fileName, serialize) => {
+    const layer = parseImportFile(fileName, serialize(day));
+
+    expect(layer).toMatchObject({ name: 'Day 1', fileName, visible: true, tracks: day.tracks });
+    expect(layer.points).toEqual(day.points.map((point) => expect.objectContaining(point)));
+  });
+
+  it('should name a layer after the file when the file has no name', () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+        <wpt lat="48.85" lon="2.35"></wpt>
+        <rte><name>Museum run</name><rtept lat="48.85" lon="2.35"/><rtept lat="48.86" lon="2.34"/></rte>
+      </gpx>`;
+
+    const layer = parseImportFile('saved-places.gpx', gpx);
+
+    expect(layer.name).toBe('saved-places');
+    expect(layer.points).toEqual([expect.objectContaining({ name: 'Waypoint 1', lat: 48.85, lng: 2.35 })]);
+    expect(layer.tracks).toEqual([{ name: 'Museum run', geometry: [[2.35, 48.85], [2.34, 48.86]] }]);
+  });
+
+  it('should read bare GeoJSON geometries and multi-part features', () => {
+    expect(parseImportFile('point.json', '{"type":"Point","coordinates":[2.35,48.85]}').points).toEqual([
+      expect.objectContaining({ name: 'Feature 1', lat: 48.85, lng: 2.35 }),
+    ]);
+
+    const layer = parseImportFile('walks.geojson', JSON.stringify({
+      type: 'Feature',
+      properties: { title: 'Seine walks' },
+      geometry: { type: 'MultiLineString', coordinates: [[[2.3, 48.85], [2.31, 48.86]], [[2.32, 48.85], [2.33, 48.86]]] },
+    }));
+    expect(layer.tracks.map((track) => track.name)).toEqual(['Seine walks', 'Seine walks']);
+  });
+
+  it('should reject unknown, invalid and empty files', () => {
+    expect(() => parseImportFile('notes.txt', 'hello')).toThrow(new ImportError('notes.txt is not a GPX, GeoJSON or KML file.'));
+    expect(() => parseImportFile('broken.gpx', '<gpx><wpt>')).toThrow('broken.gpx is not valid XML.');
+    expect(() => parseImportFile('broken.geojson', '{')).toThrow('broken.geojson is not valid JSON.');
+    expect(() => parseImportFile('empty.geojson', '{"type":"FeatureCollection","features":[]}')).toThrow('empty.geojson has no places or tracks.');
+  });
+
+  it('should list the imported points as places', () => {
+    const layer = parseImportFile('day.gpx', toGpx(day));
+
+    expect(importedPlaces(layer)).toEqual([
+      { id: `${layer.id}-0`, displayName: 'Eiffel Tower', formattedAddress: 'Morning · Day 1', location: { lat: 48.8584, lng: 2.2945 }, types: ['imported'] },
+      { id: `${layer.id}-1`, displayName: 'Louvre', formattedAddress: 'Rue de Rivoli', location: { lat: 48.8606, lng: 2.3376 }, types: ['imported'] },
+    ]);
+  });
+
+  it('should summarize layers for the chat', () => {
+    const [summary] = summarizeLayers([parseImportFile('day.kml', toKml(day))]);
+
+    expect(summary.name).toBe('Day 1');
+    expect(summary.points[1]).toEqual({ name: 'Louvre', lat: 48.8606, lng: 2.3376, period: 'Afternoon', description: 'Rue de Rivoli' });
+    expect(summary.tracks).toEqual([{ name: 'Day 1 route', distance: expect.closeTo(3160, -2) }]);
+  });
+});
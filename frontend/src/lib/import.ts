@@ -0,0 +1,240 @@
+// Trip import from GPX, GeoJSON and KML files: saved places and tracks become map layers
+import { lineLength } from './geometry';
+import type { ExportDocument, ExportPoint, ExportTrack } from './export';
+import type { PlaceData } from '../types';
+
+// An imported file drawn on the map; same shape as what the export writes
+export interface ImportedLayer extends ExportDocument {
+  id: string;
+  fileName: string;
+  visible: boolean;
+}
+
+// What the chat sends to /api/chat so the model can reason about the layer
+export interface ImportedLayerSummary {
+  name: string;
+  points: { name: string; lat: number; lng: number; period?: string; description?: string }[];
+  tracks: { name: string; distance: number }[]; // meters
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Keeps the chat request small; the backend caps the prompt at the same count
+const MAX_SUMMARY_FEATURES = 100;
+
+let nextLayerId = 1;
+
+const childText = (element: Element, tagName: string) =>
+  Array.from(element.children).find((child) => child.localName === tagName)?.textContent?.trim() || undefined;
+
+const descendants = (root: Document | Element, tagName: string) =>
+  Array.from(root.getElementsByTagName('*')).filter((element) => element.localName === tagName);
+
+function parseXml(text: string, fileName: string): Document {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new ImportError(`${fileName} is not valid XML.`);
+  }
+  return xml;
+}
+
+function toLngLat(element: Element): [number, number] | null {
+  const lat = parseFloat(element.getAttribute('lat') ?? '');
+  const lng = parseFloat(element.getAttribute('lon') ?? '');
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lng, lat] : null;
+}
+
+function parseGpx(text: string, fileName: string): ExportDocument {
+  const xml = parseXml(text, fileName);
+  const metadata = descendants(xml, 'metadata')[0];
+
+  const points: ExportPoint[] = descendants(xml, 'wpt').flatMap((wpt, index) => {
+    const position = toLngLat(wpt);
+    if (!position) return [];
+    return [{
+      name: childText(wpt, 'name') ?? `Waypoint ${index + 1}`,
+      lat: position[1],
+      lng: position[0],
+      period: childText(wpt, 'type'),
+      description: childText(wpt, 'desc'),
+    }];
+  });
+
+  // Routes and tracks are both drawn as lines; a track's segments are joined
+  const lines: [Element, string][] = [...descendants(xml, 'rte').map((rte): [Element, string] => [rte, 'rtept']), ...descendants(xml, 'trk').map((trk): [Element, string] => [trk, 'trkpt'])];
+  const tracks: ExportTrack[] = lines.map(([line, pointTag], index) => ({
+    name: childText(line, 'name') ?? `Track ${index + 1}`,
+    geometry: descendants(line, pointTag).map(toLngLat).filter((position): position is [number, number] => position !== null),
+  }));
+
+  return { name: (metadata && childText(metadata, 'name')) ?? '', points, tracks };
+}
+
+function parseKmlCoordinates(text: string | null | undefined): [number, number][] {
+  return (text ?? '')
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(',').map(Number))
+    .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat))
+    .map(([lng, lat]): [number, number] => [lng, lat]);
+}
+
+function parseKml(text: string, fileName: string): ExportDocument {
+  const xml = parseXml(text, fileName);
+  const kmlDocument = descendants(xml, 'Document')[0];
+  const points: ExportPoint[] = [];
+  const tracks: ExportTrack[] = [];
+
+  descendants(xml, 'Placemark').forEach((placemark, index) => {
+    const name = childText(placemark, 'name') ?? `Placemark ${index + 1}`;
+    // The enclosing folder names the period, as written by the export
+    const folder = placemark.parentElement?.localName === 'Folder' ? childText(placemark.parentElement, 'name') : undefined;
+
+    for (const point of descendants(placemark, 'Point')) {
+      const [position] = parseKmlCoordinates(descendants(point, 'coordinates')[0]?.textContent);
+      if (position) {
+        points.push({ name, lat: position[1], lng: position[0], period: folder, description: childText(placemark, 'description') });
+      }
+    }
+    for (const line of descendants(placemark, 'LineString')) {
+      tracks.push({ name, geometry: parseKmlCoordinates(descendants(line, 'coordinates')[0]?.textContent) });
+    }
+  });
+
+  return { name: (kmlDocument && childText(kmlDocument, 'name')) ?? '', points, tracks };
+}
+
+interface GeoJsonFeature {
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+function parseGeoJson(text: string, fileName: string): ExportDocument {
+  let data: { type?: string; name?: unknown; features?: GeoJsonFeature[] } & GeoJsonFeature;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError(`${fileName} is not valid JSON.`);
+  }
+  if (!data || typeof data !== 'object') {
+    throw new ImportError(`${fileName} has no places or tracks.`);
+  }
+
+  const features: GeoJsonFeature[] = data.type === 'FeatureCollection'
+    ? data.features ?? []
+    : data.type === 'Feature'
+      ? [data]
+      : [{ geometry: data as GeoJsonFeature['geometry'] }];
+  const points: ExportPoint[] = [];
+  const tracks: ExportTrack[] = [];
+
+  features.forEach((feature, index) => {
+    const properties = feature.properties ?? {};
+    const property = (key: string) => (typeof properties[key] === 'string' && properties[key] ? properties[key] as string : undefined);
+    const name = property('name') ?? property('title') ?? `Feature ${index + 1}`;
+    const geometry = feature.geometry;
+    if (!geometry) return;
+
+    const positions = (coordinates: unknown) => (Array.isArray(coordinates) ? coordinates : [])
+      .filter((position): position is [number, number] => Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1]))
+      .map(([lng, lat]): [number, number] => [lng, lat]);
+    const addPoint = ([lng, lat]: [number, number]) =>
+      points.push({ name, lat, lng, period: property('period'), description: property('description') });
+
+    switch (geometry.type) {
+      case 'Point':
+        positions([geometry.coordinates]).forEach(addPoint);
+        break;
+      case 'MultiPoint':
+        positions(geometry.coordinates).forEach(addPoint);
+        break;
+      case 'LineString':
+        tracks.push({ name, geometry: positions(geometry.coordinates) });
+        break;
+      case 'MultiLineString':
+        (Array.isArray(geometry.coordinates) ? geometry.coordinates : []).forEach((line) => {
+          tracks.push({ name, geometry: positions(line) });
+        });
+        break;
+      default:
+        break; // Areas are not imported
+    }
+  });
+
+  return { name: typeof data.name === 'string' ? data.name : '', points, tracks };
+}
+
+/**
+ * Parse a GPX, GeoJSON or KML file into a visible layer named after the
+ * file's own name or, failing that, the file name.
+ * Throws ImportError for unknown formats, unreadable files or files without
+ * any places or tracks.
+ */
+export function parseImportFile(fileName: string, text: string): ImportedLayer {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let doc: ExportDocument;
+  if (extension === 'gpx') {
+    doc = parseGpx(text, fileName);
+  } else if (extension === 'kml') {
+    doc = parseKml(text, fileName);
+  } else if (extension === 'geojson' || extension === 'json') {
+    doc = parseGeoJson(text, fileName);
+  } else {
+    throw new ImportError(`${fileName} is not a GPX, GeoJSON or KML file.`);
+  }
+
+  const tracks = doc.tracks.filter((track) => track.geometry.length >= 2);
+  if (doc.points.length === 0 && tracks.length === 0) {
+    throw new ImportError(`${fileName} has no places or tracks.`);
+  }
+
+  return {
+    id: `layer-${nextLayerId++}`,
+    fileName,
+    name: doc.name || fileName.replace(/\.[^.]+$/, ''),
+    visible: true,
+    points: doc.points,
+    tracks,
+  };
+}
+
+/**
+ * The layer's places, for the places list
+ */
+export function importedPlaces(layer: ImportedLayer): PlaceData[] {
+  return layer.points.map((point, index) => ({
+    id: `${layer.id}-${index}`,
+    displayName: point.name,
+    formattedAddress: point.description ?? (point.period ? `${point.period} · ${layer.name}` : layer.name),
+    location: { lat: point.lat, lng: point.lng },
+    types: ['imported'],
+  }));
+}
+
+/**
+ * Compact description of the layers for the chat, at most 100 features in all
+ */
+export function summarizeLayers(layers: ImportedLayer[]): ImportedLayerSummary[] {
+  let remaining = MAX_SUMMARY_FEATURES;
+  return layers.map((layer) => {
+    const points = layer.points.slice(0, remaining).map((point) => ({
+      name: point.name,
+      lat: Math.round(point.lat * 1e5) / 1e5,
+      lng: Math.round(point.lng * 1e5) / 1e5,
+      ...(point.period ? { period: point.period } : {}),
+      ...(point.description ? { description: point.description } : {}),
+    }));
+    remaining -= points.length;
+    const tracks = layer.tracks.slice(0, remaining).map((track) => ({
+      name: track.name,
+      distance: Math.round(lineLength(track.geometry)),
+    }));
+    remaining -= tracks.length;
+    return { name: layer.name, points, tracks };
+  });
+}
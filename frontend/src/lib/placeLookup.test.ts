@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { flagSuspectMatches, lookupPlace, matchPlace, matchPlaces, needsReview, placeChoiceKey, tripCountryCode, viewboxFromBounds } from './placeLookup';
+import { isSearchCached, searchPlaces, type GeocodeResult } from './geocoding';
+import { RateLimitError } from './rateLimit';
+import type { PlaceData } from '../types';
+
+vi.mock('./geocoding', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./geocoding')>()),
+  searchPlaces: vi.fn(),
+  isSearchCached: vi.fn(),
+}));
+
+const place = (id: string, formattedAddress: string, lat: number, lng: number): PlaceData => ({
+  id,
+  displayName: formattedAddress.split(',')[0],
+  formattedAddress,
+  location: { lat, lng },
+});
+
+const sensoJi = place('1', 'Senso-ji Temple, Asakusa, Tokyo, Japan', 35.7148, 139.7967);
+const skytree = place('2', 'Tokyo Skytree, Sumida, Tokyo, Japan', 35.7101, 139.8107);
+const shibuya = place('3', 'Shibuya Crossing, Shibuya, Tokyo, Japan', 35.6595, 139.7004);
+
+describe('placeLookup', () => {
+  beforeEach(() => {
+    vi.mocked(searchPlaces).mockReset();
+    vi.mocked(isSearchCached).mockReset().mockResolvedValue(false);
+  });
+
+  it('should turn map bounds into a viewbox, except when the whole world is visible', () => {
+    expect(viewboxFromBounds({ west: 139.6, south: 35.6, east: 139.9, north: 35.8 })).toBe('139.6,35.8,139.9,35.6');
+    expect(viewboxFromBounds({ west: 100.123456, south: -95, east: 200, north: 10 })).toBe('100.1235,10,180,-90');
+    expect(viewboxFromBounds({ west: -250, south: -80, east: 250, north: 80 })).toBeUndefined();
+  });
+
+  it('should pick the country most places are in', () => {
+    expect(tripCountryCode([sensoJi, place('4', 'Louvre, Paris, France', 48.86, 2.34), skytree])).toBe('jp');
+    expect(tripCountryCode([place('5', '35.7, 139.8', 35.7, 139.8)])).toBeUndefined();
+  });
+
+  it('should search in the trip country first and anywhere when nothing is there', async () => {
+    vi.mocked(searchPlaces)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'osm:node:9', name: 'Central Station', label: 'Central Station, Sydney, Australia', lat: -33.88, lng: 151.21 }]);
+
+    const found = await lookupPlace('Central Station', { viewbox: '139.6,35.8,139.9,35.6', countryCode: 'jp' });
+
+    expect(searchPlaces).toHaveBeenNthCalledWith(1, 'Central Station', { limit: 1, countryCode: 'jp', viewbox: '139.6,35.8,139.9,35.6' });
+    expect(searchPlaces).toHaveBeenNthCalledWith(2, 'Central Station', { limit: 1, viewbox: '139.6,35.8,139.9,35.6' });
+    expect(found).toMatchObject({ id: 'osm:node:9', displayName: 'Central Station', location: { lat: -33.88, lng: 151.21 } });
+  });
+
+  it('should hand the abort signal to every search it makes', async () => {
+    vi.mocked(searchPlaces).mockResolvedValue([]);
+    const { signal } = new AbortController();
+
+    expect(await lookupPlace('Central Station', { countryCode: 'jp' }, signal)).toBeNull();
+
+    expect(vi.mocked(searchPlaces).mock.calls.map(([, options]) => options?.signal)).toEqual([signal, signal]);
+  });
+
+  it('should search anywhere when the best place in the trip country is not the one asked for', async () => {
+    const louvre = { id: 'osm:way:7', name: 'Louvre', label: 'Musée du Louvre, Paris, France', lat: 48.86, lng: 2.34 };
+    vi.mocked(searchPlaces)
+      .mockResolvedValueOnce([{ id: 'osm:node:8', name: 'Louvre Cafe', label: 'Cafe, Shibuya, Tokyo, Japan', lat: 35.66, lng: 139.7 }])
+      .mockResolvedValueOnce([louvre]);
+
+    expect(await lookupPlace('Musée du Louvre', { countryCode: 'jp' })).toMatchObject({ id: 'osm:way:7' });
+    expect(searchPlaces).toHaveBeenCalledTimes(2);
+
+    // A good match in the trip country needs no second search
+    vi.mocked(searchPlaces).mockClear().mockResolvedValueOnce([louvre]);
+    expect(await lookupPlace('Musée du Louvre', { countryCode: 'fr' })).toMatchObject({ id: 'osm:way:7' });
+    expect(searchPlaces).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the other candidates and rate how well the best one matches', async () => {
+    vi.mocked(searchPlaces).mockResolvedValueOnce([
+      { id: 'osm:way:1', name: 'Tour Eiffel', label: 'Tour Eiffel, Avenue Anatole France, Paris, France', lat: 48.858, lng: 2.294 },
+      { id: 'osm:node:2', name: 'Eiffel Tower Replica', label: 'Eiffel Tower Replica, Las Vegas, United States', lat: 36.11, lng: -115.17 },
+    ]);
+
+    const found = await matchPlace('Eiffel Tower, Paris', {});
+
+    expect(searchPlaces).toHaveBeenCalledWith('Eiffel Tower, Paris', { limit: 5, viewbox: undefined });
+    expect(found).toMatchObject({ id: 'osm:way:1', query: 'Eiffel Tower, Paris', matchQuality: 'high' });
+    expect(found.candidates?.map((candidate) => candidate.id)).toEqual(['osm:node:2']);
+
+    vi.mocked(searchPlaces).mockResolvedValueOnce([
+      { id: 'osm:node:3', name: 'Shinjuku Station', label: 'Shinjuku Station, Shinjuku, Tokyo, Japan', lat: 35.69, lng: 139.7 },
+    ]);
+    expect(await matchPlace('Omoide Yokocho', {})).toMatchObject({ matchQuality: 'low' });
+  });
+
+  it('should list names nothing was found for as unresolved', async () => {
+    vi.mocked(searchPlaces).mockResolvedValue([]);
+
+    const found = await matchPlace('Hidden Ramen Bar', { countryCode: 'jp' });
+
+    expect(searchPlaces).toHaveBeenCalledTimes(2);
+    expect(found).toEqual({
+      id: 'unresolved:hidden ramen bar',
+      displayName: 'Hidden Ramen Bar',
+      formattedAddress: '',
+      location: null,
+      query: 'Hidden Ramen Bar',
+      matchQuality: 'unresolved',
+      candidates: [],
+    });
+    expect(needsReview(found)).toBe(true);
+  });
+
+  it('should look up a batch a few at a time, picked and cached places first, in the order asked', async () => {
+    const queries = ['Senso-ji', 'Tokyo Skytree', 'Shibuya Crossing', 'Meiji Shrine', 'Ueno Park', 'Tokyo Tower', 'Imperial Palace'];
+    const pending = new Map<string, (results: GeocodeResult[]) => void>();
+    vi.mocked(searchPlaces).mockImplementation((query) => {
+      if (query === 'Tokyo Tower') {
+        return Promise.resolve([{ id: 'osm:way:6', name: 'Tokyo Tower', label: 'Tokyo Tower, Minato, Tokyo, Japan', lat: 35.66, lng: 139.75 }]);
+      }
+      return new Promise((resolve) => pending.set(query, resolve));
+    });
+    vi.mocked(isSearchCached).mockImplementation(async (query) => query === 'Tokyo Tower');
+    const onMatch = vi.fn();
+
+    const batch = matchPlaces(queries, {}, { choices: { 'ueno park': { ...shibuya, id: 'picked' } }, onMatch });
+    await vi.waitFor(() => expect(onMatch).toHaveBeenCalledTimes(2));
+
+    expect(onMatch.mock.calls.map(([place, index]) => [place.id, index])).toEqual([['picked', 4], ['osm:way:6', 5]]);
+    // Four lookups in flight, the fifth waits for a free slot
+    expect([...pending.keys()]).toEqual(['Senso-ji', 'Tokyo Skytree', 'Shibuya Crossing', 'Meiji Shrine']);
+
+    const answer = (query: string, results: GeocodeResult[]) => pending.get(query)!(results);
+    const found = (query: string, id: string): GeocodeResult[] => [{ id, name: query, label: `${query}, Tokyo, Japan`, lat: 35.7, lng: 139.7 }];
+    answer('Tokyo Skytree', []);
+    await vi.waitFor(() => expect(pending.has('Imperial Palace')).toBe(true));
+    answer('Senso-ji', found('Senso-ji', 'osm:node:0'));
+    answer('Shibuya Crossing', found('Shibuya Crossing', 'osm:node:2'));
+    answer('Meiji Shrine', found('Meiji Shrine', 'osm:node:3'));
+    answer('Imperial Palace', found('Imperial Palace', 'osm:node:7'));
+    const places = await batch;
+
+    expect(places.map((p) => p.id)).toEqual(['osm:node:0', 'unresolved:tokyo skytree', 'osm:node:2', 'osm:node:3', 'picked', 'osm:way:6', 'osm:node:7']);
+    expect(onMatch).toHaveBeenCalledTimes(7);
+  });
+
+  it('should keep cached lookups within the few at a time, since their fallback search may not be cached', async () => {
+    const queries = ['Senso-ji', 'Tokyo Skytree', 'Shibuya Crossing', 'Meiji Shrine', 'Ueno Park'];
+    const pending = new Map<string, (results: GeocodeResult[]) => void>();
+    vi.mocked(searchPlaces).mockImplementation((query, options) =>
+      options?.countryCode ? Promise.resolve([]) : new Promise((resolve) => pending.set(query, resolve)));
+    vi.mocked(isSearchCached).mockResolvedValue(true);
+
+    const batch = matchPlaces(queries, { countryCode: 'jp' });
+    await vi.waitFor(() => expect(pending.size).toBe(4));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect([...pending.keys()]).toEqual(['Senso-ji', 'Tokyo Skytree', 'Shibuya Crossing', 'Meiji Shrine']);
+    pending.get('Senso-ji')!([]);
+    await vi.waitFor(() => expect(pending.has('Ueno Park')).toBe(true));
+    for (const [query, resolve] of pending) {
+      if (query !== 'Senso-ji') resolve([]);
+    }
+    expect((await batch).map((p) => p.matchQuality)).toEqual(Array(5).fill('unresolved'));
+  });
+
+  it('should stop a batch when it is aborted', async () => {
+    const controller = new AbortController();
+    vi.mocked(searchPlaces).mockImplementation((_query, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+    }));
+    const onMatch = vi.fn();
+
+    const batch = matchPlaces(['Senso-ji', 'Tokyo Skytree'], {}, { signal: controller.signal, onMatch });
+    controller.abort();
+
+    await expect(batch).rejects.toThrow();
+    expect(onMatch).not.toHaveBeenCalled();
+  });
+
+  it('should stop a batch when the server asks to wait', async () => {
+    const pending = new Map<string, (results: GeocodeResult[]) => void>();
+    vi.mocked(searchPlaces).mockImplementation((query) => {
+      if (query === 'Tokyo Skytree') return Promise.reject(new RateLimitError('Too many place searches', 20));
+      return new Promise((resolve) => pending.set(query, resolve));
+    });
+    const onMatch = vi.fn();
+
+    const batch = matchPlaces(['Senso-ji', 'Tokyo Skytree', 'Shibuya Crossing', 'Meiji Shrine', 'Ueno Park'], {}, { onMatch });
+    await expect(batch).rejects.toBeInstanceOf(RateLimitError);
+    // Lookups already sent land without being reported, and no more are sent
+    pending.forEach((resolve) => resolve([]));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onMatch).not.toHaveBeenCalled();
+    expect(vi.mocked(searchPlaces).mock.calls.map(([query]) => query)).not.toContain('Ueno Park');
+  });
+
+  it('should key choices by the normalized name', () => {
+    expect(placeChoiceKey('  Old   Town ')).toBe(placeChoiceKey('old town'));
+  });
+
+  it('should flag places far from every other one', () => {
+    const oldTown = place('6', 'Old Town, Edinburgh, United Kingdom', 55.95, -3.19);
+
+    const flagged = flagSuspectMatches([sensoJi, oldTown, skytree, shibuya], 100);
+
+    expect(flagged.map((p) => Boolean(p.suspectMatch))).toEqual([false, true, false, false]);
+    // Two places alone give no majority to compare against
+    expect(flagSuspectMatches([sensoJi, oldTown], 100).some((p) => p.suspectMatch)).toBe(false);
+    // Nor is a place the user picked
+    const picked = { ...oldTown, matchQuality: 'confirmed' as const };
+    expect(flagSuspectMatches([sensoJi, picked, skytree, shibuya], 100)[1].suspectMatch).toBeUndefined();
+    expect(needsReview(picked)).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+// Place lookups for the assistant's map actions, biased toward the visible map
+// area and the trip's country so ambiguous names ("Central Station", "Old
+// Town") resolve near the rest of the trip rather than on another continent
+import { isSearchCached, searchPlaces, toPlaceData } from './geocoding';
+import { getCountryCodeFromAddress } from './countryCode';
+import { lineLength } from './geometry';
+import { RateLimitError } from './rateLimit';
+import type { PlaceData } from '../types';
+
+export interface LookupBias {
+  viewbox?: string; // "left,top,right,bottom"
+  countryCode?: string;
+}
+
+const VIEWBOX_DECIMALS = 4;
+const MAX_CANDIDATES = 5;
+const BATCH_CONCURRENCY = 4; // Lookups in flight at once; the backend queues them for the geocoder anyway
+const MIN_MATCHING_WORDS = 0.5; // Share of the query's words a good match has in its name or address
+
+/**
+ * Geocoder viewbox for the visible map area, or undefined when the whole
+ * world is in view and there is nothing to favor
+ */
+export function viewboxFromBounds({ west, south, east, north }: { west: number; south: number; east: number; north: number }): string | undefined {
+  if (east - west >= 360) return undefined;
+  const clamp = (value: number, limit: number) => Number(Math.min(limit, Math.max(-limit, value)).toFixed(VIEWBOX_DECIMALS));
+  return [clamp(west, 180), clamp(north, 90), clamp(east, 180), clamp(south, 90)].join(',');
+}
+
+/**
+ * The country most of the places are in, from their addresses
+ */
+export function tripCountryCode(places: PlaceData[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const place of places) {
+    const code = getCountryCodeFromAddress(place.formattedAddress);
+    if (code) counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [code, count] of counts) {
+    if (!best || count > counts.get(best)!) best = code;
+  }
+  return best;
+}
+
+async function searchBiased(query: string, { viewbox, countryCode }: LookupBias, limit: number, signal?: AbortSignal) {
+  const inCountry = countryCode ? await searchPlaces(query, { limit, countryCode, viewbox, signal }) : [];
+  if (inCountry.length > 0 && matchesQuery(query, toPlaceData(inCountry[0]))) return inCountry;
+  // The trip may have moved on to another country
+  const anywhere = await searchPlaces(query, { limit, viewbox, signal });
+  if (anywhere.length > 0 && matchesQuery(query, toPlaceData(anywhere[0]))) return anywhere;
+  return inCountry.length > 0 ? inCountry : anywhere;
+}
+
+// Whether the first search a lookup makes is answered from the cache
+const isLookupCached = (query: string, { viewbox, countryCode }: LookupBias) =>
+  isSearchCached(query, { limit: MAX_CANDIDATES, countryCode, viewbox });
+
+/**
+ * Best match for a name the assistant gave, in the trip's country when a
+ * matching place is there and anywhere otherwise, favoring the visible map area
+ */
+export async function lookupPlace(query: string, bias: LookupBias, signal?: AbortSignal): Promise<PlaceData | null> {
+  const results = await searchBiased(query, bias, 1, signal);
+  return results.length > 0 ? toPlaceData(results[0]) : null;
+}
+
+/**
+ * Key a user's choice for a name is remembered under, so "Old town" and
+ * "old  Town" share it
+ */
+export function placeChoiceKey(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+const words = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Whether a found place plausibly is the one asked for: at least half the
+ * words of the query appear in its name or address. Geocoders answer in the
+ * local language ("Tour Eiffel"), so the address has to count too.
+ */
+export function matchesQuery(query: string, place: PlaceData): boolean {
+  const queryWords = words(query);
+  if (queryWords.length === 0) return false;
+  const placeWords = new Set(words(`${place.displayName} ${place.formattedAddress}`));
+  const found = queryWords.filter((word) => placeWords.has(word)).length;
+  return found / queryWords.length >= MIN_MATCHING_WORDS;
+}
+
+/**
+ * Placeholder for a name nothing was found for, listed so the user can
+ * search for it again
+ */
+export function unresolvedPlace(query: string): PlaceData {
+  return {
+    id: `unresolved:${placeChoiceKey(query)}`,
+    displayName: query,
+    formattedAddress: '',
+    location: null,
+    query,
+    matchQuality: 'unresolved',
+    candidates: [],
+  };
+}
+
+/**
+ * Like lookupPlace, but never drops a name: the best match carries how well it
+ * answers the query and the other candidates found, and a name nothing was
+ * found for comes back as an unresolved placeholder
+ */
+export async function matchPlace(query: string, bias: LookupBias, signal?: AbortSignal): Promise<PlaceData> {
+  const results = await searchBiased(query, bias, MAX_CANDIDATES, signal);
+  if (results.length === 0) return unresolvedPlace(query);
+
+  const [best, ...others] = results.map(toPlaceData);
+  return {
+    ...best,
+    query,
+    matchQuality: matchesQuery(query, best) ? 'high' : 'low',
+    candidates: others,
+  };
+}
+
+export interface BatchLookupOptions {
+  choices?: Record<string, PlaceData>; // Places the user picked, by placeChoiceKey, used instead of a lookup
+  signal?: AbortSignal;
+  onMatch?: (place: PlaceData, index: number) => void; // Each place as soon as it is found
+}
+
+/**
+ * matchPlace for a list of names, a few at a time. Picked places come first,
+ * then cached ones are looked up ahead of the others; the result keeps the
+ * order of the names. Rejects with the abort reason once the signal is aborted, and
+ * reports nothing more after that, and with RateLimitError when the server
+ * asks to wait.
+ */
+export async function matchPlaces(queries: string[], bias: LookupBias, { choices, signal, onMatch }: BatchLookupOptions = {}): Promise<PlaceData[]> {
+  const places: PlaceData[] = new Array(queries.length);
+  let rateLimited: RateLimitError | null = null;
+  const report = (place: PlaceData, index: number) => {
+    signal?.throwIfAborted();
+    if (rateLimited) throw rateLimited;
+    places[index] = place;
+    onMatch?.(place, index);
+  };
+
+  const cached: number[] = [];
+  const uncached: number[] = [];
+  const inCache = await Promise.all(queries.map((query) => isLookupCached(query, bias)));
+  queries.forEach((query, index) => {
+    const chosen = choices?.[placeChoiceKey(query)];
+    if (chosen) {
+      report(chosen, index);
+    } else {
+      (inCache[index] ? cached : uncached).push(index);
+    }
+  });
+  // Only the first search of a cached lookup is known to be cached; its
+  // fallback may still go to the server, so it takes a worker like the rest
+  const pending = [...cached, ...uncached];
+
+  const lookup = async (index: number) => {
+    signal?.throwIfAborted();
+    let place: PlaceData;
+    try {
+      place = await matchPlace(queries[index], bias, signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      if (error instanceof RateLimitError) {
+        // The rest would only be refused too
+        rateLimited = error;
+        pending.length = 0;
+        throw error;
+      }
+      console.error(`Error searching for ${queries[index]}:`, error);
+      place = unresolvedPlace(queries[index]);
+    }
+    report(place, index);
+  };
+
+  // Pending lookups share a few workers so the server queue is not flooded
+  const worker = async () => {
+    for (let index = pending.shift(); index !== undefined; index = pending.shift()) {
+      await lookup(index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, pending.length) }, worker));
+  return places;
+}
+
+/**
+ * Whether the place list should ask the user to check a looked up place
+ */
+export function needsReview(place: PlaceData): boolean {
+  if (place.matchQuality === 'confirmed') return false;
+  return place.matchQuality === 'unresolved' || place.matchQuality === 'low' || Boolean(place.suspectMatch);
+}
+
+/**
+ * Flag the places farther than `maxDistanceKm` from every other one. Needs at
+ * least three places, since with two there is no telling which one is off.
+ */
+export function flagSuspectMatches(places: PlaceData[], maxDistanceKm: number): PlaceData[] {
+  const located = places.filter((place) => place.location);
+  if (located.length < 3) return places;
+
+  const distanceKm = (a: PlaceData, b: PlaceData) =>
+    lineLength([[a.location!.lng, a.location!.lat], [b.location!.lng, b.location!.lat]]) / 1000;
+
+  return places.map((place) => {
+    // A place the user picked stays, however far it is
+    if (!place.location || place.matchQuality === 'confirmed') return place;
+    const nearest = Math.min(...located.filter((other) => other !== place).map((other) => distanceKm(place, other)));
+    return nearest > maxDistanceKm ? { ...place, suspectMatch: true } : place;
+  });
+}
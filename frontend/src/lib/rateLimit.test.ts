@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { formatRetryAfter, RateLimitError, rateLimitErrorFrom, rateLimitMessage } from './rateLimit';
+
+function response429(headers: Record<string, string>, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 429, headers });
+}
+
+describe('rateLimitErrorFrom', () => {
+  it('should prefer the Retry-After header', async () => {
+    const error = await rateLimitErrorFrom(response429({ 'Retry-After': '30' }, { error: 'Too many chat requests', retryAfter: 10 }));
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe('Too many chat requests');
+    expect(error.retryAfterSeconds).toBe(30);
+  });
+
+  it('should fall back to the body and then to no delay', async () => {
+    expect((await rateLimitErrorFrom(response429({}, { retryAfter: 12 }))).retryAfterSeconds).toBe(12);
+    expect((await rateLimitErrorFrom(response429({}, null))).retryAfterSeconds).toBeNull();
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it('should describe the wait in seconds or minutes', () => {
+    expect(formatRetryAfter(null)).toBe('in a moment');
+    expect(formatRetryAfter(1)).toBe('in 1 second');
+    expect(formatRetryAfter(45)).toBe('in 45 seconds');
+    expect(formatRetryAfter(60)).toBe('in 1 minute');
+    expect(formatRetryAfter(601)).toBe('in 11 minutes');
+  });
+});
+
+describe('rateLimitMessage', () => {
+  it('should tell the user when to try again', () => {
+    expect(rateLimitMessage(new RateLimitError('Too many place searches', 45))).toBe('Too many place searches. Please try again in 45 seconds.');
+    expect(rateLimitMessage(new RateLimitError('Too many place searches', null))).toBe('Too many place searches. Please try again in a moment.');
+  });
+});
@@ -0,0 +1,33 @@
+// The backend answers 429 with a Retry-After header (and `retryAfter` in the
+// body) when a chat, directions or geocoding budget is spent. These helpers turn that
+// into an error the UI can explain.
+
+export class RateLimitError extends Error {
+  readonly retryAfterSeconds: number | null;
+
+  constructor(message: string, retryAfterSeconds: number | null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export async function rateLimitErrorFrom(response: Response): Promise<RateLimitError> {
+  const body = await response.json().catch(() => null);
+  const header = Number(response.headers.get('Retry-After'));
+  const retryAfter = header > 0 ? header : Number(body?.retryAfter) > 0 ? Number(body.retryAfter) : null;
+  return new RateLimitError(body?.error || 'Too many requests', retryAfter);
+}
+
+// "in 45 seconds", "in 3 minutes", or "in a moment" when the server did not say
+export function formatRetryAfter(seconds: number | null): string {
+  if (!seconds) return 'in a moment';
+  if (seconds < 60) return `in ${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// "Too many place searches. Please try again in 45 seconds."
+export function rateLimitMessage(error: RateLimitError): string {
+  return `${error.message}. Please try again ${formatRetryAfter(error.retryAfterSeconds)}.`;
+}
@@ -1,7 +1,14 @@
 import { API_URL } from '../constants';
+import { authHeaders } from './auth';
+import { rateLimitErrorFrom, RateLimitError } from './rateLimit';
+import type { RouteManeuver, RouteStep } from '../types';
 
 export type RouteProfile = 'driving-car' | 'foot-walking' | 'cycling-regular';
 
+export interface RouteAlternative extends RouteLegResult {
+    geometry: [number, number][]; // [lng, lat] pairs for polyline
+}
+
 export interface RouteResult {
     mode: 'driving' | 'walking' | 'bicycling';
     duration: string;
@@ -9,20 +16,38 @@ export interface RouteResult {
     durationValue: number; // seconds
     distanceValue: number; // meters
     geometry: [number, number][]; // [lng, lat] pairs for polyline
+    steps: RouteStep[];
+    alternatives: RouteAlternative[]; // Only asked for between two points
 }
 
-interface ORSGeoJSONResponse {
-    features: Array<{
-        properties: {
-            summary: {
-                distance: number; // meters
-                duration: number; // seconds
-            };
-        };
-        geometry: {
-            coordinates: [number, number][]; // [lng, lat] pairs
-        };
-    }>;
+export interface RouteLegResult {
+    duration: string;
+    distance: string;
+    durationValue: number; // seconds
+    distanceValue: number; // meters
+}
+
+export interface MultiStopRoute extends RouteResult {
+    legs: RouteLegResult[]; // One per pair of consecutive stops
+}
+
+// Route returned by /api/directions, normalized by the backend whichever
+// routing engine computed it
+interface DirectionsResponse {
+    profile: RouteProfile;
+    distance: number; // meters
+    duration: number; // seconds
+    geometry: [number, number][]; // [lng, lat] pairs
+    legs: { distance: number; duration: number }[];
+    steps: {
+        instruction: string;
+        name: string;
+        maneuver: RouteManeuver;
+        distance: number;
+        duration: number;
+        wayPoints: [number, number];
+    }[];
+    alternatives: { distance: number; duration: number; geometry: [number, number][] }[];
 }
 
 const MODE_MAP: Record<RouteProfile, 'driving' | 'walking' | 'bicycling'> = {
@@ -54,13 +79,40 @@ function formatDistance(meters: number): string {
     return `${Math.round(meters)} m`;
 }
 
+function toLegResult(leg: { distance: number; duration: number }): RouteLegResult {
+    return {
+        duration: formatDuration(leg.duration),
+        distance: formatDistance(leg.distance),
+        durationValue: leg.duration,
+        distanceValue: leg.distance,
+    };
+}
+
+function toStepResult(step: DirectionsResponse['steps'][number]): RouteStep {
+    return {
+        instruction: step.instruction,
+        name: step.name,
+        maneuver: step.maneuver,
+        wayPoints: step.wayPoints,
+        ...toLegResult(step),
+    };
+}
+
+function toAlternative(route: DirectionsResponse['alternatives'][number]): RouteAlternative {
+    return { ...toLegResult(route), geometry: route.geometry };
+}
+
 /**
- * Get directions between two points using backend proxy
+ * Get directions between two points using backend proxy, optionally with
+ * the other routes the engine found.
+ * Throws RateLimitError when the server's directions limit is reached,
+ * and rejects once `signal` is aborted.
  */
 export async function getDirections(
     origin: { lat: number; lng: number },
     destination: { lat: number; lng: number },
-    profile: RouteProfile = 'driving-car'
+    profile: RouteProfile = 'driving-car',
+    { alternatives = false, signal }: { alternatives?: boolean; signal?: AbortSignal } = {}
 ): Promise<RouteResult | null> {
     try {
         const params = new URLSearchParams({
@@ -68,8 +120,16 @@ export async function getDirections(
             start: `${origin.lng},${origin.lat}`,
             end: `${destination.lng},${destination.lat}`,
         });
+        if (alternatives) params.set('alternatives', 'true');
 
-        const response = await fetch(`${API_URL}/api/directions?${params.toString()}`);
+        const response = await fetch(`${API_URL}/api/directions?${params.toString()}`, {
+            headers: authHeaders(),
+            signal,
+        });
+
+        if (response.status === 429) {
+            throw await rateLimitErrorFrom(response);
+        }
 
         if (!response.ok) {
             const errorText = await response.text();
@@ -77,80 +137,183 @@ export async function getDirections(
             return null;
         }
 
-        const data: ORSGeoJSONResponse = await response.json();
+        const data: DirectionsResponse = await response.json();
 
-        if (!data.features || data.features.length === 0) {
+        return {
+            mode: MODE_MAP[profile],
+            duration: formatDuration(data.duration),
+            distance: formatDistance(data.distance),
+            durationValue: data.duration,
+            distanceValue: data.distance,
+            geometry: data.geometry,
+            steps: data.steps.map(toStepResult),
+            alternatives: data.alternatives.map(toAlternative),
+        };
+    } catch (error) {
+        // Out of directions budget: the other profiles would be refused too
+        if (error instanceof RateLimitError || signal?.aborted) throw error;
+        console.error('Directions error:', error);
+        return null;
+    }
+}
+
+/**
+ * Get one route through all stops in order, with a summary per leg.
+ * Throws RateLimitError when the server's directions limit is reached,
+ * and rejects once `signal` is aborted.
+ */
+export async function getMultiStopRoute(
+    stops: { lat: number; lng: number }[],
+    profile: RouteProfile = 'driving-car',
+    { signal }: { signal?: AbortSignal } = {}
+): Promise<MultiStopRoute | null> {
+    try {
+        const response = await fetch(`${API_URL}/api/directions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ profile, coordinates: stops.map((stop) => [stop.lng, stop.lat]) }),
+            signal,
+        });
+
+        if (response.status === 429) {
+            throw await rateLimitErrorFrom(response);
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('Directions proxy error:', response.status, errorText);
             return null;
         }
 
-        const feature = data.features[0];
+        const data: DirectionsResponse = await response.json();
 
         return {
             mode: MODE_MAP[profile],
-            duration: formatDuration(feature.properties.summary.duration),
-            distance: formatDistance(feature.properties.summary.distance),
-            durationValue: feature.properties.summary.duration,
-            distanceValue: feature.properties.summary.distance,
-            geometry: feature.geometry.coordinates,
+            ...toLegResult(data),
+            geometry: data.geometry,
+            steps: data.steps.map(toStepResult),
+            alternatives: data.alternatives.map(toAlternative),
+            legs: data.legs.map(toLegResult),
         };
     } catch (error) {
-        console.error('ORS directions error:', error);
+        if (error instanceof RateLimitError || signal?.aborted) throw error;
+        console.error('Directions error:', error);
         return null;
     }
 }
 
+export interface StopOrderResult {
+    order: number[][]; // For each period, its stop indices in the new order
+    duration: number; // seconds, in the new order
+    originalDuration: number | null; // seconds, in the current order (null when unreachable)
+}
+
 /**
- * Get directions for all available modes
+ * Ask the backend for the fastest order of a day's stops. Stops stay inside
+ * their period and `end` (the accommodation) stays last.
+ * Throws RateLimitError when the server's directions limit is reached.
  */
-export async function getAllDirections(
-    origin: { lat: number; lng: number },
-    destination: { lat: number; lng: number }
-): Promise<RouteResult[]> {
-    const profiles: RouteProfile[] = ['driving-car', 'foot-walking', 'cycling-regular'];
-    const results: RouteResult[] = [];
+export async function optimizeStopOrder(
+    periods: { lat: number; lng: number }[][],
+    end: { lat: number; lng: number } | null,
+    profile: RouteProfile = 'driving-car'
+): Promise<StopOrderResult | null> {
+    const toPair = (stop: { lat: number; lng: number }) => [stop.lng, stop.lat];
 
-    for (const profile of profiles) {
-        const result = await getDirections(origin, destination, profile);
-        if (result) {
-            results.push(result);
+    try {
+        const response = await fetch(`${API_URL}/api/directions/optimize`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({
+                profile,
+                periods: periods.map((stops) => stops.map(toPair)),
+                end: end ? toPair(end) : undefined,
+            }),
+        });
+
+        if (response.status === 429) {
+            throw await rateLimitErrorFrom(response);
         }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('Stop order optimization error:', response.status, errorText);
+            return null;
+        }
+
+        return await response.json();
+    } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error('Stop order optimization error:', error);
+        return null;
     }
+}
 
-    return results;
+export interface IsochronePolygon {
+    minutes: number;
+    rings: [number, number][][]; // Outer ring then holes, [lng, lat] pairs
 }
 
 /**
- * Geocode an address to coordinates using Nominatim (for routing)
+ * Get the areas reachable from a point within each number of minutes,
+ * smallest first.
+ * Throws RateLimitError when the server's directions limit is reached,
+ * and rejects once `signal` is aborted.
  */
-export async function geocodeAddress(
-    address: string
-): Promise<{ lat: number; lng: number } | null> {
+export async function getIsochrones(
+    center: { lat: number; lng: number },
+    minutes: number[],
+    profile: RouteProfile = 'driving-car',
+    { signal }: { signal?: AbortSignal } = {}
+): Promise<IsochronePolygon[] | null> {
     try {
         const params = new URLSearchParams({
-            q: address,
-            format: 'json',
-            limit: '1',
+            profile,
+            location: `${center.lng},${center.lat}`,
+            minutes: minutes.join(','),
         });
 
-        const response = await fetch(
-            `https://nominatim.openstreetmap.org/search?${params.toString()}`
-        );
+        const response = await fetch(`${API_URL}/api/directions/isochrones?${params.toString()}`, {
+            headers: authHeaders(),
+            signal,
+        });
 
-        if (!response.ok) {
-            return null;
+        if (response.status === 429) {
+            throw await rateLimitErrorFrom(response);
         }
 
-        const results = await response.json();
-        if (results.length === 0) {
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('Isochrone proxy error:', response.status, errorText);
             return null;
         }
 
-        return {
-            lat: parseFloat(results[0].lat),
-            lng: parseFloat(results[0].lon),
-        };
+        const data: { polygons: IsochronePolygon[] } = await response.json();
+        return data.polygons;
     } catch (error) {
-        console.error('Geocoding error:', error);
+        if (error instanceof RateLimitError || signal?.aborted) throw error;
+        console.error('Isochrone error:', error);
         return null;
     }
 }
+
+/**
+ * Get directions, with alternatives, for all available modes
+ */
+export async function getAllDirections(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    { signal }: { signal?: AbortSignal } = {}
+): Promise<RouteResult[]> {
+    const profiles: RouteProfile[] = ['driving-car', 'foot-walking', 'cycling-regular'];
+    const results: RouteResult[] = [];
+
+    for (const profile of profiles) {
+        const result = await getDirections(origin, destination, profile, { alternatives: true, signal });
+        if (result) {
+            results.push(result);
+        }
+    }
+
+    return results;
+}
@@ -76,5 +76,5 @@ Object.defineProperty(window, 'matchMedia', {
   })),
 });
 
-// Mock fetch for nominatim/routing tests
+// Mock fetch for geocoding/routing tests
 globalThis.fetch = vi.fn();
@@ -1,7 +1,7 @@
 // Shared types for the MapGPT application
 
 export interface MapAction {
-  action: 'goto' | 'searchOne' | 'searchMany' | 'directions' | 'itinerary' | 'marker';
+  action: 'goto' | 'searchOne' | 'searchMany' | 'directions' | 'route' | 'itinerary' | 'marker' | 'isochrone';
   source?: 'chat' | 'searchBar' | 'button';
   trigger?: 'manual' | 'ai';
   lat?: number;
@@ -12,15 +12,28 @@ export interface MapAction {
   title?: string;
   origin?: string;
   destination?: string;
+  waypoints?: string[]; // Ordered stops for the 'route' action
+  minutes?: number; // Travel time limit for the 'isochrone' action, around `origin` or lat/lng
+  profile?: 'driving-car' | 'foot-walking' | 'cycling-regular';
   itinerary?: any;
+  conversationId?: string | null; // Chat a 'searchMany' or 'route' came from, whose place choices apply
+  placeChoices?: Record<string, PlaceData>; // Places the user picked, by placeChoiceKey of the query
   _timestamp?: number;
 }
 
+// How well a looked up place answers the name it was looked up by:
+// 'unresolved' when nothing was found, 'confirmed' when the user picked it
+export type MatchQuality = 'high' | 'low' | 'unresolved' | 'confirmed';
+
 export interface PlaceData {
   id: string;
   displayName: string;
   formattedAddress: string;
   location: { lat: number; lng: number } | null;
+  suspectMatch?: boolean; // Found far from the other stops of the same lookup, possibly another place with this name
+  query?: string; // Name the place was looked up by, for places the assistant suggested
+  matchQuality?: MatchQuality;
+  candidates?: PlaceData[]; // Other places the lookup found, to pick from when the match is wrong
   rating?: number;
   userRatingCount?: number;
   priceLevel?: string;
@@ -95,6 +108,7 @@ export interface Message {
   isError?: boolean;
   failedMessage?: string;
   responseTime?: number; // Time in seconds for AI to generate response
+  isStreaming?: boolean; // Partial assistant message while the response is still streaming
 }
 
 export interface PlanningPreferences {
@@ -109,6 +123,45 @@ export const TRAVEL_STYLES = ['Budget', 'Mid-range', 'Luxury'] as const;
 export const DURATION_OPTIONS = ['1-2 days', '3-4 days', '5-7 days', '1-2 weeks', '2+ weeks'] as const;
 
 
+export type TravelMode = 'driving' | 'walking' | 'bicycling'; // transit not supported by OpenRouteService
+
+export type RouteManeuver =
+  | 'depart'
+  | 'arrive'
+  | 'waypoint'
+  | 'straight'
+  | 'left'
+  | 'right'
+  | 'slight-left'
+  | 'slight-right'
+  | 'sharp-left'
+  | 'sharp-right'
+  | 'keep-left'
+  | 'keep-right'
+  | 'u-turn'
+  | 'roundabout'
+  | 'exit-roundabout'
+  | 'other';
+
+export interface RouteSummary {
+  duration: string;
+  distance: string;
+  durationValue: number; // seconds
+  distanceValue: number; // meters
+}
+
+// One turn-by-turn instruction of a route
+export interface RouteStep {
+  instruction: string;
+  name: string; // Street name, empty when unnamed
+  maneuver: RouteManeuver;
+  duration: string;
+  distance: string;
+  durationValue: number; // seconds
+  distanceValue: number; // meters
+  wayPoints: [number, number]; // [from, to] indices of the step's stretch of the route geometry
+}
+
 // Direction result with travel times for different modes
 export interface DirectionResult {
   origin: string;
@@ -116,11 +169,45 @@ export interface DirectionResult {
   originPlace?: PlaceData | null;
   destinationPlace?: PlaceData | null;
   routes: {
-    mode: 'driving' | 'walking' | 'bicycling'; // transit not supported by OpenRouteService
+    mode: TravelMode;
     duration: string;
     distance: string;
     durationValue: number; // seconds
     distanceValue: number; // meters
+    geometry?: [number, number][]; // [lng, lat] pairs, for exports
+    steps?: RouteStep[]; // Turn-by-turn steps
+    alternatives?: RouteSummary[]; // Other routes the engine found for this mode
+  }[];
+}
+
+// Area reachable from a point within each time limit
+export interface IsochroneResult {
+  label: string; // Name of the center, e.g. a place or "My Location"
+  center: { lat: number; lng: number };
+  profile: 'driving-car' | 'foot-walking' | 'cycling-regular';
+  polygons: {
+    minutes: number;
+    rings: [number, number][][]; // Outer ring then holes, [lng, lat] pairs
+  }[]; // Smallest time limit first
+}
+
+// Route through several stops in order, e.g. a whole itinerary day
+export interface MultiStopRouteResult {
+  title?: string;
+  stops: string[];
+  suspectStops?: string[]; // Stops found far from the others, possibly the wrong place
+  mode: 'driving' | 'walking' | 'bicycling';
+  duration: string;
+  distance: string;
+  durationValue: number; // seconds
+  distanceValue: number; // meters
+  legs: {
+    from: string;
+    to: string;
+    duration: string;
+    distance: string;
+    durationValue: number;
+    distanceValue: number;
   }[];
 }
 
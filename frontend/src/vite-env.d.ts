@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_OPENROUTESERVICE_API_KEY: string;
   readonly VITE_API_URL: string;
+  readonly VITE_SUSPECT_MATCH_DISTANCE_KM?: string;
+  readonly VITE_GEOCODE_CACHE_SIZE?: string;
+  readonly VITE_GEOCODE_CACHE_TTL_SECONDS?: string;
 }
 
 interface ImportMeta {